@@ -1,23 +1,227 @@
 // instant.perms.ts
+// Docs: https://www.instantdb.com/docs/permissions
+//
+// Everything is owned by a signed-in $user (`userId`), except host-side data
+// (heartbeats, logs, errors) which only the host service user may write.
+// Creating a user message starts an agent run, so that is limited to
+// operators writing into their own conversation; without
+// INSTANTDB_OPERATOR_EMAILS nobody is one. See lib/identity.ts.
 
 import type { InstantRules } from "@instantdb/core";
+import { operatorEmails, serviceEmail } from "./lib/identity";
+
+// Agent runs execute code on the host: no operator list, no operators
+const operators = operatorEmails();
+const isOperator = operators.length
+  ? `auth.id != null && auth.email in ${JSON.stringify(operators)}`
+  : "false";
+
+const common = [
+  "isService",
+  `auth.id != null && auth.email == '${serviceEmail()}'`,
+  "isOwner",
+  "auth.id != null && auth.id == data.userId",
+  "isOperator",
+  isOperator,
+];
 
 const rules = {
+  $default: {
+    allow: {
+      $default: "false",
+    },
+  },
+  $users: {
+    allow: {
+      view: "auth.id == data.id",
+      create: "false",
+      update: "false",
+      delete: "false",
+    },
+  },
+  conversations: {
+    allow: {
+      view: "isOwner || isService",
+      create: "isOwner && isOperator",
+      update: "(isOwner && newData.userId == data.userId) || isService",
+      delete: "isOwner",
+    },
+    bind: common,
+  },
+  messages: {
+    allow: {
+      view: "isOwner || isService",
+      // User messages trigger agent runs: operators, in their own conversation
+      create:
+        "isService || (isOperator && isOwner && data.role == 'user' && ownsConversation)",
+      update:
+        "isService || (isOwner && newData.userId == data.userId && newData.role == data.role)",
+      delete: "isOwner",
+    },
+    bind: [...common, "ownsConversation", "auth.id in data.ref('conversation.userId')"],
+  },
+  approvals: {
+    allow: {
+      view: "isOwner || isService",
+      create: "isService",
+      // The owner may only answer a pending request, nothing else
+      update:
+        "isService || (isOwner && data.status == 'pending' && newData.status in ['approved', 'denied'] && newData.userId == data.userId && newData.toolName == data.toolName)",
+      delete: "isService",
+    },
+    bind: common,
+  },
+  checkpoints: {
+    allow: {
+      view: "isOwner || isService",
+      create: "isService",
+      // The owner may only ask for a rollback; the host performs it
+      update:
+        "isService || (isOwner && newData.status == 'rollbackRequested' && data.status in ['ready', 'refused', 'rolledBack'] && newData.userId == data.userId && newData.tree == data.tree)",
+      delete: "isService",
+    },
+    bind: common,
+  },
+  diffs: {
+    allow: {
+      view: "isOwner || isService",
+      create: "isService",
+      update: "isService",
+      delete: "isService || isOwner",
+    },
+    bind: common,
+  },
+  diffChunks: {
+    allow: {
+      view: "isOwner || isService",
+      create: "isService",
+      update: "isService",
+      delete: "isService || isOwner",
+    },
+    bind: common,
+  },
+  issues: {
+    allow: {
+      view: "isOperator || isService",
+      create: "isOperator || isService",
+      update: "isOperator || isService",
+      delete: "isOperator",
+    },
+    bind: common,
+  },
+  devices: {
+    allow: {
+      // The host reads push tokens to notify the owner and prunes dead ones
+      view: "isOwner || isService",
+      create: "isOwner",
+      update: "isOwner && newData.userId == data.userId",
+      delete: "isOwner || isService",
+    },
+    bind: common,
+  },
+  userSettings: {
+    allow: {
+      view: "isOwner",
+      create: "isOwner",
+      update: "isOwner && newData.userId == data.userId",
+      delete: "isOwner",
+    },
+    bind: common,
+  },
   transcriptions: {
     allow: {
-      create: "true",
-      update: "true",
-      delete: "true",
-      view: "true",
+      view: "isOwner",
+      create: "isOwner",
+      update: "isOwner && newData.userId == data.userId",
+      delete: "isOwner",
     },
+    bind: common,
   },
   segments: {
     allow: {
-      create: "true",
-      update: "true",
-      delete: "true",
-      view: "true",
+      view: "ownsTranscription",
+      create: "ownsTranscription",
+      update: "ownsTranscription",
+      delete: "ownsTranscription",
+    },
+    bind: ["ownsTranscription", "auth.id in data.ref('transcription.userId')"],
+  },
+  heartbeats: {
+    allow: {
+      view: "auth.id != null",
+      create: "isService",
+      update: "isService",
+      delete: "isService",
+    },
+    bind: common,
+  },
+  leases: {
+    allow: {
+      view: "isOperator || isService",
+      create: "isService",
+      update: "isService",
+      delete: "isService",
+    },
+    bind: common,
+  },
+  logs: {
+    allow: {
+      view: "isOperator || isService",
+      create: "isService",
+      update: "false",
+      delete: "isService",
+    },
+    bind: common,
+  },
+  errors: {
+    allow: {
+      view: "isOperator || isService",
+      create: "isService",
+      update: "isService",
+      delete: "isService",
+    },
+    bind: common,
+  },
+  schemaMeta: {
+    allow: {
+      // Written by `npm run migrate` with the admin token only
+      view: "isOperator || isService",
+      create: "false",
+      update: "false",
+      delete: "false",
+    },
+    bind: common,
+  },
+  networkDiagnostics: {
+    allow: {
+      view: "isOperator || isService",
+      create: "isService",
+      update: "isService",
+      delete: "isService",
+    },
+    bind: common,
+  },
+  supervisorCommands: {
+    allow: {
+      view: "isOperator || isService",
+      // Operators queue whitelisted commands; only the supervisor reports on them
+      create:
+        "isService || (isOperator && isOwner && data.status == 'pending' && data.command in ['restart-handler', 'restart-bundler', 'reload-bundler', 'deps-mobile'])",
+      update: "isService",
+      delete: "isService",
+    },
+    bind: common,
+  },
+  worktrees: {
+    allow: {
+      view: "isOwner || isService",
+      // The owner asks for a worktree or an action; the supervisor does the git work
+      create: "isService || (isOwner && data.status == 'requested' && ownsConversation)",
+      update:
+        "isService || (isOwner && data.status == 'active' && newData.status == data.status && newData.userId == data.userId && newData.path == data.path && newData.action in ['merge', 'rebase', 'discard'])",
+      delete: "isService",
     },
+    bind: [...common, "ownsConversation", "auth.id in data.ref('conversation.userId')"],
   },
   attrs: {
     allow: {
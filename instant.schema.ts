@@ -12,8 +12,72 @@ const _schema = i.schema({
     "$users": i.entity({
       "email": i.string().unique().indexed().optional(),
     }),
+    "approvals": i.entity({
+      "conversationId": i.string().indexed(),
+      "messageId": i.string().indexed().optional(), // User message whose run asked
+      "userId": i.string().indexed().optional(), // Conversation owner who decides
+      "toolName": i.string(), // e.g. "Bash", "Write", "Edit"
+      "input": i.json().optional(), // Tool input as the agent sent it
+      "preview": i.string().optional(), // Command line or diff shown on the card
+      "status": i
+        .string<"pending" | "approved" | "denied" | "expired">()
+        .indexed(),
+      "reason": i.string().optional(), // Why it was denied, passed back to the agent
+      "createdAt": i.number().indexed(),
+      "expiresAt": i.number().optional(), // Auto-deny after this
+      "decidedAt": i.number().optional(),
+      "decidedBy": i.string().optional(),
+    }),
+    "checkpoints": i.entity({
+      // Git snapshot of the agent's working tree taken before a run
+      // (server/services/checkpoints.ts)
+      "conversationId": i.string().indexed(),
+      "messageId": i.string().indexed().optional(), // User message that started the run
+      "userId": i.string().indexed().optional(),
+      "label": i.string().optional(), // Start of the prompt, shown on the phone
+      "cwd": i.string().indexed(), // Repository the snapshot belongs to
+      "sha": i.string(), // Checkpoint commit under refs/organic/checkpoints/
+      "tree": i.string(), // Working tree before the run
+      "head": i.string().optional(), // HEAD before the run
+      "afterTree": i.string().optional(), // Working tree the run left behind
+      "status": i
+        .string<
+          | "running"
+          | "ready"
+          | "rollbackRequested"
+          | "rolledBack"
+          | "refused"
+        >()
+        .indexed(),
+      "reason": i.string().optional(), // Why a rollback was refused or failed
+      "filesChanged": i.number().optional(), // Files the rollback wrote or deleted
+      "createdAt": i.number().indexed(),
+      "completedAt": i.number().optional(),
+      "rollbackRequestedAt": i.number().optional(),
+      "rolledBackAt": i.number().optional(),
+    }),
     "conversations": i.entity({
-      "updatedAt": i.number().optional(),
+      "userId": i.string().indexed().optional(),
+      "title": i.string().optional(),
+      "status": i.string().optional(), // 'active' | 'archived'
+      "mode": i.string<"chat" | "agent">().optional(), // Overrides HANDLER_MODE
+      "model": i.string().optional(), // "<provider>:<modelId>", see config/models.json
+      "claudeSessionId": i.string().optional(), // Latest Claude Code session to resume
+      "approvalTimeoutMs": i.number().optional(), // Unanswered approvals deny after this
+      "branchSelections": i.json<Record<string, string | null>>().optional(), // branchKey → message shown
+      // Written by the host (server/services/conversation-summaries.ts)
+      "titleGeneratedAt": i.number().optional(),
+      "summary": i.string().optional(), // Rolling summary of the thread
+      "summaryThroughMessageId": i.string().optional(), // Last message it covers
+      "summaryMessageCount": i.number().optional(), // Thread length it covers
+      "summaryUpdatedAt": i.number().optional(),
+      // Forks copy their parent's thread up to a message (server/services/conversation-forks.ts)
+      "forkedFrom": i.string().indexed().optional(), // Parent conversation
+      "forkedAtMessageId": i.string().optional(), // Last message copied from it
+      "forkStatus": i.string<"requested" | "ready" | "failed">().indexed().optional(),
+      "forkError": i.string().optional(),
+      "createdAt": i.number().indexed().optional(),
+      "updatedAt": i.number().indexed().optional(),
     }),
     "devices": i.entity({
       "createdAt": i.number().optional(),
@@ -21,6 +85,43 @@ const _schema = i.schema({
       "platform": i.string().optional(),
       "pushToken": i.string().optional(),
       "updatedAt": i.number().optional(),
+      "userId": i.string().indexed().optional(), // Owning $users id
+    }),
+    "diffChunks": i.entity({
+      // One piece of a file's patch; large files are split so no single
+      // value is huge (server/services/diffs.ts)
+      "diffId": i.string().indexed(),
+      "fileIndex": i.number().indexed(), // Index into diffs.files
+      "seq": i.number(), // Order within the file
+      "text": i.string(), // Unified diff lines ("@@", "+", "-", " ")
+      "userId": i.string().indexed().optional(),
+      "createdAt": i.number(),
+    }),
+    "diffs": i.entity({
+      // What an agent turn changed, linked to the assistant message
+      "conversationId": i.string().indexed(),
+      "messageId": i.string().indexed(), // Assistant message of the turn
+      "userId": i.string().indexed().optional(),
+      "cwd": i.string().optional(),
+      "fromTree": i.string(),
+      "toTree": i.string(),
+      "filesChanged": i.number(),
+      "additions": i.number(),
+      "deletions": i.number(),
+      "files": i.json<
+        {
+          path: string;
+          oldPath?: string;
+          status: "added" | "modified" | "deleted" | "renamed";
+          binary: boolean;
+          additions: number;
+          deletions: number;
+          chunks: number; // diffChunks rows stored for this file
+          truncated?: boolean; // Patch was too large to store in full
+        }[]
+      >(),
+      "truncated": i.boolean().optional(), // Some files were left out entirely
+      "createdAt": i.number().indexed(),
     }),
     "errors": i.entity({
       "content": i.string().optional(),
@@ -30,17 +131,91 @@ const _schema = i.schema({
       "status": i.string().optional(),
       "timestamp": i.number().optional(),
       "type": i.string().optional(),
+      "resolution": i.string().optional(),
+      "resolvedAt": i.number().optional(),
+      "errorMessage": i.string().optional(),
+      "claimedBy": i.string().optional(),
+      "claimToken": i.string().optional(),
+      "signature": i.string().indexed().optional(), // errorSignature(content)
     }),
     "heartbeats": i.entity({
       "kind": i.string().optional(),
       "lastSeenAt": i.number().optional(),
     }),
+    "issues": i.entity({
+      "title": i.string(),
+      "description": i.string().optional(),
+      "priority": i.string<"High" | "Medium" | "Low">().optional(),
+      "status": i.string<"Todo" | "In Progress" | "Done">().indexed().optional(),
+      "context": i.json().optional(),
+      "conversationId": i.string().indexed().optional(),
+      "messageId": i.string().indexed().optional(),
+      "createdAt": i.number().optional(),
+      "updatedAt": i.number().indexed().optional(),
+    }),
+    // Leader election between handler instances (server/services/leader-election.ts)
+    "leases": i.entity({
+      "name": i.string().unique().indexed(), // What is being led, e.g. "message-handler"
+      "holder": i.string(), // Worker id "<host>:<pid>"
+      "holderHost": i.string().optional(),
+      "token": i.number(), // Fencing token; grows by one with every new holder
+      "acquiredAt": i.number(),
+      "renewedAt": i.number().optional(),
+      "expiresAt": i.number(),
+    }),
     "logs": i.entity({
       "kind": i.string().optional(),
       "message": i.string().optional(),
       "meta": i.json().optional(),
       "timestamp": i.number().optional(),
     }),
+    "messages": i.entity({
+      "conversationId": i.string().indexed(),
+      "userId": i.string().indexed().optional(), // Conversation owner's $users id
+      "parentId": i.string().indexed().optional(), // Message this one follows; siblings are branches
+      "role": i.string<"user" | "assistant" | "system">(),
+      "content": i.string(),
+      "timestamp": i.number().indexed(),
+      "status": i
+        .string<
+          | "pending"
+          | "processing"
+          | "streaming"
+          | "completed"
+          | "error"
+          | "replaced"
+          | "interrupted" // Handler shut down mid-answer; partial content kept
+          | "cancelled" // Stopped from the app; partial content kept
+        >()
+        .indexed()
+        .optional(),
+      "metadata": i.json().optional(),
+      "model": i.string().optional(), // Per-message model override
+      "isStreaming": i.boolean().optional(),
+      "streamChunks": i.json<string[]>().optional(), // Legacy, see streamDeltas
+      "streamDeltas": i.json<Record<string, string>>().optional(), // seq key → appended text
+      "streamSeq": i.number().optional(),
+      "finalContent": i.string().optional(),
+      "errorMessage": i.string().optional(),
+      "checkpointId": i.string().optional(), // Snapshot taken before this message's agent run
+      "cancelRequestedAt": i.number().optional(), // Stop pressed on a streaming answer
+      // Durable queue bookkeeping (server/services/message-queue.ts)
+      "claimedBy": i.string().optional(),
+      "claimedHost": i.string().optional(),
+      "claimedUntil": i.number().optional(),
+      "claimToken": i.string().optional(),
+      "attempts": i.number().optional(),
+      "fencingToken": i.number().optional(), // Leader lease token of the last claim
+    }),
+    "schemaMeta": i.entity({
+      "key": i.string().unique().indexed(), // Always "schema"; one row per app
+      "version": i.number(), // Last migration applied (server/migrations)
+      "appliedAt": i.number().optional(),
+      "appliedBy": i.string().optional(), // "<host>:<pid>" of the migrate run
+      "history": i.json<
+        { version: number; name: string; appliedAt: number }[]
+      >().optional(),
+    }),
     "segments": i.entity({
       "text": i.string(),
       "timestamp": i.number(), // Timestamp in seconds from session start
@@ -51,6 +226,53 @@ const _schema = i.schema({
       "createdAt": i.date(),
       "updatedAt": i.date(),
     }),
+    "networkDiagnostics": i.entity({
+      // Why a managed process is having network trouble, and what the
+      // supervisor tried about it (server/services/network-diagnostics.ts)
+      "process": i.string().indexed(), // Whose output triggered it, e.g. "bundler"
+      "trigger": i.string(), // The error text that started the diagnosis
+      "excerpt": i.string().optional(), // Output around it
+      "status": i.string<"running" | "done">(),
+      "outcome": i.string<"clear" | "remediated" | "unresolved">().optional(),
+      "summary": i.string().optional(), // One line for the phone
+      "checks": i.json<
+        {
+          detector: string;
+          type: "dns" | "http" | "command";
+          ok: boolean; // No problem found
+          detail: string;
+          ms: number;
+        }[]
+      >().optional(),
+      "remediations": i.json<
+        {
+          detector: string;
+          command: string;
+          ok: boolean;
+          output: string;
+          ms: number;
+          verified?: boolean; // The detector passed afterwards
+        }[]
+      >().optional(),
+      "startedAt": i.number().indexed(),
+      "finishedAt": i.number().optional(),
+    }),
+    "supervisorCommands": i.entity({
+      // Commands sent from the phone to the running supervisor
+      // (server/services/supervisor-commands.ts)
+      "command": i
+        .string<"restart-handler" | "restart-bundler" | "reload-bundler" | "deps-mobile">()
+        .indexed(),
+      "userId": i.string().indexed().optional(), // Who asked
+      "status": i
+        .string<"pending" | "running" | "succeeded" | "failed" | "expired">()
+        .indexed(),
+      "exitCode": i.number().optional(),
+      "output": i.string().optional(), // Tail of the command's output
+      "requestedAt": i.number().indexed(),
+      "startedAt": i.number().optional(),
+      "finishedAt": i.number().optional(),
+    }),
     "transcriptions": i.entity({
       "title": i.string().optional(),
       "startedAt": i.date(),
@@ -69,9 +291,147 @@ const _schema = i.schema({
       "lineSpacing": i.number().optional(),
       "textSize": i.number().optional(),
       "updatedAt": i.number().optional(),
+      "userId": i.string().indexed().optional(), // Owning $users id
+    }),
+    "worktrees": i.entity({
+      // Per-conversation git worktree, created and cleaned up by the
+      // supervisor (server/services/worktrees.ts)
+      "conversationId": i.string().indexed(),
+      "userId": i.string().indexed().optional(),
+      "status": i
+        .string<
+          | "requested"
+          | "active"
+          | "merged"
+          | "discarded"
+          | "archived"
+          | "failed"
+        >()
+        .indexed(),
+      "path": i.string().optional(),
+      "branch": i.string().optional(),
+      "baseBranch": i.string().optional(), // Branch of the main checkout it merges into
+      "baseSha": i.string().optional(),
+      "action": i.string<"merge" | "rebase" | "discard">().optional(), // Requested from the phone
+      "actionRequestedAt": i.number().optional(),
+      "actionHandledAt": i.number().optional(), // Pending while requested > handled
+      "lastResult": i.string().optional(), // Outcome of the last action, or why it failed
+      "diskBytes": i.number().optional(),
+      "lastUsedAt": i.number().optional(), // Last agent run inside it
+      "createdAt": i.number().indexed(),
+      "updatedAt": i.number().optional(),
+      "removedAt": i.number().optional(),
     }),
   },
   links: {
+    "conversationMessages": {
+      "forward": {
+        "on": "messages",
+        "has": "one",
+        "label": "conversation"
+      },
+      "reverse": {
+        "on": "conversations",
+        "has": "many",
+        "label": "messages"
+      }
+    },
+    "conversationForks": {
+      "forward": {
+        "on": "conversations",
+        "has": "one",
+        "label": "parent"
+      },
+      "reverse": {
+        "on": "conversations",
+        "has": "many",
+        "label": "forks"
+      }
+    },
+    "messageIssues": {
+      "forward": {
+        "on": "issues",
+        "has": "one",
+        "label": "message"
+      },
+      "reverse": {
+        "on": "messages",
+        "has": "many",
+        "label": "issues"
+      }
+    },
+    "conversationApprovals": {
+      "forward": {
+        "on": "approvals",
+        "has": "one",
+        "label": "conversation"
+      },
+      "reverse": {
+        "on": "conversations",
+        "has": "many",
+        "label": "approvals"
+      }
+    },
+    "conversationCheckpoints": {
+      "forward": {
+        "on": "checkpoints",
+        "has": "one",
+        "label": "conversation"
+      },
+      "reverse": {
+        "on": "conversations",
+        "has": "many",
+        "label": "checkpoints"
+      }
+    },
+    "conversationIssues": {
+      "forward": {
+        "on": "issues",
+        "has": "one",
+        "label": "conversation"
+      },
+      "reverse": {
+        "on": "conversations",
+        "has": "many",
+        "label": "issues"
+      }
+    },
+    "conversationWorktrees": {
+      "forward": {
+        "on": "worktrees",
+        "has": "one",
+        "label": "conversation"
+      },
+      "reverse": {
+        "on": "conversations",
+        "has": "many",
+        "label": "worktrees"
+      }
+    },
+    "messageDiffs": {
+      "forward": {
+        "on": "diffs",
+        "has": "one",
+        "label": "message"
+      },
+      "reverse": {
+        "on": "messages",
+        "has": "many",
+        "label": "diffs"
+      }
+    },
+    "diffFileChunks": {
+      "forward": {
+        "on": "diffChunks",
+        "has": "one",
+        "label": "diff"
+      },
+      "reverse": {
+        "on": "diffs",
+        "has": "many",
+        "label": "chunks"
+      }
+    },
     "transcriptionSegments": {
       "forward": {
         "on": "segments",
@@ -0,0 +1,494 @@
+// lib/data-model.ts
+// Shared, typed access to the InstantDB data model.
+//
+// Imported by both the host (server/, scripts/) and the mobile app, so keep
+// it free of Node- or React Native-specific imports. Entity types come
+// straight from instant.schema.ts; the builders below return transaction
+// chunks that also set the schema links (conversation→messages,
+// message→issues, conversation→issues). Pass `db.tx` from a db created with
+// `init({ appId, schema })`.
+
+import type {
+  InstaQLEntity,
+  TransactionChunk,
+  TxChunk,
+} from "@instantdb/core";
+import type { AppSchema } from "../instant.schema";
+
+export type Message = InstaQLEntity<AppSchema, "messages">;
+export type Conversation = InstaQLEntity<AppSchema, "conversations">;
+export type Issue = InstaQLEntity<AppSchema, "issues">;
+export type ErrorRecord = InstaQLEntity<AppSchema, "errors">;
+export type Approval = InstaQLEntity<AppSchema, "approvals">;
+export type Checkpoint = InstaQLEntity<AppSchema, "checkpoints">;
+export type Worktree = InstaQLEntity<AppSchema, "worktrees">;
+export type SupervisorCommand = InstaQLEntity<AppSchema, "supervisorCommands">;
+export type NetworkDiagnostic = InstaQLEntity<AppSchema, "networkDiagnostics">;
+export type Lease = InstaQLEntity<AppSchema, "leases">;
+export type Diff = InstaQLEntity<AppSchema, "diffs">;
+export type DiffChunk = InstaQLEntity<AppSchema, "diffChunks">;
+export type DiffFile = Diff["files"][number];
+
+export type MessageRole = Message["role"];
+export type MessageStatus = NonNullable<Message["status"]>;
+export type ConversationMode = NonNullable<Conversation["mode"]>;
+export type ForkStatus = NonNullable<Conversation["forkStatus"]>;
+export type IssuePriority = NonNullable<Issue["priority"]>;
+export type IssueStatus = NonNullable<Issue["status"]>;
+export type ApprovalStatus = Approval["status"];
+export type CheckpointStatus = Checkpoint["status"];
+export type WorktreeStatus = Worktree["status"];
+export type WorktreeAction = NonNullable<Worktree["action"]>;
+export type SupervisorCommandName = SupervisorCommand["command"];
+export type SupervisorCommandStatus = SupervisorCommand["status"];
+
+type EntityName = keyof AppSchema["entities"];
+type Tx = TxChunk<AppSchema>;
+// A chunk for any one entity of the schema; db.transact takes a list of them
+export type Chunk = {
+  [E in EntityName]: TransactionChunk<AppSchema, E>;
+}[EntityName];
+
+// Statuses that mean a message still has work in flight
+export const IN_FLIGHT_STATUSES: MessageStatus[] = [
+  "pending",
+  "processing",
+  "streaming",
+];
+
+export function newConversation(
+  tx: Tx,
+  conversationId: string,
+  fields: {
+    title: string;
+    userId?: string;
+    mode?: ConversationMode;
+    model?: string;
+  },
+): Chunk {
+  const now = Date.now();
+  return tx.conversations[conversationId]!.update({
+    status: "active",
+    ...fields,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+// A user message the host picks up (status "pending")
+export function newUserMessage(
+  tx: Tx,
+  messageId: string,
+  conversationId: string,
+  content: string,
+  extra: {
+    userId?: string;
+    model?: string;
+    metadata?: Record<string, any>;
+    parentId?: string; // Last message of the branch it continues
+  } = {},
+): Chunk {
+  return tx.messages[messageId]!
+    .update({
+      conversationId,
+      role: "user",
+      content,
+      timestamp: Date.now(),
+      status: "pending",
+      ...extra,
+    })
+    .link({ conversation: conversationId });
+}
+
+// An empty assistant message that StreamWriter fills in. `userId` is the
+// conversation owner, so the reply is visible to them under the perms rules;
+// `parentId` is the user message it answers.
+export function newAssistantMessage(
+  tx: Tx,
+  messageId: string,
+  conversationId: string,
+  userId?: string,
+  parentId?: string,
+): Chunk {
+  return tx.messages[messageId]!
+    .update({
+      conversationId,
+      ...(userId ? { userId } : {}),
+      ...(parentId ? { parentId } : {}),
+      role: "assistant",
+      content: "",
+      timestamp: Date.now(),
+      status: "streaming",
+      isStreaming: true,
+      streamDeltas: {},
+      streamSeq: 0,
+    })
+    .link({ conversation: conversationId });
+}
+
+// Ask the host to answer an interrupted message again. The partial answer is
+// marked "replaced"; the new answer becomes its sibling branch.
+export function retryMessage(
+  tx: Tx,
+  userMessageId: string,
+  interruptedReplyId?: string,
+): Chunk[] {
+  const chunks = [
+    tx.messages[userMessageId]!.update({
+      status: "pending",
+      attempts: 0,
+      errorMessage: "",
+    }),
+  ];
+  if (interruptedReplyId) {
+    chunks.push(tx.messages[interruptedReplyId]!.update({ status: "replaced" }));
+  }
+  return chunks;
+}
+
+// Stop an answer that is still streaming; the host aborts the model call and
+// keeps what was written so far (status "cancelled")
+export function requestCancel(tx: Tx, assistantMessageId: string): Chunk {
+  return tx.messages[assistantMessageId]!.update({
+    cancelRequestedAt: Date.now(),
+  });
+}
+
+// --- Branching -------------------------------------------------------------
+// A message names the message it follows in `parentId`. Messages with the
+// same parent and role are alternatives of each other (branches): an edited
+// question next to the original, a regenerated reply next to the old one.
+// `conversation.branchSelections[branchKey]` picks the one shown, newest by
+// default. The first message of a conversation has the conversation's id as
+// its parent. Messages from before branching have no parentId and follow the
+// message before them (replies: the message in `metadata.replyTo`).
+
+type BranchNode = {
+  id: string;
+  role: string;
+  timestamp?: number;
+  parentId?: string | null;
+  metadata?: any;
+};
+
+export type BranchSelections = Record<string, string | null>;
+
+export interface ThreadEntry<T extends BranchNode> {
+  message: T;
+  key: string; // branchKey of its group of alternatives
+  siblings: T[]; // All alternatives, oldest first (length 1 = no branches)
+  index: number; // Position of `message` in siblings
+}
+
+export function branchKey(parentId: string | null | undefined, role: string): string {
+  return `${parentId || "root"}:${role}`;
+}
+
+function byTime<T extends BranchNode>(a: T, b: T): number {
+  return (a.timestamp || 0) - (b.timestamp || 0);
+}
+
+// Parent of every message, filling in the ones written before branching
+export function resolveParents<T extends BranchNode>(
+  messages: T[],
+): Map<string, string | null> {
+  const ids = new Set(messages.map((m) => m.id));
+  const parents = new Map<string, string | null>();
+  let previous: string | null = null;
+  for (const m of [...messages].sort(byTime)) {
+    const replyTo = m.role === "assistant" ? m.metadata?.replyTo : undefined;
+    const parent = m.parentId ?? (replyTo && ids.has(replyTo) ? replyTo : previous);
+    parents.set(m.id, parent && ids.has(parent) ? parent : null);
+    previous = m.id;
+  }
+  return parents;
+}
+
+// The messages shown for the current branch selections, in time order
+export function activeThread<T extends BranchNode>(
+  messages: T[],
+  selections?: BranchSelections | null,
+): ThreadEntry<T>[] {
+  const parents = resolveParents(messages);
+  const groups = new Map<string, T[]>();
+  for (const m of [...messages].sort(byTime)) {
+    const key = branchKey(parents.get(m.id), m.role);
+    groups.set(key, [...(groups.get(key) || []), m]);
+  }
+
+  const shown: ThreadEntry<T>[] = [];
+  const visit = (parentId: string | null) => {
+    for (const [key, siblings] of groups) {
+      if (!key.startsWith(`${parentId || "root"}:`)) continue;
+      const selected = siblings.find((m) => m.id === selections?.[key]);
+      const message = selected || siblings[siblings.length - 1]!;
+      shown.push({ message, key, siblings, index: siblings.indexOf(message) });
+      visit(message.id);
+    }
+  };
+  visit(null);
+  return shown.sort((a, b) => byTime(a.message, b.message));
+}
+
+// The branch leading to a message: its ancestors, oldest first
+export function ancestorsOf<T extends BranchNode>(
+  messages: T[],
+  messageId: string,
+): T[] {
+  const parents = resolveParents(messages);
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  const chain: T[] = [];
+  const seen = new Set<string>([messageId]);
+  let parent = parents.get(messageId);
+  while (parent && !seen.has(parent)) {
+    seen.add(parent);
+    chain.unshift(byId.get(parent)!);
+    parent = parents.get(parent);
+  }
+  return chain;
+}
+
+// Show a different alternative (the arrows next to a branched message)
+export function selectBranch(
+  tx: Tx,
+  conversationId: string,
+  key: string,
+  messageId: string,
+): Chunk {
+  return tx.conversations[conversationId]!.merge({
+    branchSelections: { [key]: messageId },
+  });
+}
+
+// Answer a question again; the new reply becomes a sibling of the old one
+export function regenerateReply(
+  tx: Tx,
+  conversationId: string,
+  userMessageId: string,
+  replyId: string,
+): Chunk[] {
+  return [
+    ...retryMessage(tx, userMessageId, replyId),
+    // Show the newest reply once it arrives
+    tx.conversations[conversationId]!.merge({
+      branchSelections: { [branchKey(userMessageId, "assistant")]: null },
+    }),
+  ];
+}
+
+// Send an edited question as an alternative to the original. `parentId` is
+// the original's resolved parent (see resolveParents), null for the first.
+export function editAndResend(
+  tx: Tx,
+  original: Pick<Message, "id" | "conversationId">,
+  parentId: string | null,
+  newMessageId: string,
+  content: string,
+  extra: { userId?: string; model?: string } = {},
+): Chunk[] {
+  return [
+    tx.messages[original.id]!.update({ status: "replaced" }),
+    newUserMessage(tx, newMessageId, original.conversationId, content, {
+      ...extra,
+      parentId: parentId || original.conversationId,
+    }),
+    tx.conversations[original.conversationId]!.merge({
+      branchSelections: { [branchKey(parentId, "user")]: newMessageId },
+    }),
+  ];
+}
+
+// Start a new conversation from a message of this one. The host copies the
+// thread on screen up to that message into it (and answers the message in
+// the fork if it is a question).
+export function requestFork(
+  tx: Tx,
+  forkId: string,
+  source: Pick<Conversation, "id" | "title">,
+  atMessageId: string,
+  userId: string,
+): Chunk {
+  const now = Date.now();
+  return tx.conversations[forkId]!
+    .update({
+      title: source.title ? `${source.title} (fork)` : "Fork",
+      userId,
+      status: "active",
+      forkedFrom: source.id,
+      forkedAtMessageId: atMessageId,
+      forkStatus: "requested",
+      createdAt: now,
+      updatedAt: now,
+    })
+    .link({ parent: source.id });
+}
+
+// Whether a title is one the app made up rather than one somebody chose:
+// empty, App.tsx's "Conversation <date>", the start of a question
+// (conversations.tsx titles a conversation by its first message), or any of
+// these as a fork ("<title> (fork)", or "Fork"). The host only replaces these.
+export function isPlaceholderTitle(
+  title: string | null | undefined,
+  questions: string[] = [],
+): boolean {
+  const base = (title || "").replace(/( \(fork\))+$/, "").trim();
+  if (!base || base === "Fork" || /^Conversation \d/.test(base)) return true;
+  return questions.some((q) => q.trim().slice(0, 60).trim() === base);
+}
+
+export function newIssue(
+  tx: Tx,
+  issueId: string,
+  fields: {
+    title: string;
+    description?: string;
+    priority?: IssuePriority;
+    status?: IssueStatus;
+    context?: any;
+    conversationId?: string;
+    messageId?: string;
+  },
+): Chunk {
+  const now = Date.now();
+  let chunk = tx.issues[issueId]!.update({
+    status: "Todo",
+    ...fields,
+    createdAt: now,
+    updatedAt: now,
+  });
+  if (fields.conversationId) {
+    chunk = chunk.link({ conversation: fields.conversationId });
+  }
+  if (fields.messageId) {
+    chunk = chunk.link({ message: fields.messageId });
+  }
+  return chunk;
+}
+
+// The phone's answer to an agent tool-use request (see server/services/approvals.ts)
+export function decideApproval(
+  tx: Tx,
+  approvalId: string,
+  decision: "approved" | "denied",
+  decidedBy: string,
+  reason?: string,
+): Chunk {
+  return tx.approvals[approvalId]!.update({
+    status: decision,
+    decidedAt: Date.now(),
+    decidedBy,
+    ...(reason ? { reason } : {}),
+  });
+}
+
+// Ask the host to put the working tree back to a checkpoint; it refuses if
+// someone edited files after the last agent run
+export function requestRollback(tx: Tx, checkpointId: string): Chunk {
+  return tx.checkpoints[checkpointId]!.update({
+    status: "rollbackRequested",
+    rollbackRequestedAt: Date.now(),
+  });
+}
+
+// Give a conversation its own git worktree; the supervisor creates it and
+// agent runs in that conversation move into it
+export function requestWorktree(
+  tx: Tx,
+  worktreeId: string,
+  conversationId: string,
+  userId: string,
+): Chunk {
+  const now = Date.now();
+  return tx.worktrees[worktreeId]!
+    .update({
+      conversationId,
+      userId,
+      status: "requested",
+      createdAt: now,
+      updatedAt: now,
+    })
+    .link({ conversation: conversationId });
+}
+
+export function requestWorktreeAction(
+  tx: Tx,
+  worktreeId: string,
+  action: WorktreeAction,
+): Chunk {
+  return tx.worktrees[worktreeId]!.update({
+    action,
+    actionRequestedAt: Date.now(),
+  });
+}
+
+// An action was asked for that the supervisor hasn't carried out yet
+export function worktreeActionPending(
+  worktree: Pick<Worktree, "action" | "actionRequestedAt" | "actionHandledAt">,
+): boolean {
+  return (
+    Boolean(worktree.action) &&
+    (worktree.actionRequestedAt || 0) > (worktree.actionHandledAt || 0)
+  );
+}
+
+// An agent run may be editing the conversation's files: a reply is still
+// streaming or its checkpoint is still running. Merging, rebasing or
+// discarding the worktree then would change the files under it.
+export function agentRunInProgress(
+  messages: Pick<Message, "status">[],
+  checkpoints: Pick<Checkpoint, "status">[],
+): boolean {
+  return (
+    messages.some((m) => m.status === "streaming") ||
+    checkpoints.some((c) => c.status === "running")
+  );
+}
+
+// Rebuild streamed text from the deltas map written by the host's StreamWriter
+export function joinStreamDeltas(
+  deltas: Record<string, string> | null | undefined,
+): string {
+  if (!deltas) return "";
+  return Object.keys(deltas)
+    .sort()
+    .map((k) => deltas[k])
+    .join("");
+}
+
+// Best text to show for a message, whether it's finished or still streaming
+export function messageText(
+  message: Pick<
+    Message,
+    "content" | "finalContent" | "isStreaming" | "streamDeltas" | "streamChunks"
+  >,
+): string {
+  if (message.isStreaming && message.streamDeltas) {
+    return joinStreamDeltas(message.streamDeltas);
+  }
+  if (message.isStreaming && message.streamChunks) {
+    return message.streamChunks.join("");
+  }
+  return message.finalContent || message.content || "";
+}
+
+// Commands the phone may send to the supervisor (must match instant.perms.ts)
+export const SUPERVISOR_COMMANDS: SupervisorCommandName[] = [
+  "restart-handler",
+  "restart-bundler",
+  "reload-bundler",
+  "deps-mobile",
+];
+
+export function requestSupervisorCommand(
+  tx: Tx,
+  commandId: string,
+  command: SupervisorCommandName,
+  userId: string,
+): Chunk {
+  return tx.supervisorCommands[commandId]!.update({
+    command,
+    userId,
+    status: "pending",
+    requestedAt: Date.now(),
+  });
+}
@@ -0,0 +1,23 @@
+// lib/identity.ts
+// Who is allowed to do what, shared by instant.perms.ts and the host.
+//
+// The host (handler + supervisor) signs in as a dedicated service user so the
+// permission rules can tell its writes apart from the phone's. Operators are
+// the humans allowed to start agent runs; with no list configured, nobody is
+// (an agent run executes code on the host).
+//
+// Read the environment when called, not on import: scripts load .env with
+// dotenv after their imports have run.
+
+export function serviceEmail(): string {
+  return (
+    process.env.INSTANTDB_SERVICE_EMAIL || "host@service.organic-software.local"
+  );
+}
+
+export function operatorEmails(): string[] {
+  return (process.env.INSTANTDB_OPERATOR_EMAILS || "")
+    .split(",")
+    .map((e) => e.trim().toLowerCase())
+    .filter(Boolean);
+}
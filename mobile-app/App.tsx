@@ -14,35 +14,16 @@ import {
   useColorScheme,
 } from "react-native";
 import { useState, useEffect, useRef } from "react";
-import { init, tx, id } from "@instantdb/react-native";
-
-// InstantDB configuration
-const db = init({
-  appId:
-    process.env.EXPO_PUBLIC_INSTANTDB_APP_ID ||
-    "fb7ff756-0a99-4d0c-81f7-71a0abee071f",
-});
-
-// Define types matching the host application
-interface Conversation {
-  id: string;
-  userId: string;
-  title: string;
-  status: string;
-  claudeSessionId?: string;
-  createdAt?: number;
-  updatedAt?: number;
-}
-
-interface Message {
-  id: string;
-  conversationId: string;
-  role: "user" | "assistant" | "system";
-  content: string;
-  timestamp: number;
-  status?: "pending" | "processing" | "completed" | "error";
-  metadata?: Record<string, any>;
-}
+import { db, id, useUserId } from "./lib/instant";
+import {
+  newConversation,
+  newIssue,
+  newUserMessage,
+  type Conversation,
+  type Issue,
+  type IssuePriority,
+  type Message,
+} from "../lib/data-model";
 
 type ConversationState =
   | "idle"
@@ -53,15 +34,12 @@ type ConversationState =
 
 type Screen = "conversations" | "issues" | "hello";
 
-interface Issue {
-  title: string;
-  description: string;
-  priority: "High" | "Medium" | "Low";
-  status: "Todo" | "In Progress" | "Done";
-}
+// Built-in roadmap items shown alongside issues from the database
+type RoadmapIssue = Pick<Issue, "title" | "description" | "priority" | "status">;
 
 export default function App() {
   const colorScheme = useColorScheme();
+  const userId = useUserId();
   const [currentScreen, setCurrentScreen] = useState<Screen>("conversations");
   const [inputText, setInputText] = useState("");
   const [currentConversationId, setCurrentConversationId] = useState<
@@ -78,7 +56,7 @@ export default function App() {
   const lastMessageCount = useRef(0);
 
   // Issues data from the project
-  const issues: Issue[] = [
+  const issues: RoadmapIssue[] = [
     {
       title: "Expo Notifications",
       description:
@@ -124,15 +102,13 @@ export default function App() {
   // Query conversations, messages, and issues from InstantDB
   const { data, isLoading, error } = db.useQuery({
     conversations: {},
-    messages: currentConversationId
-      ? {
-          $: {
-            where: {
-              conversationId: currentConversationId,
-            },
-          },
-        }
-      : {},
+    messages: {
+      $: {
+        where: currentConversationId
+          ? { conversationId: currentConversationId }
+          : {},
+      },
+    },
     issues: {},
   });
 
@@ -221,35 +197,26 @@ export default function App() {
   };
 
   const createConversation = async () => {
-    const newConversation = {
-      id: id(),
-      userId: "mobile-user",
-      title: `Conversation ${new Date().toLocaleString()}`,
-      status: "active",
-      createdAt: Date.now(),
-      updatedAt: Date.now(),
-    };
-
+    if (!userId) return;
+    const conversationId = id();
     await db.transact([
-      tx.conversations[newConversation.id].update(newConversation),
+      newConversation(db.tx, conversationId, {
+        userId,
+        title: `Conversation ${new Date().toLocaleString()}`,
+      }),
     ]);
 
-    setCurrentConversationId(newConversation.id);
+    setCurrentConversationId(conversationId);
   };
 
   const sendMessage = async () => {
-    if (!inputText.trim() || !currentConversationId) return;
+    if (!inputText.trim() || !currentConversationId || !userId) return;
 
-    const newMessage = {
-      id: id(),
-      conversationId: currentConversationId,
-      role: "user" as const,
-      content: inputText.trim(),
-      timestamp: Date.now(),
-      status: "pending" as const,
-    };
-
-    await db.transact([tx.messages[newMessage.id].update(newMessage)]);
+    await db.transact([
+      newUserMessage(db.tx, id(), currentConversationId, inputText.trim(), {
+        userId,
+      }),
+    ]);
 
     setInputText("");
 
@@ -262,19 +229,16 @@ export default function App() {
   const createIssue = async (
     title: string,
     description: string,
-    priority: "High" | "Medium" | "Low" = "Medium",
+    priority: IssuePriority = "Medium",
   ) => {
-    const newIssue = {
-      id: id(),
-      title,
-      description,
-      priority,
-      status: "Todo" as const,
-      createdAt: Date.now(),
-      updatedAt: Date.now(),
-    };
-
-    await db.transact([tx.issues[newIssue.id].update(newIssue)]);
+    await db.transact([
+      newIssue(db.tx, id(), {
+        title,
+        description,
+        priority,
+        conversationId: currentConversationId || undefined,
+      }),
+    ]);
   };
 
   const getStatusIcon = (status?: string) => {
@@ -346,7 +310,15 @@ export default function App() {
       ]}
       onPress={() => setCurrentConversationId(item.id)}
     >
-      <Text style={styles.conversationTitle}>{item.title}</Text>
+      <Text style={styles.conversationTitle} numberOfLines={1}>
+        {item.forkedFrom ? "⑂ " : ""}
+        {item.title}
+      </Text>
+      {item.summary ? (
+        <Text style={styles.conversationSummary} numberOfLines={2}>
+          {item.summary}
+        </Text>
+      ) : null}
       <Text style={styles.conversationDate}>
         {item.createdAt ? new Date(item.createdAt).toLocaleDateString() : ""}
       </Text>
@@ -354,7 +326,7 @@ export default function App() {
     </TouchableOpacity>
   );
 
-  const getPriorityColor = (priority: string) => {
+  const getPriorityColor = (priority?: string) => {
     switch (priority) {
       case "High":
         return "#FF6B6B";
@@ -367,7 +339,7 @@ export default function App() {
     }
   };
 
-  const renderIssue = ({ item }: { item: Issue }) => (
+  const renderIssue = ({ item }: { item: RoadmapIssue }) => (
     <View style={styles.issueContainer}>
       <View style={styles.issueHeader}>
         <Text style={styles.issueTitle}>{item.title}</Text>
@@ -633,7 +605,7 @@ const getStyles = (scheme: "light" | "dark" | null | undefined) => {
       fontWeight: "600",
     },
     conversationsList: {
-      maxHeight: 80,
+      maxHeight: 110,
     },
     conversationItem: {
       backgroundColor: palette.surface,
@@ -641,6 +613,7 @@ const getStyles = (scheme: "light" | "dark" | null | undefined) => {
       marginRight: 10,
       borderRadius: 8,
       minWidth: 120,
+      maxWidth: 220,
       shadowColor: "#000",
       shadowOffset: { width: 0, height: 1 },
       shadowOpacity: isDark ? 0.3 : 0.1,
@@ -660,6 +633,11 @@ const getStyles = (scheme: "light" | "dark" | null | undefined) => {
       color: palette.textPrimary,
       fontSize: 12,
     },
+    conversationSummary: {
+      fontSize: 10,
+      color: palette.textSecondary,
+      marginTop: 4,
+    },
     conversationDate: {
       fontSize: 10,
       color: palette.textSecondary,
@@ -8,17 +8,10 @@ import {
   ActivityIndicator,
 } from "react-native";
 import { useRouter } from "expo-router";
-import { init } from "@instantdb/react-native";
+import { db } from "../../lib/instant";
 import * as Notifications from "expo-notifications";
 import useStyles from "../../lib/useStyles";
 
-// InstantDB configuration
-const db = init({
-  appId:
-    process.env.EXPO_PUBLIC_INSTANTDB_APP_ID ||
-    "fb7ff756-0a99-4d0c-81f7-71a0abee071f",
-});
-
 export default function HomePage() {
   const router = useRouter();
   const { styles, palette } = useStyles();
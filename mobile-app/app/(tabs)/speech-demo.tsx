@@ -14,12 +14,7 @@ import {
   RecognitionStopReason,
 } from "../../lib/enhanced-speech-recognition";
 import { useStyles } from "../../lib/useStyles";
-import { init, tx, id } from "../../lib/db.native";
-
-// Initialize InstantDB
-const db = init({
-  appId: process.env.EXPO_PUBLIC_INSTANTDB_APP_ID || "",
-});
+import { db, id, useUserId } from "../../lib/instant";
 
 // Timer Display Component
 function TimerDisplay({
@@ -158,6 +153,9 @@ export default function EnhancedSpeechDemo() {
 
   // Refs for tracking InstantDB IDs
   const transcriptionIdRef = useRef<string | null>(null);
+  // Read inside recognition callbacks, which may outlive a render
+  const userIdRef = useRef<string | undefined>(undefined);
+  userIdRef.current = useUserId();
   const segmentIdsRef = useRef<Map<string, string>>(new Map());
   const currentInterimSegmentIdRef = useRef<string | null>(null);
 
@@ -189,8 +187,9 @@ export default function EnhancedSpeechDemo() {
         segmentIdsRef.current.clear();
 
         await db.transact([
-          tx.transcriptions[transcriptionId].update({
+          db.tx.transcriptions[transcriptionId].update({
             title: `Recording ${new Date(startTime).toLocaleString()}`,
+            userId: userIdRef.current,
             startedAt: new Date(startTime).toISOString(),
             status: "recording",
             deviceId: sessionId, // Using sessionId as a unique identifier
@@ -219,7 +218,7 @@ export default function EnhancedSpeechDemo() {
           // If we have an interim segment, update it to final
           if (currentInterimSegmentIdRef.current) {
             await db.transact([
-              tx.segments[currentInterimSegmentIdRef.current].update({
+              db.tx.segments[currentInterimSegmentIdRef.current].update({
                 text: segment.text,
                 timestamp: segment.timestamp,
                 formattedTimestamp: segment.formattedTimestamp,
@@ -245,7 +244,7 @@ export default function EnhancedSpeechDemo() {
             segmentIdsRef.current.set(segment.id, segmentId);
 
             await db.transact([
-              tx.segments[segmentId].update({
+              db.tx.segments[segmentId].update({
                 text: segment.text,
                 timestamp: segment.timestamp,
                 formattedTimestamp: segment.formattedTimestamp,
@@ -255,7 +254,7 @@ export default function EnhancedSpeechDemo() {
                 createdAt: new Date().toISOString(),
                 updatedAt: new Date().toISOString(),
               }),
-              tx.segments[segmentId].link({
+              db.tx.segments[segmentId].link({
                 transcription: transcriptionIdRef.current,
               }),
             ]);
@@ -295,7 +294,7 @@ export default function EnhancedSpeechDemo() {
             const formattedTime = formatTime(currentTimestamp);
             
             await db.transact([
-              tx.segments[interimSegmentId].update({
+              db.tx.segments[interimSegmentId].update({
                 text: deltaText,
                 timestamp: currentTimestamp,
                 formattedTimestamp: formattedTime,
@@ -305,7 +304,7 @@ export default function EnhancedSpeechDemo() {
                 createdAt: new Date().toISOString(),
                 updatedAt: new Date().toISOString(),
               }),
-              tx.segments[interimSegmentId].link({
+              db.tx.segments[interimSegmentId].link({
                 transcription: transcriptionIdRef.current,
               }),
             ]);
@@ -317,7 +316,7 @@ export default function EnhancedSpeechDemo() {
           } else {
             // Update existing interim segment with new text
             await db.transact([
-              tx.segments[currentInterimSegmentIdRef.current].update({
+              db.tx.segments[currentInterimSegmentIdRef.current].update({
                 text: deltaText,
                 updatedAt: new Date().toISOString(),
               }),
@@ -350,7 +349,7 @@ export default function EnhancedSpeechDemo() {
       if (transcriptionIdRef.current) {
         try {
           await db.transact([
-            tx.transcriptions[transcriptionIdRef.current].update({
+            db.tx.transcriptions[transcriptionIdRef.current].update({
               endedAt: new Date().toISOString(),
               duration: sessionDuration,
               status: "completed",
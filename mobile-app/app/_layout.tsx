@@ -1,6 +1,23 @@
+import { ActivityIndicator, View } from "react-native";
 import { Stack } from "expo-router";
+import { db } from "../lib/instant";
+import LoginScreen from "./login";
 
+// Auth gate: nothing below the root renders until someone is signed in, so
+// every screen can rely on db.useAuth() returning a user
 export default function Layout() {
+  const { isLoading, user } = db.useAuth();
+
+  if (isLoading) {
+    return (
+      <View style={{ flex: 1, alignItems: "center", justifyContent: "center" }}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  if (!user) return <LoginScreen />;
+
   return (
     <Stack>
       <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
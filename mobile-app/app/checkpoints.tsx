@@ -0,0 +1,155 @@
+import { useMemo } from "react";
+import {
+  View,
+  Text,
+  FlatList,
+  SafeAreaView,
+  TouchableOpacity,
+  Alert,
+} from "react-native";
+import { useLocalSearchParams } from "expo-router";
+import useStyles from "../lib/useStyles";
+import { db } from "../lib/instant";
+import { requestRollback, type Checkpoint } from "../../lib/data-model";
+
+// Working-tree snapshots the host took before each agent run. Rolling back
+// is done by the host, which refuses if files were edited after the last run.
+export default function CheckpointsScreen() {
+  const { styles, palette } = useStyles();
+  const { conversationId } = useLocalSearchParams<{ conversationId?: string }>();
+  const { data, isLoading, error } = db.useQuery({
+    checkpoints: { $: { where: conversationId ? { conversationId } : {} } },
+  });
+  const checkpoints = data?.checkpoints || [];
+
+  const sorted = useMemo(
+    () => [...checkpoints].sort((a, b) => b.createdAt - a.createdAt),
+    [checkpoints],
+  );
+
+  const statusColor = (status: Checkpoint["status"]) => {
+    switch (status) {
+      case "rolledBack":
+        return palette.success;
+      case "refused":
+        return palette.error;
+      case "running":
+      case "rollbackRequested":
+        return palette.warning;
+      default:
+        return palette.textSecondary;
+    }
+  };
+
+  const confirmRollback = (checkpoint: Checkpoint) => {
+    Alert.alert(
+      "Roll back?",
+      `Put the project back to how it was before "${checkpoint.label || checkpoint.sha.slice(0, 8)}". Later agent changes are undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Roll back",
+          style: "destructive",
+          onPress: () => db.transact(requestRollback(db.tx, checkpoint.id)),
+        },
+      ],
+    );
+  };
+
+  const renderCheckpoint = ({ item }: { item: Checkpoint }) => {
+    const canRollBack = ["ready", "refused", "rolledBack"].includes(item.status);
+    return (
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardTitle} numberOfLines={2}>
+            {item.label || "Agent run"}
+          </Text>
+          <Text style={[{ fontSize: 12, fontWeight: "600", color: statusColor(item.status) }]}>
+            {item.status}
+          </Text>
+        </View>
+        <Text style={[{ fontSize: 12, color: palette.textTertiary, fontFamily: "monospace" }]}>
+          {item.sha.slice(0, 12)} · {new Date(item.createdAt).toLocaleString()}
+        </Text>
+        {item.reason ? (
+          <Text style={styles.cardDescription}>{item.reason}</Text>
+        ) : null}
+        {item.status === "rolledBack" && item.filesChanged !== undefined && (
+          <Text style={styles.cardDescription}>
+            {item.filesChanged} files restored
+          </Text>
+        )}
+        {canRollBack && (
+          <TouchableOpacity
+            style={[
+              {
+                alignSelf: "flex-end",
+                marginTop: 12,
+                paddingHorizontal: 12,
+                paddingVertical: 6,
+                borderRadius: 6,
+                borderWidth: 1,
+                borderColor: palette.error,
+              },
+            ]}
+            onPress={() => confirmRollback(item)}
+          >
+            <Text style={[{ color: palette.error, fontWeight: "600" }]}>
+              ⏪ Roll back
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading checkpoints…</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.errorText}>Error loading checkpoints</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={[styles.padding, styles.alignCenter, styles.marginBottom]}>
+        <Text style={styles.title}>📸 Checkpoints</Text>
+        <Text style={styles.subtitle}>Snapshots taken before each agent run</Text>
+      </View>
+
+      {sorted.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyStateIcon}>📸</Text>
+          <Text style={styles.emptyStateTitle}>No checkpoints yet</Text>
+          <Text style={styles.emptyStateText}>
+            One is taken every time the agent works on the project
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={sorted}
+          renderItem={renderCheckpoint}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={[
+            styles.paddingHorizontal,
+            { paddingBottom: 20 },
+          ]}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
@@ -19,12 +19,28 @@ import {
 import { useRouter, useLocalSearchParams } from "expo-router";
 import * as Notifications from "expo-notifications";
 import Constants from "expo-constants";
-import { init, id } from "@instantdb/react-native";
+import { db, id, useUserId } from "../lib/instant";
 import {
   useEnhancedSpeechRecognition,
   RecognitionState,
 } from "../lib/enhanced-speech-recognition";
+import { ApprovalCard } from "../lib/approval-card";
+import { WorktreeBar } from "../lib/worktree-bar";
+import { DiffSummary } from "../lib/diff-viewer";
+import { BranchSwitcher } from "../lib/branch-switcher";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  activeThread,
+  editAndResend,
+  messageText,
+  newConversation,
+  newUserMessage,
+  regenerateReply,
+  requestCancel,
+  requestFork,
+  resolveParents,
+  type Chunk,
+} from "../../lib/data-model";
 
 // Configure notification handler
 Notifications.setNotificationHandler({
@@ -37,27 +53,6 @@ Notifications.setNotificationHandler({
   }),
 });
 
-// InstantDB configuration
-const db = init({
-  appId:
-    process.env.EXPO_PUBLIC_INSTANTDB_APP_ID ||
-    "fb7ff756-0a99-4d0c-81f7-71a0abee071f",
-});
-
-// Define types
-interface Message {
-  id: string;
-  conversationId: string;
-  role: "user" | "assistant" | "system";
-  content: string;
-  timestamp: number;
-  status?: "pending" | "processing" | "completed" | "error" | "streaming";
-  metadata?: Record<string, any>;
-  isStreaming?: boolean;
-  streamChunks?: string[];
-  finalContent?: string;
-}
-
 type ConversationState =
   | "idle"
   | "sending"
@@ -111,6 +106,7 @@ async function registerForPushNotificationsAsync(): Promise<string | null> {
 export default function ConversationsScreen() {
   const router = useRouter();
   const { prefillText } = useLocalSearchParams();
+  const userId = useUserId();
   const [inputText, setInputText] = useState("");
   const [conversationState, setConversationState] =
     useState<ConversationState>("idle");
@@ -123,6 +119,10 @@ export default function ConversationsScreen() {
   const { height: screenHeight } = Dimensions.get('window');
   const maxInputHeight = Math.min(200, screenHeight * 0.3);
   const [showThoughts, setShowThoughts] = useState(false);
+  // Follow-up messages stay in one conversation so the host sees prior turns
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  // Question being edited; sending it adds a branch next to the original
+  const [editing, setEditing] = useState<{ id: string; parentId: string | null } | null>(null);
 
   // Enhanced speech recognition
   const {
@@ -146,9 +146,54 @@ export default function ConversationsScreen() {
     heartbeats: {},
   });
 
+  // Agent tool calls waiting for a yes/no in this conversation
+  const { data: approvals } = db.useQuery(
+    conversationId
+      ? {
+          approvals: {
+            $: { where: { conversationId, status: "pending" } },
+          },
+        }
+      : null
+  );
+
+  // Which alternative of each branched message is shown
+  const { data: conversations } = db.useQuery(
+    conversationId
+      ? { conversations: { $: { where: { id: conversationId } } } }
+      : null
+  );
+
   // Extract arrays from InstantDB response format
   const heartbeatsArray = heartbeats?.heartbeats || [];
-  const messagesArray = messages?.messages || [];
+  const messagesArray = (messages?.messages || []).filter(
+    (m: any) => conversationId && m.conversationId === conversationId
+  );
+  // File changes from agent turns, keyed by assistant message
+  const { data: diffs } = db.useQuery(
+    conversationId
+      ? { diffs: { $: { where: { conversationId } } } }
+      : null
+  );
+  const diffsByMessage = new Map(
+    (diffs?.diffs || []).map((diff) => [diff.messageId, diff])
+  );
+  const pendingApprovals = [...(approvals?.approvals || [])].sort(
+    (a, b) => a.createdAt - b.createdAt
+  );
+
+  // Restore the conversation we were in last time
+  useEffect(() => {
+    AsyncStorage.getItem('currentConversationId').then((stored) => {
+      if (stored) setConversationId(stored);
+    });
+  }, []);
+
+  const startNewConversation = async () => {
+    setConversationId(null);
+    setEditing(null);
+    await AsyncStorage.removeItem('currentConversationId');
+  };
 
   // Load trigger keywords from storage
   useEffect(() => {
@@ -202,11 +247,12 @@ export default function ConversationsScreen() {
   useEffect(() => {
     registerForPushNotificationsAsync().then(async (token) => {
       setPushToken(token);
-      if (token) {
+      if (token && userId) {
         try {
           const deviceDbId = id();
           await db.transact([
             db.tx.devices[deviceDbId].update({
+              userId,
               pushToken: token,
               deviceId: deviceDbId,
               platform: Platform.OS,
@@ -224,28 +270,51 @@ export default function ConversationsScreen() {
     if (prefillText && typeof prefillText === "string") {
       setInputText(prefillText);
     }
-  }, [prefillText]);
+  }, [prefillText, userId]);
 
   const sendMessage = async (messageText?: string) => {
     const textToSend = messageText || inputText.trim();
-    if (!textToSend) return;
+    if (!textToSend || !userId) return;
 
     setConversationState("sending");
 
     try {
       const messageId = id();
-      const conversationId = id();
-
-      await db.transact([
-        db.tx.messages[messageId].update({
-          conversationId,
-          role: "user",
-          content: textToSend,
-          timestamp: Date.now(),
-          status: "pending",
-        }),
-      ]);
+      const activeConversationId = conversationId || id();
+
+      const txs: Chunk[] = [];
+      if (!conversationId) {
+        txs.push(
+          newConversation(db.tx, activeConversationId, {
+            title: textToSend.slice(0, 60),
+            userId,
+          })
+        );
+        setConversationId(activeConversationId);
+        await AsyncStorage.setItem('currentConversationId', activeConversationId);
+      }
 
+      await db.transact(
+        editing && conversationId
+          ? editAndResend(
+              db.tx,
+              { id: editing.id, conversationId },
+              editing.parentId,
+              messageId,
+              textToSend,
+              { userId }
+            )
+          : [
+              ...txs,
+              newUserMessage(db.tx, messageId, activeConversationId, textToSend, {
+                userId,
+                // Continue the branch on screen
+                parentId: thread[thread.length - 1]?.message.id || activeConversationId,
+              }),
+            ]
+      );
+
+      setEditing(null);
       setInputText("");
       setConversationState("waiting_for_response");
       setTextInputHeight(56);
@@ -286,16 +355,77 @@ export default function ConversationsScreen() {
   }, [messagesArray]);
 
   // Render message content
-  const renderMessageContent = (message: any) => {
-    if (message.isStreaming && message.streamChunks) {
-      return message.streamChunks.join('');
+  const renderMessageContent = (message: any) => messageText(message);
+
+  // Ask the host to stop an answer it is still streaming
+  const stopStreaming = async (message: any) => {
+    try {
+      await db.transact(requestCancel(db.tx, message.id));
+    } catch (error) {
+      console.error("Error cancelling message:", error);
+      Alert.alert("Error", "Failed to stop the response");
     }
-    return message.finalContent || message.content;
   };
 
-  // Sort messages by timestamp
-  const sortedMessages = [...messagesArray]
-    .sort((a: any, b: any) => a.timestamp - b.timestamp);
+  // Answer the question again (Retry after a restart, Regenerate); the new
+  // reply is shown next to the old one
+  const regenerate = async (message: any) => {
+    const userMessageId = message.metadata?.replyTo || parents.get(message.id);
+    if (!userMessageId || !conversationId) return;
+    try {
+      await db.transact(
+        regenerateReply(db.tx, conversationId, userMessageId, message.id)
+      );
+      setConversationState("waiting_for_response");
+    } catch (error) {
+      console.error("Error retrying message:", error);
+      Alert.alert("Error", "Failed to retry message");
+    }
+  };
+
+  const startEditing = (message: any) => {
+    setEditing({ id: message.id, parentId: parents.get(message.id) ?? null });
+    setInputText(renderMessageContent(message));
+  };
+
+  const cancelEditing = () => {
+    setEditing(null);
+    setInputText("");
+  };
+
+  const openConversation = async (nextId: string) => {
+    setConversationId(nextId);
+    setEditing(null);
+    await AsyncStorage.setItem('currentConversationId', nextId);
+  };
+
+  // Carry on from this message in a new conversation; the host copies the
+  // thread up to here into it
+  const forkAt = async (message: any) => {
+    if (!conversationId || !userId) return;
+    try {
+      const forkId = id();
+      await db.transact(
+        requestFork(
+          db.tx,
+          forkId,
+          { id: conversationId, title: conversation?.title },
+          message.id,
+          userId
+        )
+      );
+      await openConversation(forkId);
+    } catch (error) {
+      console.error("Error forking conversation:", error);
+      Alert.alert("Error", "Failed to fork the conversation");
+    }
+  };
+
+  // Only the active branch is shown, in time order
+  const conversation = conversations?.conversations?.[0];
+  const parents = resolveParents(messagesArray);
+  const thread = activeThread(messagesArray, conversation?.branchSelections);
+  const busy = conversationState === "responding" || conversationState === "waiting_for_response";
 
   return (
     <SafeAreaView style={styles.container}>
@@ -308,7 +438,18 @@ export default function ConversationsScreen() {
           <TouchableOpacity onPress={() => router.back()} style={styles.menuButton}>
             <Text style={styles.menuIcon}>☰</Text>
           </TouchableOpacity>
-          <View style={styles.headerCenter} />
+          <View style={styles.headerCenter}>
+            {conversation?.title && (
+              <Text style={styles.headerTitle} numberOfLines={1}>
+                {conversation.title}
+              </Text>
+            )}
+            {conversationId && (
+              <TouchableOpacity onPress={startNewConversation}>
+                <Text style={styles.newConversationText}>New chat</Text>
+              </TouchableOpacity>
+            )}
+          </View>
           <TouchableOpacity onPress={() => router.push('/settings')} style={styles.settingsButton}>
             <Text style={styles.settingsIcon}>⚙</Text>
           </TouchableOpacity>
@@ -322,7 +463,22 @@ export default function ConversationsScreen() {
           keyboardShouldPersistTaps="handled"
           onContentSizeChange={() => scrollViewRef.current?.scrollToEnd({ animated: true })}
         >
-          {sortedMessages.map((message: any) => (
+          {conversation?.forkedFrom && (
+            <TouchableOpacity
+              style={styles.forkBanner}
+              onPress={() => openConversation(conversation.forkedFrom!)}
+            >
+              <Text style={styles.forkText}>
+                {conversation.forkStatus === "requested"
+                  ? "⑂ Copying the conversation…"
+                  : conversation.forkStatus === "failed"
+                    ? `⑂ Fork failed: ${conversation.forkError}`
+                    : "⑂ Forked — open the original"}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {thread.map(({ message, ...branch }: any) => (
             <View key={message.id}>
               {/* User Message */}
               {message.role === "user" && (
@@ -332,6 +488,19 @@ export default function ConversationsScreen() {
                       {renderMessageContent(message)}
                     </Text>
                   </View>
+                  <View style={styles.messageActions}>
+                    <BranchSwitcher conversationId={conversationId!} branch={branch} align="flex-end" />
+                    {!busy && !editing && (
+                      <TouchableOpacity onPress={() => startEditing(message)}>
+                        <Text style={styles.actionLink}>Edit</Text>
+                      </TouchableOpacity>
+                    )}
+                    {!busy && (
+                      <TouchableOpacity onPress={() => forkAt(message)}>
+                        <Text style={styles.actionLink}>⑂ Fork</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
                 </View>
               )}
 
@@ -355,6 +524,44 @@ export default function ConversationsScreen() {
                       <ActivityIndicator size="small" color="#666" style={styles.streamingIndicator} />
                     )}
                   </View>
+                  {message.isStreaming && (
+                    <TouchableOpacity
+                      style={styles.stopButton}
+                      disabled={Boolean(message.cancelRequestedAt)}
+                      onPress={() => stopStreaming(message)}
+                    >
+                      <Text style={styles.stopText}>
+                        {message.cancelRequestedAt ? "Stopping…" : "■ Stop"}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                  {message.status === "cancelled" && (
+                    <Text style={styles.messageTime}>Stopped</Text>
+                  )}
+                  {message.status === "interrupted" && (
+                    <View style={styles.interruptedRow}>
+                      <Text style={styles.interruptedText}>Interrupted — the host restarted</Text>
+                      <TouchableOpacity onPress={() => regenerate(message)}>
+                        <Text style={styles.retryText}>Retry</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                  <View style={styles.messageActions}>
+                    <BranchSwitcher conversationId={conversationId!} branch={branch} />
+                    {!busy && ["completed", "error", "cancelled"].includes(message.status) && (
+                      <TouchableOpacity onPress={() => regenerate(message)}>
+                        <Text style={styles.actionLink}>↻ Regenerate</Text>
+                      </TouchableOpacity>
+                    )}
+                    {!busy && !message.isStreaming && (
+                      <TouchableOpacity onPress={() => forkAt(message)}>
+                        <Text style={styles.actionLink}>⑂ Fork</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                  {diffsByMessage.has(message.id) && (
+                    <DiffSummary diff={diffsByMessage.get(message.id)!} />
+                  )}
                   {message.timestamp && !message.isStreaming && (
                     <Text style={styles.messageTime}>
                       {new Date(message.timestamp).toLocaleTimeString([], { 
@@ -369,7 +576,7 @@ export default function ConversationsScreen() {
           ))}
 
           {/* Empty state */}
-          {sortedMessages.length === 0 && !messagesLoading && (
+          {thread.length === 0 && !messagesLoading && !conversation?.forkedFrom && (
             <View style={styles.emptyState}>
               <Text style={styles.emptyStateText}>
                 Start a conversation by typing or speaking
@@ -378,8 +585,27 @@ export default function ConversationsScreen() {
           )}
         </ScrollView>
 
+        {/* Branch the agent works on in this conversation */}
+        {userId && conversationId && (
+          <WorktreeBar conversationId={conversationId} userId={userId} />
+        )}
+
+        {/* Pending tool approvals */}
+        {userId &&
+          pendingApprovals.map((approval) => (
+            <ApprovalCard key={approval.id} approval={approval} userId={userId} />
+          ))}
+
         {/* Input Area */}
         <View style={styles.inputContainer}>
+          {editing && (
+            <View style={styles.editingRow}>
+              <Text style={styles.editingText}>Editing — sends as a new branch</Text>
+              <TouchableOpacity onPress={cancelEditing}>
+                <Text style={styles.actionLink}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          )}
           <View style={styles.inputWrapper}>
             {/* Text Input */}
             <TextInput
@@ -460,6 +686,17 @@ const styles = StyleSheet.create({
   },
   headerCenter: {
     flex: 1,
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+  },
+  newConversationText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '500',
   },
   settingsButton: {
     padding: 8,
@@ -529,6 +766,61 @@ const styles = StyleSheet.create({
   streamingIndicator: {
     marginTop: 8,
   },
+  stopButton: {
+    alignSelf: 'flex-start',
+    marginTop: 4,
+    marginLeft: 16,
+  },
+  stopText: {
+    fontSize: 12,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  interruptedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+    marginLeft: 16,
+  },
+  interruptedText: {
+    fontSize: 12,
+    color: '#999',
+    marginRight: 12,
+  },
+  retryText: {
+    fontSize: 12,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  messageActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  actionLink: {
+    fontSize: 12,
+    color: '#007AFF',
+    fontWeight: '600',
+    marginTop: 4,
+    marginHorizontal: 16,
+  },
+  forkBanner: {
+    alignSelf: 'center',
+    marginBottom: 16,
+  },
+  forkText: {
+    fontSize: 12,
+    color: '#007AFF',
+  },
+  editingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  editingText: {
+    fontSize: 12,
+    color: '#999',
+  },
   messageTime: {
     fontSize: 12,
     color: '#999',
@@ -1,23 +1,8 @@
 import { useMemo } from "react";
 import { View, Text, FlatList, SafeAreaView } from "react-native";
-import { init } from "@instantdb/react-native";
 import useStyles from "../lib/useStyles";
-
-const db = init({
-  appId:
-    process.env.EXPO_PUBLIC_INSTANTDB_APP_ID ||
-    "fb7ff756-0a99-4d0c-81f7-71a0abee071f",
-});
-
-interface Issue {
-  id: string;
-  title: string;
-  description?: string;
-  priority?: "High" | "Medium" | "Low";
-  status: "Todo" | "In Progress" | "Done";
-  createdAt?: number;
-  updatedAt?: number;
-}
+import { db } from "../lib/instant";
+import type { Issue } from "../../lib/data-model";
 
 export default function IssuesScreen() {
   const { styles, palette } = useStyles();
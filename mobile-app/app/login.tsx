@@ -0,0 +1,133 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  SafeAreaView,
+  KeyboardAvoidingView,
+  ActivityIndicator,
+  Platform,
+} from "react-native";
+import useStyles from "../lib/useStyles";
+import { db } from "../lib/instant";
+
+// Magic-code sign-in: enter an email, then the 6-digit code InstantDB sends.
+// Rendered by the auth gate in _layout.tsx whenever nobody is signed in.
+export default function LoginScreen() {
+  const { styles, palette } = useStyles();
+  const [email, setEmail] = useState("");
+  const [code, setCode] = useState("");
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sendCode = async () => {
+    const address = email.trim().toLowerCase();
+    if (!address) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await db.auth.sendMagicCode({ email: address });
+      setSentTo(address);
+    } catch (err: any) {
+      setError(err?.body?.message || "Could not send the code");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const verifyCode = async () => {
+    if (!sentTo || !code.trim()) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await db.auth.signInWithMagicCode({ email: sentTo, code: code.trim() });
+    } catch (err: any) {
+      setError(err?.body?.message || "That code didn't work");
+      setCode("");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        style={[styles.keyboardAvoid, styles.justifyCenter, { padding: 24 }]}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <View style={[styles.alignCenter, styles.marginBottom]}>
+          <Text style={styles.title}>🌱 Organic Software</Text>
+          <Text style={styles.subtitle}>
+            {sentTo
+              ? `Enter the code sent to ${sentTo}`
+              : "Sign in with your email"}
+          </Text>
+        </View>
+
+        {sentTo ? (
+          <TextInput
+            style={styles.textInput}
+            placeholder="123456"
+            placeholderTextColor={palette.textTertiary}
+            value={code}
+            onChangeText={setCode}
+            keyboardType="number-pad"
+            autoFocus
+            onSubmitEditing={verifyCode}
+          />
+        ) : (
+          <TextInput
+            style={styles.textInput}
+            placeholder="you@example.com"
+            placeholderTextColor={palette.textTertiary}
+            value={email}
+            onChangeText={setEmail}
+            keyboardType="email-address"
+            autoCapitalize="none"
+            autoCorrect={false}
+            autoFocus
+            onSubmitEditing={sendCode}
+          />
+        )}
+
+        {error && (
+          <Text style={[styles.errorText, { marginTop: 12 }]}>{error}</Text>
+        )}
+
+        <TouchableOpacity
+          style={[
+            styles.button,
+            styles.buttonPrimary,
+            { marginTop: 16 },
+            busy && styles.buttonDisabled,
+          ]}
+          onPress={sentTo ? verifyCode : sendCode}
+          disabled={busy}
+        >
+          {busy ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>
+              {sentTo ? "Verify code" : "Send code"}
+            </Text>
+          )}
+        </TouchableOpacity>
+
+        {sentTo && (
+          <TouchableOpacity
+            style={[styles.alignCenter, { marginTop: 16 }]}
+            onPress={() => {
+              setSentTo(null);
+              setCode("");
+              setError(null);
+            }}
+          >
+            <Text style={{ color: palette.accent }}>Use a different email</Text>
+          </TouchableOpacity>
+        )}
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
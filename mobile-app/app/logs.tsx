@@ -1,12 +1,6 @@
 import { useMemo } from "react";
 import { View, Text, StyleSheet, FlatList } from "react-native";
-import { init } from "../lib/db";
-
-const db = init({
-  appId:
-    process.env.EXPO_PUBLIC_INSTANTDB_APP_ID ||
-    "fb7ff756-0a99-4d0c-81f7-71a0abee071f",
-});
+import { db } from "../lib/instant";
 
 export default function LogsScreen() {
   const { data, isLoading, error } = db.useQuery({ logs: {} });
@@ -15,19 +15,13 @@ import {
 import { useRouter } from "expo-router";
 // import { BlurView } from "expo-blur";
 // Using InstantDB instead of AsyncStorage
-import { init, id } from "@instantdb/react-native";
+import { db, id, useUserId } from "../lib/instant";
+import { newConversation, newUserMessage } from "../../lib/data-model";
 import {
   useEnhancedSpeechRecognition,
   RecognitionState,
 } from "../lib/enhanced-speech-recognition";
 
-// InstantDB configuration
-const db = init({
-  appId:
-    process.env.EXPO_PUBLIC_INSTANTDB_APP_ID ||
-    "fb7ff756-0a99-4d0c-81f7-71a0abee071f",
-});
-
 // Display modes
 enum DisplayMode {
   TRANSCRIPTION = "transcription",
@@ -125,6 +119,7 @@ interface UserSetting {
 export default function MinimalConversationScreen() {
   const router = useRouter();
   const navigation = useRouter();
+  const userId = useUserId();
   const { width: screenWidth, height: screenHeight } = Dimensions.get("window");
 
   // State
@@ -145,6 +140,8 @@ export default function MinimalConversationScreen() {
   // Refs
   const scrollViewRef = useRef<ScrollView>(null);
   const lastProcessedCommandRef = useRef<string>("");
+  // Conversation for this session, created on the first message
+  const conversationIdRef = useRef<string | null>(null);
 
   // Speech recognition with improved hook
   const {
@@ -219,6 +216,7 @@ export default function MinimalConversationScreen() {
 
       await db.transact([
         db.tx.userSettings[settingsId].update({
+          userId,
           textSize,
           lineSpacing,
           displayMode,
@@ -328,10 +326,12 @@ export default function MinimalConversationScreen() {
       .join(" ")
       .trim();
 
-    if (!fullTranscript) return;
+    if (!fullTranscript || !userId) return;
 
     const messageId = id();
-    const conversationId = "minimal-conversation"; // Use consistent conversation ID
+    const isNewConversation = !conversationIdRef.current;
+    const conversationId = conversationIdRef.current || id();
+    conversationIdRef.current = conversationId;
     const timestamp = Date.now();
 
     console.log(
@@ -351,12 +351,16 @@ export default function MinimalConversationScreen() {
     // Send to InstantDB for Claude processing
     try {
       await db.transact([
-        db.tx.messages[messageId].update({
-          conversationId,
-          role: "user",
-          content: fullTranscript,
-          timestamp,
-          status: "pending",
+        ...(isNewConversation
+          ? [
+              newConversation(db.tx, conversationId, {
+                title: fullTranscript.slice(0, 60),
+                userId,
+              }),
+            ]
+          : []),
+        newUserMessage(db.tx, messageId, conversationId, fullTranscript, {
+          userId,
         }),
       ]);
     } catch (error) {
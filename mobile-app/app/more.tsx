@@ -12,10 +12,13 @@ import { useRouter } from "expo-router";
 import useStyles from "../lib/useStyles";
 import * as Application from "expo-application";
 import * as Device from "expo-device";
+import { db } from "../lib/instant";
+import { SupervisorPanel } from "../lib/supervisor-panel";
 
 export default function MoreScreen() {
   const router = useRouter();
   const { styles, palette } = useStyles();
+  const { user } = db.useAuth();
 
   const menuItems = [
     {
@@ -38,6 +41,11 @@ export default function MoreScreen() {
       subtitle: "View and manage project issues",
       onPress: () => router.push("/issues"),
     },
+    {
+      title: "📸 Checkpoints",
+      subtitle: "Roll the project back to before an agent run",
+      onPress: () => router.push("/checkpoints"),
+    },
     {
       title: "📊 Logs",
       subtitle: "View system logs and debugging info",
@@ -65,6 +73,20 @@ export default function MoreScreen() {
         );
       },
     },
+    {
+      title: "🚪 Sign Out",
+      subtitle: user?.email ? `Signed in as ${user.email}` : "End this session",
+      onPress: () => {
+        Alert.alert("Sign out", "Sign out of this device?", [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Sign out",
+            style: "destructive",
+            onPress: () => db.auth.signOut(),
+          },
+        ]);
+      },
+    },
   ];
 
   const deviceInfo = [
@@ -114,6 +136,9 @@ export default function MoreScreen() {
           ))}
         </View>
 
+        {/* Supervisor commands */}
+        <SupervisorPanel />
+
         {/* Device Information */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Device Information</Text>
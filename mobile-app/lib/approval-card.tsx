@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet, Platform } from "react-native";
+import { db } from "./instant";
+import { decideApproval, type Approval } from "../../lib/data-model";
+
+// A tool call the agent is waiting on: what it wants to run, and Approve/Deny.
+// Unanswered requests are denied by the host when the countdown runs out.
+
+function formatRemaining(ms: number): string {
+  if (ms <= 0) return "expiring…";
+  const seconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0
+    ? `${minutes}:${String(seconds % 60).padStart(2, "0")} left`
+    : `${seconds}s left`;
+}
+
+export function ApprovalCard({
+  approval,
+  userId,
+}: {
+  approval: Approval;
+  userId: string;
+}) {
+  const [now, setNow] = useState(Date.now());
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const answer = async (decision: "approved" | "denied") => {
+    setSubmitting(true);
+    try {
+      await db.transact(decideApproval(db.tx, approval.id, decision, userId));
+    } catch (error) {
+      console.error("Failed to answer approval:", error);
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Run {approval.toolName}?</Text>
+        {approval.expiresAt ? (
+          <Text style={styles.countdown}>
+            {formatRemaining(approval.expiresAt - now)}
+          </Text>
+        ) : null}
+      </View>
+      <ScrollView style={styles.previewBox} nestedScrollEnabled>
+        <Text style={styles.preview}>{approval.preview}</Text>
+      </ScrollView>
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.button, styles.denyButton]}
+          disabled={submitting}
+          onPress={() => answer("denied")}
+        >
+          <Text style={styles.denyText}>Deny</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, styles.approveButton]}
+          disabled={submitting}
+          onPress={() => answer("approved")}
+        >
+          <Text style={styles.approveText}>Approve</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#F59E0B',
+    backgroundColor: '#FFFBEB',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  countdown: {
+    fontSize: 13,
+    color: '#B45309',
+  },
+  previewBox: {
+    maxHeight: 160,
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#1F2937',
+  },
+  preview: {
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 12,
+    color: '#F9FAFB',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 10,
+    gap: 8,
+  },
+  button: {
+    paddingVertical: 8,
+    paddingHorizontal: 18,
+    borderRadius: 8,
+  },
+  denyButton: {
+    backgroundColor: '#FEE2E2',
+  },
+  approveButton: {
+    backgroundColor: '#10B981',
+  },
+  denyText: {
+    color: '#B91C1C',
+    fontWeight: '600',
+  },
+  approveText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
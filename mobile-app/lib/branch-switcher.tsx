@@ -0,0 +1,61 @@
+import React from "react";
+import { View, Text, TouchableOpacity, StyleSheet } from "react-native";
+import { db } from "./instant";
+import { selectBranch, type ThreadEntry } from "../../lib/data-model";
+
+// "‹ 2/3 ›" under a message that has alternatives (edited questions,
+// regenerated replies); the arrows pick which one the conversation follows.
+
+export function BranchSwitcher({
+  conversationId,
+  branch,
+  align = "flex-start",
+}: {
+  conversationId: string;
+  branch: Pick<ThreadEntry<any>, "key" | "siblings" | "index">;
+  align?: "flex-start" | "flex-end";
+}) {
+  const { key, siblings, index } = branch;
+  if (siblings.length < 2) return null;
+
+  const show = (to: number) =>
+    db.transact(selectBranch(db.tx, conversationId, key, siblings[to].id));
+
+  return (
+    <View style={[styles.row, { alignSelf: align }]}>
+      <TouchableOpacity disabled={index === 0} onPress={() => show(index - 1)}>
+        <Text style={[styles.arrow, index === 0 && styles.disabled]}>‹</Text>
+      </TouchableOpacity>
+      <Text style={styles.count}>
+        {index + 1}/{siblings.length}
+      </Text>
+      <TouchableOpacity
+        disabled={index === siblings.length - 1}
+        onPress={() => show(index + 1)}
+      >
+        <Text style={[styles.arrow, index === siblings.length - 1 && styles.disabled]}>›</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 4,
+    marginHorizontal: 16,
+  },
+  arrow: {
+    fontSize: 18,
+    color: "#007AFF",
+    paddingHorizontal: 6,
+  },
+  disabled: {
+    color: "#CCC",
+  },
+  count: {
+    fontSize: 12,
+    color: "#999",
+  },
+});
@@ -0,0 +1,3 @@
+// Types for "./db": Metro picks db.native.ts or db.web.ts by platform, tsc
+// needs a single module. Both export the same client API.
+export { init, tx, id } from "@instantdb/react-native";
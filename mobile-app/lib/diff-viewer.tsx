@@ -0,0 +1,226 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Platform,
+  ActivityIndicator,
+} from "react-native";
+import { db } from "./instant";
+import type { Diff, DiffFile } from "../../lib/data-model";
+
+// What an agent turn changed: a one-line summary that expands into a file
+// list, and each file expands into its patch. Patches are fetched per file
+// on expand, so a big diff costs nothing until someone looks at it.
+
+const MAX_RENDERED_LINES = 1500;
+
+const STATUS_LABEL: Record<DiffFile["status"], string> = {
+  added: "A",
+  modified: "M",
+  deleted: "D",
+  renamed: "R",
+};
+
+function lineStyle(line: string) {
+  if (line.startsWith("@@")) return styles.hunkLine;
+  if (line.startsWith("+")) return styles.addedLine;
+  if (line.startsWith("-")) return styles.removedLine;
+  if (line.startsWith("\\")) return styles.noteLine;
+  return null;
+}
+
+function FilePatch({ diffId, fileIndex }: { diffId: string; fileIndex: number }) {
+  const { data, isLoading } = db.useQuery({
+    diffChunks: { $: { where: { diffId, fileIndex } } },
+  });
+
+  if (isLoading) {
+    return <ActivityIndicator size="small" color="#666" style={styles.loading} />;
+  }
+
+  const lines = [...(data?.diffChunks || [])]
+    .sort((a, b) => a.seq - b.seq)
+    .map((chunk) => chunk.text)
+    .join("\n")
+    .split("\n");
+  const shown = lines.slice(0, MAX_RENDERED_LINES);
+
+  return (
+    <ScrollView horizontal style={styles.patch}>
+      <View>
+        {shown.map((line, i) => (
+          <Text key={i} style={[styles.line, lineStyle(line)]}>
+            {line || " "}
+          </Text>
+        ))}
+        {lines.length > shown.length && (
+          <Text style={[styles.line, styles.noteLine]}>
+            … {lines.length - shown.length} more lines
+          </Text>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+function FileRow({
+  diffId,
+  fileIndex,
+  file,
+}: {
+  diffId: string;
+  fileIndex: number;
+  file: DiffFile;
+}) {
+  const [open, setOpen] = useState(false);
+  const canOpen = file.chunks > 0;
+
+  return (
+    <View style={styles.file}>
+      <TouchableOpacity
+        style={styles.fileHeader}
+        disabled={!canOpen}
+        onPress={() => setOpen(!open)}
+      >
+        <Text style={styles.toggle}>{canOpen ? (open ? "▾" : "▸") : " "}</Text>
+        <Text style={[styles.status, styles[`status_${file.status}`]]}>
+          {STATUS_LABEL[file.status]}
+        </Text>
+        <Text style={styles.path} numberOfLines={1} ellipsizeMode="head">
+          {file.oldPath ? `${file.oldPath} → ${file.path}` : file.path}
+        </Text>
+        {file.binary ? (
+          <Text style={styles.stat}>binary</Text>
+        ) : (
+          <Text style={styles.stat}>
+            <Text style={styles.added}>+{file.additions}</Text>{" "}
+            <Text style={styles.removed}>−{file.deletions}</Text>
+          </Text>
+        )}
+      </TouchableOpacity>
+      {open && <FilePatch diffId={diffId} fileIndex={fileIndex} />}
+      {open && file.truncated && (
+        <Text style={styles.truncated}>Patch too large; the rest was not stored.</Text>
+      )}
+    </View>
+  );
+}
+
+export function DiffSummary({ diff }: { diff: Diff }) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.summary} onPress={() => setOpen(!open)}>
+        <Text style={styles.summaryText}>
+          {open ? "▾" : "▸"} {diff.filesChanged}{" "}
+          {diff.filesChanged === 1 ? "file" : "files"} changed{"  "}
+          <Text style={styles.added}>+{diff.additions}</Text>{" "}
+          <Text style={styles.removed}>−{diff.deletions}</Text>
+        </Text>
+      </TouchableOpacity>
+      {open && (
+        <View>
+          {diff.files.map((file, fileIndex) => (
+            <FileRow
+              key={`${fileIndex}:${file.path}`}
+              diffId={diff.id}
+              fileIndex={fileIndex}
+              file={file}
+            />
+          ))}
+          {diff.truncated && (
+            <Text style={styles.truncated}>
+              {diff.filesChanged - diff.files.length} more files not shown
+            </Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const mono = Platform.OS === 'ios' ? 'Menlo' : 'monospace';
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 6,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#FAFAFA',
+    overflow: 'hidden',
+  },
+  summary: {
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  file: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderColor: '#E5E7EB',
+  },
+  fileHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    gap: 6,
+  },
+  toggle: {
+    width: 10,
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  status: {
+    fontFamily: mono,
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  status_added: { color: '#059669' },
+  status_modified: { color: '#D97706' },
+  status_deleted: { color: '#DC2626' },
+  status_renamed: { color: '#2563EB' },
+  path: {
+    flex: 1,
+    fontFamily: mono,
+    fontSize: 12,
+    color: '#111827',
+  },
+  stat: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  added: { color: '#059669' },
+  removed: { color: '#DC2626' },
+  patch: {
+    backgroundColor: '#FFFFFF',
+  },
+  line: {
+    fontFamily: mono,
+    fontSize: 11,
+    lineHeight: 16,
+    paddingHorizontal: 10,
+    color: '#1F2937',
+  },
+  addedLine: { backgroundColor: '#ECFDF5', color: '#065F46' },
+  removedLine: { backgroundColor: '#FEF2F2', color: '#991B1B' },
+  hunkLine: { backgroundColor: '#EFF6FF', color: '#1E40AF' },
+  noteLine: { color: '#6B7280', fontStyle: 'italic' },
+  truncated: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 12,
+    color: '#6B7280',
+    fontStyle: 'italic',
+  },
+  loading: {
+    margin: 8,
+  },
+});
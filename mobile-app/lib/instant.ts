@@ -0,0 +1,21 @@
+import { init, id } from "./db";
+import schema from "../../instant.schema";
+
+// One InstantDB client for the whole app, typed with the shared schema.
+// Auth state (magic-code sign-in) lives on this client, so screens should
+// import `db` from here rather than calling init() themselves.
+export const db = init({
+  appId:
+    process.env.EXPO_PUBLIC_INSTANTDB_APP_ID ||
+    "fb7ff756-0a99-4d0c-81f7-71a0abee071f",
+  schema,
+});
+
+export { id };
+
+// $users id of the signed-in user; every row the app writes is stamped with
+// it so instant.perms.ts can scope data per person
+export function useUserId(): string | undefined {
+  const { user } = db.useAuth();
+  return user?.id;
+}
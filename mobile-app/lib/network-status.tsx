@@ -0,0 +1,74 @@
+import React, { useState } from "react";
+import { View, Text, TouchableOpacity } from "react-native";
+import { db } from "./instant";
+import useStyles from "./useStyles";
+import type { NetworkDiagnostic } from "../../lib/data-model";
+
+// Latest network diagnosis per process: why the bundler (or handler) is
+// failing to reach the network and what the supervisor tried about it.
+
+const RECENT_MS = 60 * 60_000;
+
+const OUTCOME_ICON: Record<NonNullable<NetworkDiagnostic["outcome"]>, string> = {
+  clear: "🟢",
+  remediated: "🛠️",
+  unresolved: "🔴",
+};
+
+function DiagnosisCard({ diagnosis }: { diagnosis: NetworkDiagnostic }) {
+  const { styles, palette } = useStyles();
+  const [open, setOpen] = useState(false);
+  const icon = diagnosis.outcome ? OUTCOME_ICON[diagnosis.outcome] : "⏳";
+  const when = new Date(diagnosis.startedAt).toLocaleTimeString();
+
+  return (
+    <TouchableOpacity
+      style={[styles.card, { marginBottom: 12 }]}
+      onPress={() => setOpen(!open)}
+    >
+      <Text style={{ fontSize: 14, fontWeight: "600", color: palette.textPrimary }}>
+        {icon} {diagnosis.process} network · {when}
+      </Text>
+      <Text style={{ fontSize: 13, color: palette.textSecondary, marginTop: 4 }}>
+        {diagnosis.status === "running"
+          ? `Diagnosing "${diagnosis.trigger}"…`
+          : diagnosis.summary}
+      </Text>
+      {open && (
+        <View style={{ marginTop: 8 }}>
+          {(diagnosis.checks || []).map((check) => (
+            <Text key={check.detector} style={{ fontSize: 12, color: palette.textSecondary }}>
+              {check.ok ? "✓" : "✗"} {check.detector}: {check.detail}
+            </Text>
+          ))}
+          {(diagnosis.remediations || []).map((r, i) => (
+            <Text key={i} style={{ fontSize: 12, color: palette.textSecondary, marginTop: 4 }}>
+              🔧 {r.detector}: {r.verified ? "fixed" : r.ok ? "ran, problem remains" : "failed"}
+              {r.output ? ` (${r.output.split("\n").pop()})` : ""}
+            </Text>
+          ))}
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+export function NetworkStatus() {
+  const { data } = db.useQuery({ networkDiagnostics: {} });
+  const cutoff = Date.now() - RECENT_MS;
+  const latest = new Map<string, NetworkDiagnostic>();
+  for (const d of data?.networkDiagnostics || []) {
+    if (d.startedAt < cutoff) continue;
+    const current = latest.get(d.process);
+    if (!current || d.startedAt > current.startedAt) latest.set(d.process, d);
+  }
+  if (latest.size === 0) return null;
+
+  return (
+    <View>
+      {[...latest.values()].map((d) => (
+        <DiagnosisCard key={d.id} diagnosis={d} />
+      ))}
+    </View>
+  );
+}
@@ -0,0 +1,143 @@
+import React, { useState } from "react";
+import { View, Text, TouchableOpacity, Alert, Platform } from "react-native";
+import { db, id } from "./instant";
+import useStyles from "./useStyles";
+import { NetworkStatus } from "./network-status";
+import {
+  requestSupervisorCommand,
+  type SupervisorCommand,
+  type SupervisorCommandName,
+} from "../../lib/data-model";
+
+// Remote control for the host: queue a supervisor command and watch it run.
+// The supervisor picks up rows in `supervisorCommands` and writes back the
+// result (server/services/supervisor-commands.ts).
+
+const ACTIONS: {
+  command: SupervisorCommandName;
+  title: string;
+  subtitle: string;
+  confirm?: string; // Destructive actions ask first
+}[] = [
+  {
+    command: "reload-bundler",
+    title: "🔁 Reload app",
+    subtitle: "Ask the bundler to reload connected apps",
+  },
+  {
+    command: "restart-handler",
+    title: "🔄 Restart handler",
+    subtitle: "Stops any agent run in progress",
+    confirm: "The message handler restarts; an agent run in progress is cut off.",
+  },
+  {
+    command: "restart-bundler",
+    title: "📦 Restart bundler",
+    subtitle: "Restart the Expo dev server",
+    confirm: "The app loses its connection to the bundler until it is back.",
+  },
+  {
+    command: "deps-mobile",
+    title: "⬇️ Install mobile dependencies",
+    subtitle: "npm install in mobile-app, then restart the bundler",
+    confirm: "The bundler is stopped while npm install runs, which can take minutes.",
+  },
+];
+
+const STATUS_ICON: Record<SupervisorCommand["status"], string> = {
+  pending: "⏳",
+  running: "⚙️",
+  succeeded: "✅",
+  failed: "❌",
+  expired: "⌛",
+};
+
+function CommandRow({ command }: { command: SupervisorCommand }) {
+  const { palette } = useStyles();
+  const [open, setOpen] = useState(false);
+  const when = new Date(command.requestedAt).toLocaleTimeString();
+
+  return (
+    <TouchableOpacity
+      disabled={!command.output}
+      onPress={() => setOpen(!open)}
+      style={{ paddingVertical: 8, borderTopWidth: 1, borderTopColor: palette.border }}
+    >
+      <Text style={{ fontSize: 14, color: palette.textPrimary }}>
+        {STATUS_ICON[command.status]} {command.command}
+        <Text style={{ color: palette.textSecondary }}>
+          {"  "}
+          {when}
+          {command.exitCode !== undefined ? ` · exit ${command.exitCode}` : ""}
+        </Text>
+      </Text>
+      {command.output ? (
+        <Text
+          numberOfLines={open ? undefined : 2}
+          style={{
+            marginTop: 4,
+            fontSize: 11,
+            color: palette.textSecondary,
+            fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace",
+          }}
+        >
+          {command.output}
+        </Text>
+      ) : null}
+    </TouchableOpacity>
+  );
+}
+
+export function SupervisorPanel() {
+  const { styles, palette } = useStyles();
+  const { user } = db.useAuth();
+  const { data } = db.useQuery({ supervisorCommands: {} });
+
+  const recent = [...(data?.supervisorCommands || [])]
+    .sort((a, b) => b.requestedAt - a.requestedAt)
+    .slice(0, 5);
+  const busy = recent.some((c) => c.status === "pending" || c.status === "running");
+
+  const send = (action: (typeof ACTIONS)[number]) => {
+    if (!user) return;
+    const run = () =>
+      db.transact(requestSupervisorCommand(db.tx, id(), action.command, user.id));
+    if (!action.confirm) return run();
+    Alert.alert(action.title, action.confirm, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Run", style: "destructive", onPress: run },
+    ]);
+  };
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Host Control</Text>
+      <NetworkStatus />
+      {ACTIONS.map((action) => (
+        <TouchableOpacity
+          key={action.command}
+          disabled={busy}
+          style={[styles.card, { marginBottom: 12, opacity: busy ? 0.5 : 1 }]}
+          onPress={() => send(action)}
+        >
+          <Text style={{ fontSize: 16, fontWeight: "600", color: palette.textPrimary, marginBottom: 4 }}>
+            {action.title}
+          </Text>
+          <Text style={{ fontSize: 14, color: palette.textSecondary }}>
+            {action.subtitle}
+          </Text>
+        </TouchableOpacity>
+      ))}
+      {recent.length > 0 && (
+        <View style={styles.card}>
+          <Text style={{ fontSize: 14, fontWeight: "600", color: palette.textPrimary, marginBottom: 4 }}>
+            Recent commands
+          </Text>
+          {recent.map((command) => (
+            <CommandRow key={command.id} command={command} />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,159 @@
+import React from "react";
+import { View, Text, TouchableOpacity, StyleSheet, Alert } from "react-native";
+import { db, id } from "./instant";
+import {
+  agentRunInProgress,
+  requestWorktree,
+  requestWorktreeAction,
+  worktreeActionPending,
+  type Worktree,
+  type WorktreeAction,
+} from "../../lib/data-model";
+
+// Per-conversation git worktree: ask for one, then merge, rebase or discard
+// the agent's branch once the work is done. The supervisor does the git work.
+
+function formatBytes(bytes?: number): string {
+  if (!bytes) return "";
+  const mb = bytes / (1024 * 1024);
+  return mb >= 1024 ? `${(mb / 1024).toFixed(1)} GB` : `${Math.round(mb)} MB`;
+}
+
+export function WorktreeBar({
+  conversationId,
+  userId,
+}: {
+  conversationId: string;
+  userId: string;
+}) {
+  const { data } = db.useQuery({
+    worktrees: { $: { where: { conversationId } } },
+    messages: { $: { where: { conversationId, status: "streaming" } } },
+    checkpoints: { $: { where: { conversationId, status: "running" } } },
+  });
+  const worktrees = [...(data?.worktrees || [])].sort(
+    (a, b) => b.createdAt - a.createdAt
+  );
+  const current = worktrees.find((w) =>
+    ["requested", "active"].includes(w.status)
+  );
+  const latest = worktrees[0];
+
+  const create = () =>
+    db.transact(requestWorktree(db.tx, id(), conversationId, userId));
+
+  const act = (worktree: Worktree, action: WorktreeAction) => {
+    const run = () => db.transact(requestWorktreeAction(db.tx, worktree.id, action));
+    if (action !== "discard") return run();
+    Alert.alert("Discard branch?", `Delete ${worktree.branch} and everything on it.`, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Discard", style: "destructive", onPress: run },
+    ]);
+  };
+
+  if (!current) {
+    return (
+      <View style={styles.bar}>
+        <TouchableOpacity onPress={create}>
+          <Text style={styles.link}>🌿 Work on a separate branch</Text>
+        </TouchableOpacity>
+        {latest?.lastResult ? (
+          <Text style={styles.result} numberOfLines={2}>
+            {latest.lastResult}
+          </Text>
+        ) : null}
+      </View>
+    );
+  }
+
+  if (current.status === "requested") {
+    return (
+      <View style={styles.bar}>
+        <Text style={styles.branch}>🌿 Creating worktree…</Text>
+      </View>
+    );
+  }
+
+  // Not while the agent may still be editing files on the branch
+  const agentWorking = agentRunInProgress(
+    data?.messages || [],
+    data?.checkpoints || []
+  );
+  const pending = worktreeActionPending(current);
+  const busy = pending || agentWorking;
+  return (
+    <View style={styles.bar}>
+      <View style={styles.row}>
+        <Text style={styles.branch} numberOfLines={1}>
+          🌿 {current.branch}
+          {current.diskBytes ? ` · ${formatBytes(current.diskBytes)}` : ""}
+        </Text>
+        {(["merge", "rebase", "discard"] as const).map((action) => (
+          <TouchableOpacity
+            key={action}
+            style={[styles.button, busy && styles.buttonBusy]}
+            disabled={busy}
+            onPress={() => act(current, action)}
+          >
+            <Text
+              style={[styles.buttonText, action === "discard" && styles.discardText]}
+            >
+              {pending && current.action === action ? "…" : action[0]!.toUpperCase() + action.slice(1)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {agentWorking ? (
+        <Text style={styles.result}>Available once the agent has answered</Text>
+      ) : current.lastResult ? (
+        <Text style={styles.result} numberOfLines={2}>
+          {current.lastResult}
+        </Text>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+    paddingVertical: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  branch: {
+    flex: 1,
+    fontSize: 13,
+    color: '#374151',
+  },
+  link: {
+    fontSize: 13,
+    color: '#3B82F6',
+  },
+  button: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    backgroundColor: '#F3F4F6',
+  },
+  buttonBusy: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  discardText: {
+    color: '#B91C1C',
+  },
+  result: {
+    marginTop: 4,
+    fontSize: 12,
+    color: '#6B7280',
+  },
+});
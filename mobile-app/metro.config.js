@@ -1,9 +1,20 @@
+const path = require("path");
 const { getDefaultConfig } = require("expo/metro-config");
 
+const projectRoot = __dirname;
+const repoRoot = path.resolve(projectRoot, "..");
+
 /** @type {import('expo/metro-config').MetroConfig} */
-const config = getDefaultConfig(__dirname, {
+const config = getDefaultConfig(projectRoot, {
   // [Web-only]: Enables CSS support in Metro.
   isCSSEnabled: true,
 });
 
+// Shared code lives outside the app: instant.schema.ts and lib/ at the repo root
+config.watchFolders = [repoRoot];
+config.resolver.nodeModulesPaths = [
+  path.join(projectRoot, "node_modules"),
+  path.join(repoRoot, "node_modules"),
+];
+
 module.exports = config;
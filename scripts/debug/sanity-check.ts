@@ -1,7 +1,8 @@
 #!/usr/bin/env bun
 
-import { init, i, id } from "@instantdb/node";
+import { init, id } from "@instantdb/node";
 import process from "process";
+import schema from "../../instant.schema";
 
 // Set up environment variables
 process.env.NODE_TLS_REJECT_UNAUTHORIZED =
@@ -24,26 +25,6 @@ const APP_ID =
 
 async function main() {
   try {
-    const schema = i.schema({
-      entities: {
-        users: i.entity({
-          email: i.string(),
-          displayName: i.string(),
-          status: i.string(),
-        }),
-        conversations: i.entity({
-          userId: i.string(),
-          title: i.string(),
-          status: i.string(),
-        }),
-        messages: i.entity({
-          conversationId: i.string(),
-          role: i.string(),
-          content: i.string(),
-        }),
-      },
-    });
-
     // Load admin token from environment
     const adminToken =
       process.env.INSTANTDB_ADMIN_TOKEN ||
@@ -51,7 +32,7 @@ async function main() {
 
     const db = init({
       appId: APP_ID,
-      adminToken,
+      ...(adminToken ? { adminToken } : {}),
       schema,
       verbose: true,
     });
@@ -91,6 +72,8 @@ async function main() {
         conversationId: testConversationId,
         role: "system",
         content: "This is a sanity check test message",
+        timestamp: Date.now(),
+        status: "completed",
       }),
     ]);
 
@@ -0,0 +1,38 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Create (or fetch) the host's service user and print a refresh token for it.
+ *
+ *   npm run host-token
+ *
+ * Put the printed value in .env as INSTANTDB_HOST_TOKEN. The handler and
+ * supervisor sign in with it; instant.perms.ts recognises the service user by
+ * its email (INSTANTDB_SERVICE_EMAIL, see lib/identity.ts).
+ */
+
+import { init } from "@instantdb/admin";
+import { config } from "dotenv";
+import { serviceEmail } from "../../lib/identity";
+
+config();
+
+const APP_ID = process.env.INSTANTDB_APP_ID;
+const ADMIN_TOKEN = process.env.INSTANTDB_ADMIN_TOKEN;
+if (!APP_ID || !ADMIN_TOKEN) {
+  console.error("❌ INSTANTDB_APP_ID and INSTANTDB_ADMIN_TOKEN are required");
+  process.exit(1);
+}
+
+async function main() {
+  const db = init({ appId: APP_ID!, adminToken: ADMIN_TOKEN! });
+  const email = serviceEmail();
+  const token = await db.auth.createToken(email);
+  console.log(`🔐 Service user: ${email}`);
+  console.log("\nAdd this to .env:\n");
+  console.log(`INSTANTDB_HOST_TOKEN=${token}`);
+}
+
+main().catch((error) => {
+  console.error("❌ Could not create host token:", error);
+  process.exit(1);
+});
@@ -0,0 +1,104 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Schema migrations for InstantDB.
+ *
+ *   npm run migrate              # apply pending migrations
+ *   npm run migrate -- status    # show database vs code version
+ *   npm run migrate -- up --dry-run
+ *   npm run migrate -- up --to 2
+ *
+ * Push attribute changes in instant.schema.ts first (`npx instant-cli push`),
+ * then run this to backfill existing data and record the new version.
+ */
+
+import { init } from "@instantdb/node";
+import { config } from "dotenv";
+import schema from "../../instant.schema";
+import { migrations, SCHEMA_VERSION } from "../../server/migrations";
+import {
+  checkSchemaVersion,
+  readSchemaState,
+  runMigrations,
+} from "../../server/lib/migrations";
+
+config();
+
+const APP_ID = process.env.INSTANTDB_APP_ID;
+if (!APP_ID) {
+  console.error("❌ INSTANTDB_APP_ID is required");
+  process.exit(1);
+}
+
+const db = init({
+  appId: APP_ID,
+  schema,
+  ...(process.env.INSTANTDB_ADMIN_TOKEN
+    ? { adminToken: process.env.INSTANTDB_ADMIN_TOKEN }
+    : {}),
+});
+
+async function status() {
+  const state = await readSchemaState(db);
+  const current = state?.version ?? 0;
+  console.log(`📦 Database schema: v${current}`);
+  console.log(`🧩 Code expects:    v${SCHEMA_VERSION}`);
+  for (const m of migrations) {
+    const mark = m.version <= current ? "✅" : "⏳";
+    console.log(`   ${mark} ${m.version} ${m.name} — ${m.description}`);
+  }
+  if (state?.appliedAt) {
+    console.log(
+      `\nLast applied ${new Date(state.appliedAt).toISOString()} by ${
+        state.appliedBy || "unknown"
+      }`
+    );
+  }
+}
+
+async function up(args: string[]) {
+  const dryRun = args.includes("--dry-run");
+  const toIndex = args.indexOf("--to");
+  const to = toIndex >= 0 ? Number(args[toIndex + 1]) : undefined;
+  if (to !== undefined && !Number.isFinite(to)) {
+    throw new Error("--to needs a version number");
+  }
+
+  const result = await runMigrations(db, migrations, { dryRun, to });
+  if (result.applied.length === 0) {
+    console.log(`✅ Already at v${result.from}, nothing to apply`);
+    return;
+  }
+  console.log(
+    `\n✅ ${dryRun ? "Would migrate" : "Migrated"} v${result.from} → v${result.to}`
+  );
+
+  if (!dryRun) {
+    const check = await checkSchemaVersion(db, SCHEMA_VERSION);
+    if (!check.ok) console.warn(`⚠️ ${check.message}`);
+  }
+}
+
+async function main() {
+  const [command = "up", ...args] = process.argv.slice(2);
+  try {
+    switch (command) {
+      case "status":
+        await status();
+        break;
+      case "up":
+        await up(args);
+        break;
+      default:
+        console.log("Usage: npm run migrate -- [status|up] [--dry-run] [--to N]");
+        process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error("❌ Migration failed:", error);
+    process.exitCode = 1;
+  } finally {
+    db.shutdown();
+  }
+}
+
+main();
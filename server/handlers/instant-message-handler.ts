@@ -1,10 +1,43 @@
 #!/usr/bin/env tsx
 
-import { init, tx, id } from "@instantdb/node";
-// Comment out Claude Code for now
-// import { query } from "@anthropic-ai/claude-code";
+import { init, id } from "@instantdb/node";
 import { streamText } from "ai";
-import { litellm } from "./lib/litellm-provider";
+import { ModelRouter, streamWithFallback } from "../lib/model-router";
+import { DurableMessageQueue } from "../services/message-queue";
+import { LeaderElection } from "../services/leader-election";
+import { runAgentTurn } from "../services/claude-agent";
+import { ApprovalGate } from "../services/approvals";
+import { CheckpointService } from "../services/checkpoints";
+import { ConversationForkService } from "../services/conversation-forks";
+import { ConversationSummarizer } from "../services/conversation-summaries";
+import { resolveAgentCwd } from "../services/worktrees";
+import { DiffPublisher, type PublishedDiff } from "../services/diffs";
+import {
+  checkBundleForErrors,
+  errorSignature,
+  repairDecision,
+} from "../lib/bundle-check";
+import { StreamWriter } from "../lib/stream-writer";
+import {
+  abortable,
+  InFlightTurns,
+  type InFlightTurn,
+} from "../lib/in-flight-turns";
+import { checkSchemaVersion } from "../lib/migrations";
+import { SCHEMA_VERSION } from "../migrations";
+import { signInAsHost } from "../lib/host-auth";
+import { pushSnippet, sendPushToUser } from "../lib/push";
+import {
+  buildConversationContext,
+  type HistoryMessage,
+} from "../lib/conversation-context";
+import schema from "../../instant.schema";
+import {
+  ancestorsOf,
+  newAssistantMessage,
+  type Conversation,
+  type Message,
+} from "../../lib/data-model";
 import process from "process";
 import fs from "fs";
 import path from "path";
@@ -31,43 +64,14 @@ console.log("🌍 Environment:", {
   platform: process.platform,
 });
 
-// Initialize the database with just the app ID
+// Initialize the database with the shared schema (typed db.tx / queries)
 const db = init({
   appId: APP_ID,
+  schema,
 });
 
 console.log("✅ InstantDB initialized");
 
-// Define database schema types
-interface Message {
-  id: string;
-  conversationId: string;
-  role: "user" | "assistant" | "system";
-  content: string;
-  timestamp?: number;
-  status?:
-    | "pending"
-    | "processing"
-    | "completed"
-    | "error"
-    | "replaced"
-    | "streaming";
-  metadata?: any;
-  isStreaming?: boolean;
-  streamChunks?: string[];
-  finalContent?: string;
-}
-
-interface Conversation {
-  id: string;
-  userId: string;
-  title: string;
-  status: string;
-  claudeSessionId?: string; // Claude SDK session ID for resume
-  createdAt?: number;
-  updatedAt?: number;
-}
-
 // Heartbeat entries for liveness monitoring between host and mobile
 interface Heartbeat {
   id: string; // e.g., 'host' | 'mobile'
@@ -76,20 +80,6 @@ interface Heartbeat {
   note?: string;
 }
 
-// Basic Issue structure to align with mobile app queries
-interface Issue {
-  id: string;
-  title: string;
-  description?: string;
-  priority?: "High" | "Medium" | "Low";
-  status?: "Todo" | "In Progress" | "Done";
-  createdAt?: number;
-  updatedAt?: number;
-  context?: any;
-  conversationId?: string;
-  messageId?: string;
-}
-
 interface QueuedMessage {
   message: Message;
   addedAt: number;
@@ -102,11 +92,14 @@ interface Error {
   content: string;
   source: string;
   timestamp: number;
-  status: "pending" | "processing" | "completed" | "failed";
+  status: "pending" | "processing" | "completed" | "failed" | "skipped";
+  signature?: string;
   metadata?: any;
   resolution?: string;
   resolvedAt?: number;
   errorMessage?: string;
+  claimedBy?: string;
+  claimToken?: string;
 }
 
 interface QueuedError {
@@ -118,7 +111,35 @@ class AIMessageHandler {
   private processedMessageIds = new Set<string>();
   private isListening = false;
   private unsubscribeFn: (() => void) | null = null;
-  private startupTime = Date.now();
+  private unsubscribeErrorsFn: (() => void) | null = null;
+
+  // Persistent queue state lives on the messages themselves
+  private queue = new DurableMessageQueue(db, {
+    leaseMs: Number(process.env.HANDLER_LEASE_MS) || 60_000,
+    maxAttempts: Number(process.env.HANDLER_MAX_ATTEMPTS) || 3,
+    fencingToken: () => this.election?.token,
+    onLeaseLost: (messageId) => this.abandonTurn(messageId),
+  });
+  // Only the leader answers messages; other instances stand by and take
+  // over when its lease lapses (HANDLER_LEADER_ELECTION=0 to skip)
+  private election =
+    process.env.HANDLER_LEADER_ELECTION === "0"
+      ? null
+      : new LeaderElection(db, "message-handler", {
+          leaseMs: Number(process.env.HANDLER_LEADER_LEASE_MS) || 15_000,
+          onElected: () => this.lead(),
+          onDeposed: (reason) => this.standBy(reason),
+          log: (kind, message, meta) => this.log(kind, message, meta),
+        });
+  private recoveryInterval: NodeJS.Timeout | null = null;
+  // Turns being streamed right now, so shutdown can drain or checkpoint them
+  private inFlight = new InFlightTurns();
+  private shuttingDown = false;
+
+  // Claim new work only while leading and not shutting down
+  private get acceptingWork(): boolean {
+    return !this.shuttingDown && (this.election?.isLeader ?? true);
+  }
 
   // Queue management
   private messageQueue: QueuedMessage[] = [];
@@ -126,46 +147,74 @@ class AIMessageHandler {
   private isProcessing = false;
   private isProcessingErrors = false;
   private conversationsInProgress = new Set<string>();
+  // Agent runs until they have settled, cancelled ones included
+  private agentRuns = new Map<string, Promise<void>>();
   private processedErrorIds = new Set<string>();
 
   // Session tracking
   private conversationSessions = new Map<string, string>(); // conversationId -> sessionId
+  private modelRouter = ModelRouter.fromConfigFile();
+  // Titles and rolling summaries after each reply (HANDLER_SUMMARIES=0 to skip)
+  private summarizer =
+    process.env.HANDLER_SUMMARIES === "0"
+      ? null
+      : new ConversationSummarizer(db, this.modelRouter, {
+          every: Number(process.env.HANDLER_SUMMARY_EVERY) || 10,
+          active: () => this.acceptingWork,
+        });
 
   // Configuration
   private enableConcurrentConversations = true; // Enable concurrent processing by default
+  private defaultMode: "chat" | "agent" =
+    process.env.HANDLER_MODE === "agent" ? "agent" : "chat";
+  private agentCwd = process.env.AGENT_CWD || process.cwd();
+  // Snapshot the working tree before each agent run (HANDLER_CHECKPOINTS=0 to skip)
+  private checkpoints =
+    process.env.HANDLER_CHECKPOINTS === "0"
+      ? null
+      : new CheckpointService(db, this.agentCwd);
+  // Copy threads into conversations forked from the phone
+  private forks = new ConversationForkService(db);
+  // Publish what each agent turn changed (HANDLER_DIFFS=0 to skip)
+  private diffs =
+    process.env.HANDLER_DIFFS === "0" ? null : new DiffPublisher(db);
+  // Agent tool use waits for a yes/no from the phone (HANDLER_APPROVALS=0 to skip)
+  private approvalGate =
+    process.env.HANDLER_APPROVALS === "0"
+      ? null
+      : new ApprovalGate(db, {
+          defaultTimeoutMs:
+            Number(process.env.HANDLER_APPROVAL_TIMEOUT_MS) || 5 * 60_000,
+          autoAllow: (process.env.HANDLER_AUTO_ALLOW_TOOLS || "")
+            .split(",")
+            .map((t) => t.trim())
+            .filter(Boolean),
+        });
+  // Repairs have no conversation to ask for approvals in, so they only run
+  // when agent tool use doesn't need them
+  private enableAutoRepair =
+    process.env.HANDLER_AUTO_REPAIR !== "0" && !this.approvalGate;
   private heartbeatInterval: NodeJS.Timeout | null = null;
   private hostHeartbeatId: string | null = null;
   private llmPreamble: string | null = null;
 
-  // Send Expo push notifications to all known devices with a preview
+  // Send Expo push notifications with a preview to the owner's devices
+  // (none when the conversation has no owner yet)
   private async sendExpoPushNotifications(
     conversationId: string,
-    fullResponse: string
+    fullResponse: string,
+    userId?: string
   ): Promise<void> {
-    try {
-      const res = await db.queryOnce({ devices: {} as any });
-      const devices: any[] = (res.data?.devices || []).filter(
-        (d: any) => typeof d?.pushToken === "string"
+    const snippet = pushSnippet(fullResponse);
+    const count = await sendPushToUser(db, userId, {
+      title: "AI responded",
+      body: snippet.length ? snippet : "Response ready",
+      data: { conversationId, preview: snippet },
+    });
+    if (count > 0) {
+      this.log("push", "expo push sent", { count, conversationId }).catch(
+        () => {}
       );
-      if (devices.length === 0) return;
-      const snippet = (fullResponse || "").replace(/\s+/g, " ").slice(0, 140);
-      const payload = devices.map((d: any) => ({
-        to: d.pushToken,
-        title: "AI responded",
-        body: snippet.length ? snippet : "Response ready",
-        data: { conversationId, preview: snippet },
-      }));
-      await fetch("https://exp.host/--/api/v2/push/send", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-      } as any);
-      this.log("push", "expo push sent", {
-        count: devices.length,
-        conversationId,
-      }).catch(() => {});
-    } catch (err) {
-      console.warn("⚠️ Failed to send Expo push:", err);
     }
   }
 
@@ -175,22 +224,30 @@ class AIMessageHandler {
     updates: Partial<Message>
   ): Promise<void> {
     try {
-      const txMessages = tx.messages;
-      if (txMessages && txMessages[messageId]) {
-        await db.transact([txMessages[messageId].update(updates)]);
-      }
+      await db.transact([db.tx.messages[messageId]!.update(updates)]);
     } catch (error) {
       console.warn(`⚠️ Could not update message ${messageId}:`, error);
     }
   }
 
+  // Helper: deep-merge into a message so only the new keys go over the wire
+  private async mergeMessage(
+    messageId: string,
+    updates: Record<string, any>
+  ): Promise<void> {
+    try {
+      await db.transact([db.tx.messages[messageId]!.merge(updates)]);
+    } catch (error) {
+      console.warn(`⚠️ Could not merge into message ${messageId}:`, error);
+    }
+  }
+
   // Helper: structured log to InstantDB (best-effort)
   private async log(kind: string, message: string, meta?: any): Promise<void> {
     try {
       const logId = id();
       await db.transact([
-        (tx as any).logs[logId].update({
-          id: logId,
+        db.tx.logs[logId]!.update({
           kind,
           message,
           meta: meta || {},
@@ -206,10 +263,7 @@ class AIMessageHandler {
     updates: Partial<Conversation>
   ): Promise<void> {
     try {
-      const txConversations = tx.conversations;
-      if (txConversations && txConversations[conversationId]) {
-        await db.transact([txConversations[conversationId].update(updates)]);
-      }
+      await db.transact([db.tx.conversations[conversationId]!.update(updates)]);
     } catch (error) {
       console.warn(
         `⚠️ Could not update conversation ${conversationId}:`,
@@ -218,6 +272,55 @@ class AIMessageHandler {
     }
   }
 
+  private async getConversation(
+    conversationId: string
+  ): Promise<Conversation | null> {
+    try {
+      const res = await db.queryOnce({
+        conversations: { $: { where: { id: conversationId } } },
+      });
+      return res.data.conversations[0] || null;
+    } catch (error) {
+      console.warn(`⚠️ Could not load conversation ${conversationId}:`, error);
+      return null;
+    }
+  }
+
+  // All stored messages of a conversation, used to build multi-turn context
+  private async loadHistory(conversationId: string): Promise<HistoryMessage[]> {
+    try {
+      const res = await db.queryOnce({
+        messages: { $: { where: { conversationId } } },
+      });
+      return res.data.messages;
+    } catch (error) {
+      console.warn(`⚠️ Could not load history for ${conversationId}:`, error);
+      return [];
+    }
+  }
+
+  // Claude Code session to resume for a message. Session IDs are transitive,
+  // so the one returned for the last reply on the message's branch carries
+  // exactly that branch. Replies from before sessions were stored per message
+  // fall back to the latest for the conversation: in-memory cache first
+  // (always newest for this process), then whatever was persisted.
+  private resolveSessionId(
+    conversationId: string,
+    conversation: Conversation | null,
+    branch: HistoryMessage[]
+  ): string | undefined {
+    if (branch.length === 0) return undefined;
+    const sessions = branch
+      .map((m) => (m as Message).metadata?.claudeSessionId as string | undefined)
+      .filter(Boolean);
+    if (sessions.length) return sessions[sessions.length - 1];
+    return (
+      this.conversationSessions.get(conversationId) ||
+      conversation?.claudeSessionId ||
+      undefined
+    );
+  }
+
   // Helper: write host heartbeat regularly so the mobile client can reflect status
   startHostHeartbeat(intervalMs: number = 10000) {
     const ensureIdAndWrite = async () => {
@@ -235,8 +338,7 @@ class AIMessageHandler {
           }
         }
         await db.transact([
-          (tx as any).heartbeats[this.hostHeartbeatId].update({
-            id: this.hostHeartbeatId,
+          db.tx.heartbeats[this.hostHeartbeatId]!.update({
             kind: "host",
             lastSeenAt: Date.now(),
           }),
@@ -286,16 +388,20 @@ Be concise, helpful, and friendly in your responses.
       return;
     }
 
+    // Left pending for the leader, or whichever handler starts next
+    if (!this.acceptingWork) {
+      return;
+    }
+
     // Only process user messages (not assistant or system messages)
     if (message.role !== "user") {
       this.processedMessageIds.add(message.id);
       return;
     }
 
-    // Only process messages created after server startup
-    if (message.timestamp && message.timestamp < this.startupTime) {
-      this.processedMessageIds.add(message.id);
-      console.log(`⏭️ Skipping old message from before startup: ${message.id}`);
+    // Only pending messages are waiting for work; anything else is either done
+    // or held by a live worker (expired leases are handled by recoverMessages)
+    if (message.status !== "pending") {
       return;
     }
 
@@ -313,11 +419,6 @@ Be concise, helpful, and friendly in your responses.
       addedAt: Date.now(),
     });
 
-    // Only update status if it's not already set
-    if (!message.status || message.status !== "pending") {
-      await this.updateMessage(message.id, { status: "pending" });
-    }
-
     // Process queue if not already processing
     if (!this.isProcessing) {
       this.processQueue();
@@ -331,7 +432,7 @@ Be concise, helpful, and friendly in your responses.
 
     this.isProcessing = true;
 
-    while (this.messageQueue.length > 0) {
+    while (this.messageQueue.length > 0 && this.acceptingWork) {
       // Sort queue by timestamp (FIFO within each conversation)
       this.messageQueue.sort((a, b) => a.addedAt - b.addedAt);
 
@@ -353,6 +454,13 @@ Be concise, helpful, and friendly in your responses.
 
       const message = queuedMessage.message;
 
+      // Take the lease before doing any work; another worker may have won it
+      const claimed = await this.queue.claim(message.id);
+      if (!claimed) {
+        console.log(`⏭️ Message ${message.id} claimed elsewhere, skipping`);
+        continue;
+      }
+
       // Mark conversation as in progress
       this.conversationsInProgress.add(message.conversationId);
 
@@ -370,7 +478,7 @@ Be concise, helpful, and friendly in your responses.
         console.error("❌ Error processing message:", error);
       } finally {
         // Mark conversation as no longer in progress
-        this.conversationsInProgress.delete(message.conversationId);
+        this.releaseConversation(message.conversationId);
       }
     }
 
@@ -394,21 +502,22 @@ Be concise, helpful, and friendly in your responses.
       messageId: message.id,
     }).catch(() => {});
 
-    // Update message status to processing
-    await this.updateMessage(message.id, { status: "processing" });
-
+    let tracked: InFlightTurn | null = null;
     try {
-      // Create assistant message for streaming response
+      const conversation = await this.getConversation(message.conversationId);
+
+      // Create assistant message for streaming response, owned by the
+      // conversation's user so the perms rules let them see it
       const assistantMessageId = id();
-      await this.updateMessage(assistantMessageId, {
-        conversationId: message.conversationId,
-        role: "assistant",
-        content: "",
-        timestamp: Date.now(),
-        status: "streaming",
-        isStreaming: true,
-        streamChunks: [],
-      });
+      await db.transact([
+        newAssistantMessage(
+          db.tx,
+          assistantMessageId,
+          message.conversationId,
+          conversation?.userId || message.userId,
+          message.id
+        ),
+      ]);
 
       console.log("🤖 Sending to AI with streaming...");
       this.log("handler", "sending to AI", {
@@ -417,46 +526,206 @@ Be concise, helpful, and friendly in your responses.
       }).catch(() => {});
 
       const startTime = Date.now();
-      let fullResponse = "";
-      const chunks: string[] = [];
-
-      // Use AI SDK with streaming
-      const { textStream } = await streamText({
-        model: litellm("claude-3-7-sonnet"),
-        system: this.loadPreamble(),
-        prompt: message.content,
-        // maxTokens: 2000, // removed to fix type error
-        temperature: 0.7,
-      });
+      const metadata: Record<string, any> = {};
+
+      // Coalesce chunks into batched delta writes instead of one per token
+      const writer = new StreamWriter(
+        (payload, kind) =>
+          kind === "delta"
+            ? this.mergeMessage(assistantMessageId, payload)
+            : this.updateMessage(assistantMessageId, payload),
+        {
+          intervalMs: Number(process.env.HANDLER_STREAM_FLUSH_MS) || 250,
+          maxBytes: Number(process.env.HANDLER_STREAM_FLUSH_BYTES) || 2048,
+        }
+      );
 
-      // Stream chunks to InstantDB in real-time
-      for await (const chunk of textStream) {
-        fullResponse += chunk;
-        chunks.push(chunk);
+      tracked = this.inFlight.track({
+        messageId: message.id,
+        assistantMessageId,
+        conversationId: message.conversationId,
+        writer,
+      });
+      const active = tracked;
 
-        // Update message with new chunk
-        await this.updateMessage(assistantMessageId, {
-          streamChunks: chunks,
-          content: fullResponse,
-          isStreaming: true,
-        });
+      const onText = async (chunk: string) => {
+        // Shutdown already wrote the partial text as final
+        if (active.interrupted) return;
+        await writer.push(chunk);
 
         // Log streaming progress periodically
-        if (chunks.length % 10 === 0) {
-          console.log(`   Streaming... ${fullResponse.length} chars`);
+        if (writer.metrics().chunks % 10 === 0) {
+          console.log(`   Streaming... ${writer.text.length} chars`);
         }
+      };
+
+      const mode = conversation?.mode || this.defaultMode;
+
+      if (mode === "agent") {
+        // Run a real Claude Code turn in the project, resuming the session
+        // of this branch so the agent keeps its context across phone messages
+        const resumeSessionId = this.resolveSessionId(
+          message.conversationId,
+          conversation,
+          ancestorsOf(await this.loadHistory(message.conversationId), message.id)
+        );
+        const approvals = { requested: 0, denied: 0 };
+        const gate = this.approvalGate?.forConversation({
+          conversationId: message.conversationId,
+          messageId: message.id,
+          userId: conversation?.userId || message.userId,
+          timeoutMs: conversation?.approvalTimeoutMs,
+        });
+        // Conversations with their own worktree run there, not in AGENT_CWD
+        const { cwd, worktreeId } = await resolveAgentCwd(
+          db,
+          message.conversationId,
+          this.agentCwd
+        );
+        const diffBase = await this.diffs?.baseline(cwd);
+        let diff = null as PublishedDiff | null;
+        const checkpointId = await this.checkpoints?.begin({
+          cwd,
+          conversationId: message.conversationId,
+          messageId: message.id,
+          userId: conversation?.userId || message.userId,
+          label: message.content,
+        });
+        const run = runAgentTurn({
+          prompt: message.content,
+          cwd,
+          resumeSessionId,
+          appendSystemPrompt: this.loadPreamble(),
+          abortController: active.abort,
+          onText,
+          ...(gate
+            ? {
+                canUseTool: async (toolName, input, options) => {
+                  const result = await gate(toolName, input, options);
+                  if (this.approvalGate!.needsApproval(toolName)) {
+                    approvals.requested++;
+                    if (result.behavior === "deny") approvals.denied++;
+                  }
+                  return result;
+                },
+              }
+            : {}),
+        }).finally(async () => {
+          // Record what the run left behind, even if it failed
+          if (checkpointId) await this.checkpoints!.complete(checkpointId, cwd);
+          if (diffBase) {
+            diff = await this.diffs!.publish(diffBase, {
+              conversationId: message.conversationId,
+              messageId: assistantMessageId,
+              userId: conversation?.userId || message.userId,
+              cwd,
+            });
+          }
+        });
+        const settled = run.then(
+          () => {},
+          () => {}
+        );
+        this.agentRuns.set(message.conversationId, settled);
+        void settled.finally(() => {
+          if (this.agentRuns.get(message.conversationId) === settled) {
+            this.agentRuns.delete(message.conversationId);
+          }
+        });
+        // Cancelling returns right away; the run winds down in the background
+        const turn = await abortable(active.abort.signal, run);
+        if (!writer.text && turn.result) await onText(turn.result);
+
+        if (turn.sessionId) {
+          this.conversationSessions.set(message.conversationId, turn.sessionId);
+          await this.updateConversation(message.conversationId, {
+            claudeSessionId: turn.sessionId,
+          });
+        }
+        Object.assign(metadata, {
+          mode,
+          claudeSessionId: turn.sessionId,
+          resumedFrom: turn.resumedFrom,
+          numTurns: turn.numTurns,
+          costUsd: turn.costUsd,
+          ...(checkpointId ? { checkpointId } : {}),
+          ...(worktreeId ? { worktreeId, cwd } : {}),
+          ...(diff ? { diff } : {}),
+          ...(approvals.requested ? { approvals } : {}),
+        });
+        if (turn.isError) {
+          throw new Error(`Agent turn failed: ${turn.result.slice(0, 200)}`);
+        }
+      } else {
+        // Send the earlier turns of this message's branch along with it
+        const context = buildConversationContext(
+          ancestorsOf(await this.loadHistory(message.conversationId), message.id),
+          message,
+          {
+            maxTokens: Number(process.env.HANDLER_CONTEXT_TOKENS) || 8000,
+            ...(conversation?.summary && conversation.summaryThroughMessageId
+              ? {
+                  summary: {
+                    text: conversation.summary,
+                    throughMessageId: conversation.summaryThroughMessageId,
+                  },
+                }
+              : {}),
+          }
+        );
+        console.log(
+          `   Context: ${context.includedIds.length} prior messages, ` +
+            `${context.summarizedIds.length} summarized, ~${context.estimatedTokens} tokens`
+        );
+
+        // Message override > conversation choice > config default; falls
+        // back along the configured chain if a provider fails up front
+        const requestedModel =
+          message.model || message.metadata?.model || conversation?.model;
+        const { candidate, attempts } = await abortable(
+          active.abort.signal,
+          streamWithFallback(
+            this.modelRouter,
+            requestedModel,
+            {
+              system: [this.loadPreamble(), context.digest]
+                .filter(Boolean)
+                .join("\n\n"),
+              messages: context.messages,
+              temperature: 0.7,
+              abortSignal: active.abort.signal,
+            },
+            onText
+          )
+        );
+        console.log(`   Model: ${candidate.spec}`);
+        Object.assign(metadata, {
+          mode,
+          model: candidate.spec,
+          ...(requestedModel ? { requestedModel } : {}),
+          ...(attempts.length ? { modelAttempts: attempts } : {}),
+          contextMessages: context.includedIds.length,
+          contextSummarized: context.summarizedIds.length,
+          contextTokens: context.estimatedTokens,
+        });
       }
 
-      // Finalize the message
-      await this.updateMessage(assistantMessageId, {
-        finalContent: fullResponse,
-        content: fullResponse,
+      // The turn outlived the shutdown grace period and was checkpointed
+      if (active.interrupted) return;
+      active.finalizing = true;
+
+      // Finalize the message; always carries the complete text
+      const streamMetrics = await writer.finish((content, metrics) => ({
+        finalContent: content,
+        content,
         status: "completed",
         isStreaming: false,
-      });
+        metadata: { ...metadata, replyTo: message.id, streamMetrics: metrics },
+      }));
+      const fullResponse = writer.text;
 
-      // Update original message status to completed
-      await this.updateMessage(message.id, { status: "completed" });
+      // Update original message status to completed and release the lease
+      await this.queue.complete(message.id);
 
       // Mark message as processed now that AI has responded
       this.processedMessageIds.add(message.id);
@@ -468,23 +737,35 @@ Be concise, helpful, and friendly in your responses.
       console.log(
         `   Response preview: "${fullResponse.substring(0, 100)}..."`
       );
+      console.log(
+        `   Stream writes: ${streamMetrics.writes} for ${streamMetrics.chunks} chunks (${streamMetrics.bytesSent} bytes)`
+      );
 
       // Send push notification with response preview
       await this.sendExpoPushNotifications(
         message.conversationId,
-        fullResponse
+        fullResponse,
+        conversation?.userId || message.userId
       );
 
       // Update conversation with last activity
       await this.updateConversation(message.conversationId, {
         updatedAt: Date.now(),
       });
+
+      // Off the answer's path: the next message needn't wait for it
+      void this.summarizer?.afterReply(message.conversationId, assistantMessageId);
     } catch (error) {
+      if (tracked?.interrupted) return;
+      tracked?.writer.dispose();
       console.error("❌ Error processing message:", error);
-      await this.updateMessage(message.id, { status: "error" });
+      await this.queue.fail(message.id, String(error));
 
       // Still mark as processed to avoid infinite retries
       this.processedMessageIds.add(message.id);
+    } finally {
+      // Interrupted turns were already released by the shutdown
+      if (tracked && !tracked.interrupted) this.inFlight.release(message.id);
     }
   }
 
@@ -496,6 +777,18 @@ Be concise, helpful, and friendly in your responses.
 
     console.log("🎧 Starting message listener...");
 
+    // Pick up anything left pending or stuck in processing by a previous run
+    await this.recoverMessages();
+    const abandoned = await this.approvalGate?.expireAbandoned();
+    if (abandoned) console.log(`🛂 Expired ${abandoned} abandoned approvals`);
+    await this.checkpoints?.recoverInterrupted();
+    this.checkpoints?.startRollbackListener();
+    this.forks.startForkListener();
+    this.recoveryInterval = setInterval(
+      () => this.recoverMessages(),
+      Number(process.env.HANDLER_LEASE_MS) || 60_000
+    ) as any;
+
     // Subscribe to messages
     this.unsubscribeFn = db.subscribeQuery({ messages: {} }, (resp: any) => {
       if (resp.error) {
@@ -504,26 +797,23 @@ Be concise, helpful, and friendly in your responses.
       }
 
       if (resp.data?.messages) {
-        // Process each message
         for (const message of resp.data.messages) {
-          // CRITICAL: Mark as processed IMMEDIATELY to prevent re-processing
-          // This must happen BEFORE any async operations
-          if (!this.processedMessageIds.has(message.id)) {
-            // Add to processed set FIRST
-            if (
-              message.role === "user" &&
-              message.timestamp &&
-              message.timestamp >= this.startupTime
-            ) {
-              // Only enqueue if it's a new user message
-              this.enqueueMessage(message as Message);
-            } else {
-              // Mark non-user messages and old messages as processed
-              this.processedMessageIds.add(message.id);
-              if (message.timestamp && message.timestamp < this.startupTime) {
-                console.log(`⏭️ Skipping old message: ${message.id}`);
-              }
-            }
+          // Stop pressed on an answer we are streaming
+          if (message.cancelRequestedAt && message.status === "streaming") {
+            this.cancelTurn(message.id).catch((err) =>
+              console.warn(`⚠️ Could not cancel answer ${message.id}:`, err)
+            );
+          }
+          // Answered before and put back (retry, regenerate): answer again
+          if (message.role === "user" && message.status === "pending") {
+            this.processedMessageIds.delete(message.id);
+          }
+          if (this.processedMessageIds.has(message.id)) continue;
+          if (message.role === "user" && message.status === "pending") {
+            this.enqueueMessage(message as Message);
+          } else if (message.role !== "user") {
+            // Assistant/system messages never need processing
+            this.processedMessageIds.add(message.id);
           }
         }
       }
@@ -533,7 +823,85 @@ Be concise, helpful, and friendly in your responses.
     console.log("✅ Listener active - waiting for messages...");
   }
 
+  // Free a conversation for its next message. A cancelled agent run may still
+  // be winding down in the working tree; the conversation waits for it so two
+  // runs never edit the same tree at once.
+  private releaseConversation(conversationId: string): void {
+    const run = this.agentRuns.get(conversationId);
+    if (!run) {
+      this.conversationsInProgress.delete(conversationId);
+      return;
+    }
+    void run.then(() => {
+      if (!this.agentRuns.has(conversationId)) {
+        this.conversationsInProgress.delete(conversationId);
+      }
+    });
+  }
+
+  // The phone asked to stop an answer: keep what was streamed so far, mark
+  // it cancelled and free the conversation for its next message as soon as
+  // the model call (or agent run) has stopped
+  private async cancelTurn(assistantMessageId: string): Promise<void> {
+    const turn = this.inFlight.forAssistantMessage(assistantMessageId);
+    if (!turn || turn.interrupted || turn.finalizing) return;
+    console.log(`⏹️ Cancelling answer to ${turn.messageId} (requested from the app)`);
+    this.releaseConversation(turn.conversationId);
+    const text = await this.inFlight.interrupt(
+      turn,
+      "Cancelled from the app",
+      "cancelled"
+    );
+    await this.queue.cancel(turn.messageId);
+    this.processedMessageIds.add(turn.messageId);
+    this.log("handler", "cancelled answer", {
+      conversationId: turn.conversationId,
+      messageId: turn.messageId,
+      chars: text.length,
+    }).catch(() => {});
+  }
+
+  // Another worker claimed a message we are still answering (our lease
+  // lapsed): stop writing to its answer and leave the message to that worker
+  private abandonTurn(messageId: string): void {
+    const turn = this.inFlight.forMessage(messageId);
+    if (!turn || turn.interrupted || turn.finalizing) return;
+    console.log(`✂️ Abandoning answer to ${messageId}: claimed by another worker`);
+    this.inFlight
+      .interrupt(turn, "Another handler took over this message")
+      .catch((err) => console.warn(`⚠️ Could not abandon ${messageId}:`, err));
+  }
+
+  // Requeue abandoned claims and enqueue everything that is pending
+  async recoverMessages(): Promise<void> {
+    try {
+      const { requeued, failed, pending } = await this.queue.recover();
+      if (requeued.length || failed.length) {
+        console.log(
+          `♻️ Recovered ${requeued.length} stuck message(s), gave up on ${failed.length}`
+        );
+        this.log("queue", "recovered messages", {
+          requeued: requeued.map((m) => m.id),
+          failed: failed.map((m) => m.id),
+          workerId: this.queue.workerId,
+        }).catch(() => {});
+      }
+      for (const message of pending) {
+        await this.enqueueMessage(message as Message);
+      }
+    } catch (err) {
+      console.warn("⚠️ Message recovery failed:", err);
+    }
+  }
+
   async stopMessageListener(): Promise<void> {
+    if (this.recoveryInterval) {
+      clearInterval(this.recoveryInterval);
+      this.recoveryInterval = null;
+    }
+    this.queue.shutdown();
+    this.checkpoints?.stopRollbackListener();
+    this.forks.stopForkListener();
     if (this.unsubscribeFn) {
       this.unsubscribeFn();
       this.unsubscribeFn = null;
@@ -542,6 +910,352 @@ Be concise, helpful, and friendly in your responses.
     console.log("🛑 Message listener stopped");
   }
 
+  // Answer messages once elected leader (right away without an election)
+  async start(): Promise<void> {
+    this.warnIfRepairDisabled();
+    if (this.election) {
+      await this.election.start();
+    } else {
+      await this.lead();
+    }
+  }
+
+  // Approvals are on by default, which turns repairs off: say so at startup
+  // instead of leaving bundler errors to pile up unanswered
+  private warnIfRepairDisabled(): void {
+    if (this.enableAutoRepair || process.env.HANDLER_AUTO_REPAIR === "0") return;
+    const reason =
+      "agent tool use needs approval from the phone and repairs have no " +
+      "conversation to ask in";
+    console.warn(
+      `⚠️ Automatic bundle error repair is OFF: ${reason}. Set ` +
+        "HANDLER_APPROVALS=0 to let repairs run unattended, or " +
+        "HANDLER_AUTO_REPAIR=0 to turn them off explicitly."
+    );
+    this.log("handler", "automatic repair disabled", { reason }).catch(() => {});
+  }
+
+  private async lead(): Promise<void> {
+    if (this.shuttingDown) return;
+    await this.startMessageListener();
+    await this.startErrorListener();
+  }
+
+  // Another instance took over: stop listening and abandon our answers in
+  // progress. Their user messages now belong to the new leader, so only the
+  // assistant messages are marked interrupted.
+  private async standBy(reason: string): Promise<void> {
+    this.messageQueue = [];
+    await this.stopMessageListener();
+    await this.stopErrorListener();
+    const stopped = await this.inFlight.interruptRemaining(
+      `Another handler took over (${reason})`,
+      0
+    );
+    if (stopped.length) {
+      console.log(`✂️ Abandoned ${stopped.length} answer(s) to the new leader`);
+    }
+  }
+
+  /**
+   * Stop taking new messages and give answers being streamed `graceMs` to
+   * finish. Whatever is still running after that is checkpointed: the
+   * assistant message keeps its partial text with status "interrupted" and
+   * the user message is marked "interrupted" so the phone can retry it.
+   */
+  async shutdown(signal: string, graceMs: number): Promise<void> {
+    this.shuttingDown = true;
+    this.unsubscribeFn?.();
+    this.unsubscribeFn = null;
+
+    if (this.inFlight.size > 0) {
+      console.log(
+        `⏳ Waiting up to ${Math.round(graceMs / 1000)}s for ${this.inFlight.size} answer(s) to finish`
+      );
+    }
+    await this.inFlight.drain(graceMs);
+    const reason = `Handler stopped (${signal}) before the answer finished`;
+    const stopped = await this.inFlight.interruptRemaining(reason);
+    for (const turn of stopped) {
+      await this.queue.interrupt(turn.messageId, reason);
+      console.log(
+        `✂️ Interrupted answer to ${turn.messageId} (${turn.writer.text.length} chars kept)`
+      );
+    }
+    if (stopped.length) {
+      await this.log("handler", "interrupted answers on shutdown", {
+        signal,
+        messageIds: stopped.map((t) => t.messageId),
+      });
+    }
+    await this.stopMessageListener();
+    await this.election?.stop();
+  }
+
+  // Watch the errors table for bundler errors dispatched by the supervisor
+  async startErrorListener(): Promise<void> {
+    if (!this.enableAutoRepair) {
+      console.log(
+        this.approvalGate
+          ? "ℹ️ Automatic error repair disabled: agent tool use needs approval (HANDLER_APPROVALS=0 to allow)"
+          : "ℹ️ Automatic error repair disabled (HANDLER_AUTO_REPAIR=0)"
+      );
+      return;
+    }
+
+    if (this.unsubscribeErrorsFn) return;
+    await this.recoverErrors();
+    console.log("🩺 Starting error listener...");
+    this.unsubscribeErrorsFn = db.subscribeQuery(
+      { errors: { $: { where: { status: "pending" } } } },
+      (resp) => {
+        if (resp.error) {
+          console.error("❌ Error subscription error:", resp.error.message);
+          return;
+        }
+        for (const error of resp.data?.errors || []) {
+          this.enqueueError(error as Error);
+        }
+      }
+    );
+  }
+
+  // Repairs left "processing" by an earlier handler never finished: fail
+  // them, so the supervisor files the error again after its backoff
+  private async recoverErrors(): Promise<void> {
+    try {
+      const res = await db.queryOnce({
+        errors: { $: { where: { status: "processing" } } },
+      });
+      for (const error of res.data.errors) {
+        if (error.claimedBy === this.queue.workerId) continue;
+        await this.updateError(error.id, {
+          status: "failed",
+          errorMessage: `Repair abandoned by ${error.claimedBy || "a stopped handler"}`,
+          resolvedAt: Date.now(),
+        });
+        console.log(`♻️ Failed abandoned repair ${error.id}`);
+      }
+    } catch (err) {
+      console.warn("⚠️ Error recovery failed:", err);
+    }
+  }
+
+  private enqueueError(error: Error) {
+    if (this.processedErrorIds.has(error.id)) return;
+    if (error.type !== "expo-bundler" || error.status !== "pending") return;
+    if (this.errorQueue.some((q) => q.error.id === error.id)) return;
+
+    console.log(`📥 Enqueueing ${error.errorType} error ${error.id}`);
+    this.errorQueue.push({ error, addedAt: Date.now() });
+    if (!this.isProcessingErrors) {
+      this.processErrorQueue();
+    }
+  }
+
+  private async processErrorQueue(): Promise<void> {
+    if (this.isProcessingErrors) return;
+    this.isProcessingErrors = true;
+
+    // One repair at a time: fixes touch the same working tree
+    while (this.errorQueue.length > 0) {
+      this.errorQueue.sort((a, b) => a.error.timestamp - b.error.timestamp);
+      const queued = this.errorQueue.shift();
+      if (!queued) continue;
+      this.processedErrorIds.add(queued.error.id);
+
+      const claimed = await this.claimError(queued.error.id);
+      if (!claimed) continue;
+
+      try {
+        const skip = await this.repairSkipReason(claimed);
+        if (skip) {
+          console.log(`⏸️ Skipping repair of ${claimed.id}: ${skip}`);
+          await this.updateError(claimed.id, {
+            status: "skipped",
+            errorMessage: skip,
+            resolvedAt: Date.now(),
+          });
+          continue;
+        }
+        await this.repairError(claimed);
+      } catch (err) {
+        console.error("❌ Error repair crashed:", err);
+        await this.updateError(claimed.id, {
+          status: "failed",
+          errorMessage: String(err),
+          resolvedAt: Date.now(),
+        });
+      }
+    }
+
+    this.isProcessingErrors = false;
+  }
+
+  // The supervisor only files an error again once earlier repairs allow it;
+  // rows filed by other means get the same limit here
+  private async repairSkipReason(error: Error): Promise<string | null> {
+    const signature = error.signature || errorSignature(error.content);
+    const res = await db.queryOnce({
+      errors: { $: { where: { signature } } },
+    });
+    const earlier = res.data.errors.filter(
+      (e) => e.id !== error.id && e.status !== "pending" && e.status !== "processing"
+    );
+    const decision = repairDecision(earlier, Date.now(), {
+      maxFailures: Number(process.env.REPAIR_MAX_FAILURES) || 3,
+      backoffMs: Number(process.env.REPAIR_BACKOFF_MS) || 60_000,
+    });
+    return decision.repair ? null : decision.reason;
+  }
+
+  private async updateError(
+    errorId: string,
+    updates: Partial<Error>
+  ): Promise<void> {
+    try {
+      await db.transact([db.tx.errors[errorId]!.update(updates)]);
+    } catch (error) {
+      console.warn(`⚠️ Could not update error ${errorId}:`, error);
+    }
+  }
+
+  // Same read-back claim as the message queue: write a token, confirm it stuck
+  private async claimError(errorId: string): Promise<Error | null> {
+    const fetchError = async () => {
+      const res = await db.queryOnce({
+        errors: { $: { where: { id: errorId } } },
+      });
+      return (res.data.errors[0] as Error | undefined) || null;
+    };
+
+    const current = await fetchError();
+    if (!current || current.status !== "pending") return null;
+
+    const claimToken = id();
+    await this.updateError(errorId, {
+      status: "processing",
+      claimedBy: this.queue.workerId,
+      claimToken,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 250));
+    const confirmed = await fetchError();
+    return confirmed?.claimToken === claimToken ? confirmed : null;
+  }
+
+  private buildRepairPrompt(error: Error): string {
+    const meta = error.metadata || {};
+    const location = meta.filename
+      ? `${meta.filename}${meta.lineNumber ? `:${meta.lineNumber}` : ""}${
+          meta.column ? `:${meta.column}` : ""
+        }`
+      : "unknown (see error output)";
+    return [
+      `The Expo/Metro bundler for the mobile app (in ${meta.cwd || "mobile-app"}) fails to build.`,
+      `Error type: ${error.errorType}`,
+      `Location: ${location}`,
+      "",
+      "Error output:",
+      "```",
+      error.content.slice(0, 4000),
+      "```",
+      "",
+      "Find the cause and fix it with the smallest possible change.",
+      "Do not start or restart the bundler; it reloads automatically.",
+      "Finish with one or two sentences describing what you changed.",
+    ].join("\n");
+  }
+
+  private async repairError(error: Error): Promise<void> {
+    console.log(`\n🔧 Repairing ${error.errorType} (${error.id})`);
+    this.log("repair", "repairing bundler error", {
+      errorId: error.id,
+      errorType: error.errorType,
+      filename: error.metadata?.filename,
+      lineNumber: error.metadata?.lineNumber,
+    }).catch(() => {});
+
+    const turn = await runAgentTurn({
+      prompt: this.buildRepairPrompt(error),
+      cwd: this.agentCwd,
+      maxTurns: 20,
+    });
+    const resolution = (turn.result || "").trim().slice(0, 2000);
+
+    // Give Metro a moment to pick up the change, then rebuild the bundle
+    let verified: boolean | null = null;
+    let remaining: string | null = null;
+    const port = error.metadata?.port;
+    if (port) {
+      await new Promise((resolve) => setTimeout(resolve, 3000));
+      try {
+        const bundleError = await checkBundleForErrors(port);
+        verified = !bundleError;
+        remaining = bundleError?.message || null;
+      } catch (err) {
+        console.warn("⚠️ Could not re-check bundle:", err);
+      }
+    }
+
+    const fixed = !turn.isError && verified !== false;
+    await this.updateError(error.id, {
+      status: fixed ? "completed" : "failed",
+      resolution,
+      resolvedAt: Date.now(),
+      ...(fixed
+        ? {}
+        : {
+            errorMessage: turn.isError
+              ? "Agent turn failed"
+              : `Bundle still failing: ${(remaining || "").slice(0, 500)}`,
+          }),
+      metadata: {
+        ...(error.metadata || {}),
+        verified,
+        claudeSessionId: turn.sessionId,
+        costUsd: turn.costUsd,
+      },
+    });
+
+    // Duplicates reported while we were fixing share the outcome
+    if (fixed) await this.resolveDuplicateErrors(error);
+
+    console.log(
+      fixed
+        ? `✅ Error ${error.id} repaired${verified ? " (bundle verified)" : ""}`
+        : `❌ Error ${error.id} not repaired`
+    );
+    this.log("repair", fixed ? "bundler error repaired" : "repair failed", {
+      errorId: error.id,
+      verified,
+    }).catch(() => {});
+  }
+
+  private async resolveDuplicateErrors(error: Error): Promise<void> {
+    const sig = errorSignature(error.content);
+    const duplicates = this.errorQueue.filter(
+      (q) => errorSignature(q.error.content) === sig
+    );
+    for (const dup of duplicates) {
+      this.processedErrorIds.add(dup.error.id);
+      await this.updateError(dup.error.id, {
+        status: "completed",
+        resolution: `Resolved together with ${error.id}`,
+        resolvedAt: Date.now(),
+      });
+    }
+    this.errorQueue = this.errorQueue.filter(
+      (q) => errorSignature(q.error.content) !== sig
+    );
+  }
+
+  async stopErrorListener(): Promise<void> {
+    if (this.unsubscribeErrorsFn) {
+      this.unsubscribeErrorsFn();
+      this.unsubscribeErrorsFn = null;
+    }
+  }
+
   async showStats(): Promise<void> {
     try {
       const result = await db.queryOnce({
@@ -578,11 +1292,13 @@ Be concise, helpful, and friendly in your responses.
 async function testAISDK(): Promise<void> {
   console.log("\n🧪 Testing AI SDK...");
   try {
+    const [candidate] = ModelRouter.fromConfigFile().candidates();
+    if (!candidate) throw new Error("No usable model in config/models.json");
     const { text } = await streamText({
-      model: litellm("claude-3-7-sonnet"),
+      model: candidate.model,
       prompt: "Say 'Ready' in one word.",
     });
-    console.log("✅ AI SDK working!");
+    console.log(`✅ AI SDK working! (${candidate.spec})`);
     console.log(`   Response: ${text}`);
   } catch (error) {
     console.error("❌ AI SDK test failed:", error);
@@ -593,12 +1309,25 @@ async function testAISDK(): Promise<void> {
 // Main function
 async function main() {
   try {
+    await signInAsHost(db, "Handler");
+
+    // Refuse to run against a database this code wasn't written for
+    const schemaCheck = await checkSchemaVersion(db, SCHEMA_VERSION);
+    if (schemaCheck.ok) {
+      console.log(`✅ Database ${schemaCheck.message}`);
+    } else if (process.env.HANDLER_SKIP_SCHEMA_CHECK === "1") {
+      console.warn(`⚠️ ${schemaCheck.message} (HANDLER_SKIP_SCHEMA_CHECK=1)`);
+    } else {
+      console.error(`❌ ${schemaCheck.message}`);
+      process.exit(1);
+    }
+
     // Test AI SDK first
     await testAISDK();
 
     // Create and start handler
     const handler = new AIMessageHandler();
-    await handler.startMessageListener();
+    await handler.start();
     handler.startHostHeartbeat(10000);
 
     // Show initial stats
@@ -614,16 +1343,29 @@ async function main() {
       handler.showStats();
     }, 30000);
 
-    // Handle graceful shutdown
-    process.on("SIGINT", async () => {
-      console.log("\nGracefully shutting down InstantDB connections...");
+    // Handle graceful shutdown: Ctrl+C, nodemon restarts and the
+    // supervisor's stop all land here. Ctrl+C under the supervisor delivers
+    // SIGINT and SIGTERM both, so later signals don't cut the drain short
+    // (the supervisor kills us if it takes too long).
+    const graceMs = Number(process.env.HANDLER_SHUTDOWN_GRACE_MS ?? 20_000);
+    let shuttingDown = false;
+    const shutdown = async (signal: NodeJS.Signals) => {
+      if (shuttingDown) {
+        console.log(`\n${signal} received, already shutting down`);
+        return;
+      }
+      shuttingDown = true;
+      console.log(`\n${signal}: gracefully shutting down...`);
       clearInterval(statsInterval);
+      await handler.stopErrorListener();
+      await handler.shutdown(signal, graceMs);
       handler.stopHostHeartbeat();
-      await handler.stopMessageListener();
       await handler.showStats();
       console.log("Goodbye!");
       process.exit(0);
-    });
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
 
     // Keep the process running
     await new Promise(() => {});
@@ -0,0 +1,124 @@
+/**
+ * Fetch the Metro bundle from a running Expo dev server and report whether it
+ * currently fails to build. Used by the supervisor to detect errors and by
+ * the handler to confirm that a repair actually fixed the bundle.
+ */
+
+export interface BundleError {
+  errorType: string; // "TransformError" | "SyntaxError" | ...
+  message: string;
+  filename?: string;
+  lineNumber?: number;
+  column?: number;
+  raw: string;
+}
+
+export interface BundleCheckOptions {
+  platform?: "ios" | "web";
+  timeoutMs?: number;
+}
+
+/**
+ * Resolves to the bundle error, or null when the bundle builds. Throws when
+ * the bundler cannot be reached at all (not ready yet, wrong port, ...).
+ */
+export async function checkBundleForErrors(
+  port: number,
+  options: BundleCheckOptions = {}
+): Promise<BundleError | null> {
+  const platform = options.platform || "ios";
+  const response = await fetch(
+    `http://localhost:${port}/index.ts.bundle?platform=${platform}&dev=true`,
+    { signal: AbortSignal.timeout(options.timeoutMs ?? 60_000) }
+  );
+  const text = await response.text();
+
+  if (
+    !text.includes('"type":"TransformError"') &&
+    !text.includes('"name":"SyntaxError"')
+  ) {
+    return null;
+  }
+
+  try {
+    const errorData = JSON.parse(text);
+    if (
+      errorData.type !== "TransformError" &&
+      errorData.name !== "SyntaxError"
+    ) {
+      return null;
+    }
+    return {
+      errorType: errorData.name || "TransformError",
+      message: errorData.message || text,
+      filename: errorData.filename,
+      lineNumber: errorData.lineNumber,
+      column: errorData.column,
+      raw: text,
+    };
+  } catch {
+    // Error marker present but body isn't JSON; still a failed bundle
+    return { errorType: "TransformError", message: text, raw: text };
+  }
+}
+
+// Stable signature used to de-duplicate repeated reports of the same error
+export function errorSignature(content: string): string {
+  return content.trim().slice(0, 200);
+}
+
+export interface RepairPolicy {
+  maxFailures?: number; // Stop filing an error after this many failed repairs
+  backoffMs?: number; // Wait after the first failure; doubles with each one
+}
+
+// An `errors` row filed earlier for the same signature
+export interface FiledRepair {
+  status?: string;
+  timestamp?: number;
+  resolvedAt?: number;
+}
+
+export type RepairDecision =
+  | { repair: true; failures: number }
+  | { repair: false; failures: number; reason: string };
+
+/**
+ * Whether a bundle error should be (re)filed for an agent repair, given the
+ * rows already filed for its signature. A persistent error is checked every
+ * few seconds, so without this every check would start another repair.
+ * Failures count since the last completed repair; after `maxFailures` the
+ * error is left for a person until a repair succeeds or the error changes.
+ */
+export function repairDecision(
+  filed: FiledRepair[],
+  now = Date.now(),
+  policy: RepairPolicy = {}
+): RepairDecision {
+  const maxFailures = policy.maxFailures ?? 3;
+  const backoffMs = policy.backoffMs ?? 60_000;
+  const byTime = [...filed].sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0));
+
+  if (byTime.some((r) => r.status === "pending" || r.status === "processing")) {
+    return { repair: false, failures: 0, reason: "a repair is already queued" };
+  }
+  const lastFixed = byTime.map((r) => r.status).lastIndexOf("completed");
+  const failed = byTime.slice(lastFixed + 1).filter((r) => r.status === "failed");
+  const failures = failed.length;
+  if (failures >= maxFailures) {
+    return { repair: false, failures, reason: `gave up after ${failures} failed repairs` };
+  }
+  const last = failed[failures - 1];
+  if (last) {
+    const retryAt =
+      (last.resolvedAt ?? last.timestamp ?? 0) + backoffMs * 2 ** (failures - 1);
+    if (now < retryAt) {
+      return {
+        repair: false,
+        failures,
+        reason: `backing off until ${new Date(retryAt).toISOString()}`,
+      };
+    }
+  }
+  return { repair: true, failures };
+}
@@ -0,0 +1,154 @@
+import fs from "node:fs";
+import net from "node:net";
+import path from "node:path";
+
+/**
+ * Local control channel between the running supervisor and its CLI.
+ *
+ * The supervisor listens on a Unix domain socket (.supervisor.sock in the
+ * working directory, or SUPERVISOR_SOCKET). Each connection carries one
+ * request and one response, both a single line of JSON:
+ *
+ *   → {"command":"status","args":{}}
+ *   ← {"ok":true,"result":{...}}   or   {"ok":false,"error":"..."}
+ *
+ * The socket file is created with mode 0600, so only the user running the
+ * supervisor can control it.
+ */
+
+export const DEFAULT_SOCKET_PATH = ".supervisor.sock";
+
+export function controlSocketPath(): string {
+  return path.resolve(process.env.SUPERVISOR_SOCKET || DEFAULT_SOCKET_PATH);
+}
+
+export interface ControlRequest {
+  command: string;
+  args?: Record<string, any>;
+}
+
+export type ControlResponse =
+  | { ok: true; result: any }
+  | { ok: false; error: string };
+
+export type ControlHandlers = Record<
+  string,
+  (args: Record<string, any>) => any | Promise<any>
+>;
+
+export class SupervisorNotRunningError extends Error {
+  constructor(socketPath: string) {
+    super(`Supervisor is not running (no control socket at ${socketPath})`);
+    this.name = "SupervisorNotRunningError";
+  }
+}
+
+// Is something already answering on this socket?
+function isListening(socketPath: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const client = net.connect(socketPath);
+    client.once("connect", () => {
+      client.destroy();
+      resolve(true);
+    });
+    client.once("error", () => resolve(false));
+  });
+}
+
+export async function startControlServer(
+  handlers: ControlHandlers,
+  socketPath = controlSocketPath()
+): Promise<{ close: () => void }> {
+  if (fs.existsSync(socketPath)) {
+    if (await isListening(socketPath)) {
+      throw new Error(`Another supervisor is already listening on ${socketPath}`);
+    }
+    // Left behind by a supervisor that didn't shut down cleanly
+    fs.unlinkSync(socketPath);
+  }
+
+  const server = net.createServer((conn) => {
+    let buffer = "";
+    conn.setEncoding("utf8");
+    conn.on("data", async (data) => {
+      buffer += data;
+      const newline = buffer.indexOf("\n");
+      if (newline < 0) return;
+      const line = buffer.slice(0, newline);
+      buffer = "";
+
+      let response: ControlResponse;
+      try {
+        const request = JSON.parse(line) as ControlRequest;
+        const handler = handlers[request.command];
+        response = handler
+          ? { ok: true, result: (await handler(request.args || {})) ?? null }
+          : { ok: false, error: `Unknown command: ${request.command}` };
+      } catch (err) {
+        response = { ok: false, error: (err as Error)?.message || String(err) };
+      }
+      conn.end(JSON.stringify(response) + "\n");
+    });
+    conn.on("error", () => {});
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(socketPath, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  fs.chmodSync(socketPath, 0o600);
+
+  return {
+    close: () => {
+      server.close();
+      try {
+        fs.unlinkSync(socketPath);
+      } catch {}
+    },
+  };
+}
+
+export function sendControlCommand(
+  command: string,
+  args: Record<string, any> = {},
+  options: { socketPath?: string; timeoutMs?: number } = {}
+): Promise<ControlResponse> {
+  const socketPath = options.socketPath || controlSocketPath();
+  const timeoutMs = options.timeoutMs ?? 10_000;
+
+  return new Promise((resolve, reject) => {
+    const client = net.connect(socketPath);
+    let buffer = "";
+    const timer = setTimeout(() => {
+      client.destroy();
+      reject(new Error(`No answer from supervisor within ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    client.setEncoding("utf8");
+    client.once("connect", () => {
+      client.write(JSON.stringify({ command, args } satisfies ControlRequest) + "\n");
+    });
+    client.on("data", (data) => {
+      buffer += data;
+    });
+    client.once("end", () => {
+      clearTimeout(timer);
+      try {
+        resolve(JSON.parse(buffer) as ControlResponse);
+      } catch {
+        reject(new Error(`Malformed answer from supervisor: ${buffer.slice(0, 200)}`));
+      }
+    });
+    client.once("error", (err: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      reject(
+        err.code === "ENOENT" || err.code === "ECONNREFUSED"
+          ? new SupervisorNotRunningError(socketPath)
+          : err
+      );
+    });
+  });
+}
@@ -0,0 +1,199 @@
+import type { ModelMessage } from "ai";
+
+/**
+ * Builds the multi-turn `messages` array for streamText from the stored
+ * messages of a conversation.
+ *
+ * Newest turns are kept verbatim as long as they fit in the token budget.
+ * Older turns are first truncated and, once the budget is spent, folded into
+ * a short "earlier in this conversation" digest so follow-up questions never
+ * start cold. When the conversation has a rolling summary, the turns it
+ * covers are represented by the summary instead of digest lines. The digest
+ * is returned separately for the caller's system prompt: it quotes user
+ * text, which must not reach the model as a system message of its own.
+ */
+
+export interface HistoryMessage {
+  id: string;
+  role: "user" | "assistant" | "system";
+  content: string;
+  finalContent?: string;
+  status?: string;
+  timestamp?: number;
+}
+
+export interface ContextOptions {
+  maxTokens?: number; // Total budget for history + current message
+  keepRecent?: number; // Newest N messages are never truncated
+  maxMessageChars?: number; // Older messages are cut to this length
+  summaryTokens?: number; // Budget for the digest of dropped turns
+  summaryLineChars?: number; // Per-turn length inside the digest
+  summary?: RollingSummary; // Stands in for the dropped turns it covers
+}
+
+export interface RollingSummary {
+  text: string;
+  throughMessageId: string; // Last message the summary covers
+}
+
+export interface ConversationContext {
+  messages: ModelMessage[];
+  digest: string; // Dropped turns, for the system prompt ("" if none)
+  includedIds: string[];
+  truncatedIds: string[];
+  summarizedIds: string[];
+  estimatedTokens: number;
+}
+
+const DEFAULTS: Required<Omit<ContextOptions, "summary">> = {
+  maxTokens: 8000,
+  keepRecent: 4,
+  maxMessageChars: 2000,
+  summaryTokens: 600,
+  summaryLineChars: 160,
+};
+
+// Statuses that mean the message is not part of the settled history.
+// "replaced" messages are left in: callers pass the branch being answered
+// (see ancestorsOf), which only holds a replaced message if the user went
+// back to it.
+const EXCLUDED_STATUSES = new Set([
+  "error",
+  "interrupted",
+  "cancelled",
+  "streaming",
+  "pending",
+  "processing",
+]);
+
+// Rough heuristic (~4 chars per token) — good enough for budgeting
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function textOf(message: HistoryMessage): string {
+  return (message.finalContent || message.content || "").trim();
+}
+
+function truncate(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  return `${text.slice(0, maxChars)}… [truncated]`;
+}
+
+function oneLine(text: string, maxChars: number): string {
+  const flat = text.replace(/\s+/g, " ");
+  return flat.length > maxChars ? `${flat.slice(0, maxChars)}…` : flat;
+}
+
+/**
+ * Select the prior turns relevant to `current`: user/assistant messages with
+ * content that settled before it, in chronological order.
+ */
+export function selectHistory(
+  history: HistoryMessage[],
+  current: HistoryMessage
+): HistoryMessage[] {
+  const cutoff = current.timestamp ?? Number.MAX_SAFE_INTEGER;
+  return history
+    .filter((m) => m.id !== current.id)
+    .filter((m) => m.role === "user" || m.role === "assistant")
+    .filter((m) => !m.status || !EXCLUDED_STATUSES.has(m.status))
+    .filter((m) => (m.timestamp ?? 0) <= cutoff)
+    .filter((m) => textOf(m).length > 0)
+    .sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0));
+}
+
+export function buildConversationContext(
+  history: HistoryMessage[],
+  current: HistoryMessage,
+  options: ContextOptions = {}
+): ConversationContext {
+  const opts = { ...DEFAULTS, ...options };
+  const prior = selectHistory(history, current);
+
+  const currentText = textOf(current);
+  let used = estimateTokens(currentText);
+  const budget = Math.max(opts.maxTokens - opts.summaryTokens, used);
+
+  // Walk newest → oldest, keeping what fits
+  const kept: { message: HistoryMessage; text: string }[] = [];
+  const truncatedIds: string[] = [];
+  let firstDropped = -1;
+  for (let i = prior.length - 1; i >= 0; i--) {
+    const message = prior[i]!;
+    const isRecent = prior.length - i <= opts.keepRecent;
+    let text = textOf(message);
+    if (!isRecent && text.length > opts.maxMessageChars) {
+      text = truncate(text, opts.maxMessageChars);
+      truncatedIds.push(message.id);
+    }
+    const cost = estimateTokens(text);
+    if (used + cost > budget) {
+      firstDropped = i;
+      break;
+    }
+    used += cost;
+    kept.unshift({ message, text });
+  }
+
+  // Fold everything older than the kept window into a compact digest
+  const summarizedIds: string[] = [];
+  const messages: ModelMessage[] = [];
+  let digest = "";
+  if (firstDropped >= 0) {
+    // Turns up to here are covered by the rolling summary (-1: none are)
+    const covered = options.summary
+      ? Math.min(
+          prior.findIndex((m) => m.id === options.summary!.throughMessageId),
+          firstDropped
+        )
+      : -1;
+    const lines: string[] = [];
+    let digestTokens = 0;
+    if (covered >= 0) {
+      const text = options.summary!.text.trim();
+      lines.push(`Summary: ${text}`);
+      digestTokens += estimateTokens(text);
+      summarizedIds.push(...prior.slice(0, covered + 1).map((m) => m.id));
+    }
+    // Prefer the most recent dropped turns when the digest itself overflows
+    for (let i = firstDropped; i > covered; i--) {
+      const message = prior[i]!;
+      const line = `- ${message.role}: ${oneLine(textOf(message), opts.summaryLineChars)}`;
+      const cost = estimateTokens(line);
+      if (digestTokens + cost > opts.summaryTokens) break;
+      digestTokens += cost;
+      lines.splice(covered >= 0 ? 1 : 0, 0, line);
+      summarizedIds.splice(covered + 1, 0, message.id);
+    }
+    if (lines.length) {
+      const omitted = firstDropped + 1 - summarizedIds.length;
+      const header =
+        omitted > 0
+          ? `Earlier in this conversation (${omitted} older messages omitted, the rest summarized):`
+          : "Earlier in this conversation (summarized):";
+      digest = `${header}\n${lines.join("\n")}`;
+      used += digestTokens;
+    }
+  }
+
+  for (const { message, text } of kept) {
+    messages.push(
+      message.role === "user"
+        ? { role: "user", content: text }
+        : { role: "assistant", content: text }
+    );
+  }
+  messages.push({ role: "user", content: currentText });
+
+  return {
+    messages,
+    digest,
+    includedIds: kept.map((k) => k.message.id),
+    truncatedIds: truncatedIds.filter((tid) =>
+      kept.some((k) => k.message.id === tid)
+    ),
+    summarizedIds,
+    estimatedTokens: used,
+  };
+}
@@ -0,0 +1,174 @@
+import { execFile } from "node:child_process";
+import { copyFile, rm, unlink } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Snapshots of a working tree that never touch the user's index, stash or
+ * branches.
+ *
+ * A snapshot stages the whole working tree (respecting .gitignore) into a
+ * throwaway index file, writes it as a tree and wraps that in a commit whose
+ * parent is HEAD. The commit is kept alive by a private ref under
+ * refs/organic/checkpoints/, so `git log`, `git stash list` and the user's
+ * staged changes are unaffected. Restoring writes only the files that differ
+ * and deletes the ones the snapshot didn't have.
+ */
+
+export const CHECKPOINT_REF_PREFIX = "refs/organic/checkpoints";
+
+export interface GitSnapshot {
+  sha: string; // Checkpoint commit
+  tree: string; // Working tree contents
+  head: string | null; // HEAD at the time (null on an unborn branch)
+  ref: string;
+}
+
+export interface RestoreResult {
+  written: string[];
+  deleted: string[];
+}
+
+export class GitCheckpoints {
+  private rootDir: string | null = null;
+
+  constructor(
+    private cwd: string,
+    private refPrefix = CHECKPOINT_REF_PREFIX
+  ) {}
+
+  // Snapshots always cover the whole repository, even from a subdirectory
+  private async root(): Promise<string> {
+    if (!this.rootDir) {
+      const { stdout } = await execFileAsync(
+        "git",
+        ["rev-parse", "--show-toplevel"],
+        { cwd: this.cwd }
+      );
+      this.rootDir = stdout.trim();
+    }
+    return this.rootDir;
+  }
+
+  private async git(
+    args: string[],
+    env: Record<string, string> = {}
+  ): Promise<string> {
+    const { stdout } = await execFileAsync("git", args, {
+      cwd: await this.root(),
+      env: { ...process.env, ...env },
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    return stdout.trim();
+  }
+
+  async isRepo(): Promise<boolean> {
+    try {
+      return (await this.git(["rev-parse", "--is-inside-work-tree"])) === "true";
+    } catch {
+      return false;
+    }
+  }
+
+  private async head(): Promise<string | null> {
+    try {
+      return await this.git(["rev-parse", "--verify", "-q", "HEAD"]);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Run `fn` with GIT_INDEX_FILE pointing at a private copy of the index.
+   * Copying the real index keeps git's stat cache, so unchanged files
+   * aren't re-hashed on large trees.
+   */
+  private async withTempIndex<T>(
+    fn: (env: Record<string, string>) => Promise<T>
+  ): Promise<T> {
+    const tempIndex = path.join(
+      os.tmpdir(),
+      `organic-index-${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    const realIndex = path.resolve(
+      await this.root(),
+      await this.git(["rev-parse", "--git-path", "index"])
+    );
+    try {
+      await copyFile(realIndex, tempIndex);
+    } catch {
+      // No index yet (fresh repo); git starts from an empty one
+    }
+    try {
+      return await fn({ GIT_INDEX_FILE: tempIndex });
+    } finally {
+      await rm(tempIndex, { force: true });
+    }
+  }
+
+  // Tree object for the working tree as it is right now
+  async currentTree(): Promise<string> {
+    return this.withTempIndex(async (env) => {
+      await this.git(["add", "-A", "--", "."], env);
+      return this.git(["write-tree"], env);
+    });
+  }
+
+  async snapshot(name: string, message: string): Promise<GitSnapshot> {
+    const tree = await this.currentTree();
+    const head = await this.head();
+    const sha = await this.git(
+      ["commit-tree", tree, ...(head ? ["-p", head] : []), "-m", message],
+      {
+        GIT_AUTHOR_NAME: "organic-software",
+        GIT_AUTHOR_EMAIL: "checkpoints@organic-software.local",
+        GIT_COMMITTER_NAME: "organic-software",
+        GIT_COMMITTER_EMAIL: "checkpoints@organic-software.local",
+      }
+    );
+    const ref = `${this.refPrefix}/${name}`;
+    await this.git(["update-ref", ref, sha]);
+    return { sha, tree, head, ref };
+  }
+
+  // Make the working tree match `tree`, touching only files that differ
+  async restore(tree: string): Promise<RestoreResult> {
+    const current = await this.currentTree();
+    if (current === tree) return { written: [], deleted: [] };
+
+    const diff = await this.git([
+      "diff-tree",
+      "-r",
+      "-z",
+      "--no-renames",
+      "--name-status",
+      current,
+      tree,
+    ]);
+    const fields = diff.split("\0").filter(Boolean);
+    const written: string[] = [];
+    const deleted: string[] = [];
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+      const [status, file] = [fields[i]!, fields[i + 1]!];
+      (status === "D" ? deleted : written).push(file);
+    }
+
+    if (written.length) {
+      await this.withTempIndex(async (env) => {
+        await this.git(["read-tree", tree], env);
+        await this.git(["checkout-index", "-f", "--", ...written], env);
+      });
+    }
+    for (const file of deleted) {
+      await unlink(path.join(await this.root(), file)).catch(() => {});
+    }
+    return { written, deleted };
+  }
+
+  async deleteRef(name: string): Promise<void> {
+    await this.git(["update-ref", "-d", `${this.refPrefix}/${name}`]);
+  }
+}
@@ -0,0 +1,107 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Unified diffs between two tree objects (see git-checkpoints.ts), parsed
+ * per file so they can be stored and rendered file by file.
+ */
+
+export type FileChangeStatus = "added" | "modified" | "deleted" | "renamed";
+
+export interface FileDiff {
+  path: string;
+  oldPath?: string; // Set for renames
+  status: FileChangeStatus;
+  binary: boolean;
+  additions: number;
+  deletions: number;
+  patch: string; // Hunks only ("@@ ..." onwards), without the file header
+}
+
+export async function diffTrees(
+  cwd: string,
+  fromTree: string,
+  toTree: string
+): Promise<FileDiff[]> {
+  if (fromTree === toTree) return [];
+  const { stdout } = await execFileAsync(
+    "git",
+    ["diff", "--no-color", "--no-ext-diff", "-M", fromTree, toTree],
+    { cwd, maxBuffer: 256 * 1024 * 1024 }
+  );
+  return parseUnifiedDiff(stdout);
+}
+
+// Strip git's a/ b/ prefix and the quoting it uses for unusual file names
+function cleanPath(raw: string): string {
+  let p = raw.trim();
+  if (p.startsWith('"') && p.endsWith('"')) p = JSON.parse(p);
+  return p.replace(/^[ab]\//, "");
+}
+
+export function parseUnifiedDiff(text: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  const sections = text.split(/^(?=diff --git )/m).filter((s) => s.startsWith("diff --git "));
+
+  for (const section of sections) {
+    const lines = section.split("\n");
+    if (lines[lines.length - 1] === "") lines.pop();
+    const header = lines[0]!.match(/^diff --git (.+?) (b\/.+|"b\/.+")$/);
+    const file: FileDiff = {
+      path: header ? cleanPath(header[2]!) : lines[0]!.slice(11),
+      status: "modified",
+      binary: false,
+      additions: 0,
+      deletions: 0,
+      patch: "",
+    };
+
+    let i = 1;
+    for (; i < lines.length && !lines[i]!.startsWith("@@"); i++) {
+      const line = lines[i]!;
+      if (line.startsWith("new file mode")) file.status = "added";
+      else if (line.startsWith("deleted file mode")) file.status = "deleted";
+      else if (line.startsWith("rename from ")) {
+        file.status = "renamed";
+        file.oldPath = cleanPath(line.slice(12));
+      } else if (line.startsWith("rename to ")) file.path = cleanPath(line.slice(10));
+      else if (line.startsWith("Binary files ") || line === "GIT binary patch") {
+        file.binary = true;
+      } else if (line.startsWith("+++ ") && line !== "+++ /dev/null") {
+        file.path = cleanPath(line.slice(4));
+      }
+    }
+
+    const hunks = lines.slice(i);
+    for (const line of hunks) {
+      if (line.startsWith("+")) file.additions++;
+      else if (line.startsWith("-")) file.deletions++;
+    }
+    file.patch = hunks.join("\n");
+    files.push(file);
+  }
+  return files;
+}
+
+/**
+ * Split a patch into pieces of at most `maxChars`, on line boundaries, so a
+ * single huge file never has to be synced as one value. A line longer than
+ * `maxChars` is cut.
+ */
+export function chunkPatch(patch: string, maxChars: number): string[] {
+  if (!patch) return [];
+  const chunks: string[] = [];
+  let current = "";
+  for (const rawLine of patch.split("\n")) {
+    const line = rawLine.length > maxChars ? rawLine.slice(0, maxChars - 1) + "…" : rawLine;
+    if (current && current.length + line.length + 1 > maxChars) {
+      chunks.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n${line}` : line;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
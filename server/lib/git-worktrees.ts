@@ -0,0 +1,193 @@
+import { execFile } from "node:child_process";
+import { existsSync } from "node:fs";
+import { mkdir } from "node:fs/promises";
+import path from "node:path";
+import { promisify } from "node:util";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * One `git worktree` + branch per conversation, so concurrent agent runs
+ * don't edit the same checkout.
+ *
+ * Worktrees live outside the repository (WORKTREE_ROOT, default
+ * ../.organic-worktrees/<repo>/) on branches named organic/<conversation>.
+ * Work is brought back with merge (into the branch the main checkout is on),
+ * rebase (onto it) or discard. Merge and rebase abort cleanly on conflicts
+ * and leave everything as it was.
+ */
+
+export interface WorktreeInfo {
+  path: string;
+  branch: string;
+  baseBranch: string;
+  baseSha: string;
+}
+
+export interface WorktreeActionResult {
+  ok: boolean;
+  message: string;
+}
+
+export class GitError extends Error {
+  constructor(
+    message: string,
+    readonly stderr: string
+  ) {
+    super(message);
+    this.name = "GitError";
+  }
+}
+
+export class GitWorktrees {
+  readonly root: string;
+
+  constructor(
+    readonly repo: string,
+    root?: string
+  ) {
+    this.root =
+      root ||
+      path.join(path.dirname(repo), ".organic-worktrees", path.basename(repo));
+  }
+
+  private async git(cwd: string, args: string[]): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync("git", args, {
+        cwd,
+        maxBuffer: 16 * 1024 * 1024,
+      });
+      return stdout.trim();
+    } catch (err: any) {
+      const stderr = String(err?.stderr || err?.message || err).trim();
+      throw new GitError(`git ${args[0]} failed: ${stderr.split("\n")[0]}`, stderr);
+    }
+  }
+
+  // The full id: a shorter prefix could name another conversation's branch,
+  // which create() would then check out as if it were this one's
+  branchFor(conversationId: string): string {
+    return `organic/${conversationId}`;
+  }
+
+  pathFor(conversationId: string): string {
+    return path.join(this.root, conversationId);
+  }
+
+  async create(conversationId: string): Promise<WorktreeInfo> {
+    const branch = this.branchFor(conversationId);
+    const worktreePath = this.pathFor(conversationId);
+    const baseBranch = await this.git(this.repo, ["rev-parse", "--abbrev-ref", "HEAD"]);
+    const baseSha = await this.git(this.repo, ["rev-parse", "HEAD"]);
+
+    if (existsSync(worktreePath)) {
+      // Already there (e.g. created before a restart); reuse it
+      return { path: worktreePath, branch, baseBranch, baseSha };
+    }
+    await mkdir(this.root, { recursive: true });
+    const branchExists = await this.git(this.repo, [
+      "branch",
+      "--list",
+      branch,
+    ]);
+    await this.git(
+      this.repo,
+      branchExists
+        ? ["worktree", "add", worktreePath, branch]
+        : ["worktree", "add", "-b", branch, worktreePath, baseSha]
+    );
+    return { path: worktreePath, branch, baseBranch, baseSha };
+  }
+
+  // Commit whatever the agent left uncommitted so it travels with the branch
+  async commitPending(worktreePath: string, message: string): Promise<boolean> {
+    const status = await this.git(worktreePath, ["status", "--porcelain"]);
+    if (!status) return false;
+    await this.git(worktreePath, ["add", "-A"]);
+    await this.git(worktreePath, [
+      "-c",
+      "user.name=organic-software",
+      "-c",
+      "user.email=agent@organic-software.local",
+      "commit",
+      "-q",
+      "-m",
+      message,
+    ]);
+    return true;
+  }
+
+  async merge(info: WorktreeInfo): Promise<WorktreeActionResult> {
+    await this.commitPending(info.path, `Agent changes on ${info.branch}`);
+    const current = await this.git(this.repo, ["rev-parse", "--abbrev-ref", "HEAD"]);
+    if (current !== info.baseBranch) {
+      return {
+        ok: false,
+        message: `The main checkout is on ${current}, not ${info.baseBranch}.`,
+      };
+    }
+    try {
+      await this.git(this.repo, [
+        "-c",
+        "user.name=organic-software",
+        "-c",
+        "user.email=agent@organic-software.local",
+        "merge",
+        "--no-ff",
+        "--no-edit",
+        info.branch,
+      ]);
+    } catch (err) {
+      await this.git(this.repo, ["merge", "--abort"]).catch(() => {});
+      return {
+        ok: false,
+        message: `Merge failed, nothing changed: ${(err as Error).message}`,
+      };
+    }
+    await this.remove(info, { deleteBranch: true });
+    return { ok: true, message: `Merged ${info.branch} into ${info.baseBranch}` };
+  }
+
+  async rebase(info: WorktreeInfo): Promise<WorktreeActionResult & { baseSha?: string }> {
+    await this.commitPending(info.path, `Agent changes on ${info.branch}`);
+    const baseSha = await this.git(this.repo, ["rev-parse", info.baseBranch]);
+    try {
+      await this.git(info.path, ["rebase", baseSha]);
+    } catch (err) {
+      await this.git(info.path, ["rebase", "--abort"]).catch(() => {});
+      return {
+        ok: false,
+        message: `Rebase hit conflicts and was aborted: ${(err as Error).message}`,
+      };
+    }
+    return {
+      ok: true,
+      message: `Rebased ${info.branch} onto ${info.baseBranch}`,
+      baseSha,
+    };
+  }
+
+  async remove(
+    info: Pick<WorktreeInfo, "path" | "branch">,
+    options: { deleteBranch?: boolean } = {}
+  ): Promise<void> {
+    if (existsSync(info.path)) {
+      await this.git(this.repo, ["worktree", "remove", "--force", info.path]);
+    }
+    await this.git(this.repo, ["worktree", "prune"]);
+    if (options.deleteBranch) {
+      await this.git(this.repo, ["branch", "-D", info.branch]).catch(() => {});
+    }
+  }
+
+  // Bytes on disk, or null when the directory is gone or du failed
+  async diskUsage(worktreePath: string): Promise<number | null> {
+    if (!existsSync(worktreePath)) return null;
+    try {
+      const { stdout } = await execFileAsync("du", ["-sk", worktreePath]);
+      return Number(stdout.split(/\s+/)[0]) * 1024;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import type { init } from "@instantdb/node";
+import type { AppSchema } from "../../instant.schema";
+import { operatorEmails, serviceEmail } from "../../lib/identity";
+
+type InstantDB = ReturnType<typeof init<AppSchema>>;
+
+/**
+ * Sign the host's InstantDB client in as the service user.
+ *
+ * instant.perms.ts only lets the service user write heartbeats, logs, errors
+ * and assistant messages, so the handler and supervisor must call this before
+ * touching the database. The refresh token comes from INSTANTDB_HOST_TOKEN
+ * (create one with `npm run host-token`).
+ */
+export async function signInAsHost(
+  db: { auth: { signInWithToken: (token: string) => Promise<unknown> } },
+  who: string
+): Promise<boolean> {
+  const token = process.env.INSTANTDB_HOST_TOKEN;
+  if (!token) {
+    console.warn(
+      `⚠️ ${who}: INSTANTDB_HOST_TOKEN not set; permission rules will reject host writes`
+    );
+    return false;
+  }
+  try {
+    await db.auth.signInWithToken(token);
+    console.log(`🔐 ${who} signed in as ${serviceEmail()}`);
+    return true;
+  } catch (error) {
+    console.error(`❌ ${who}: host sign-in failed:`, error);
+    return false;
+  }
+}
+
+/**
+ * User ids of the operators (INSTANTDB_OPERATOR_EMAILS), who hear about the
+ * host itself: crash loops and recoveries. Empty when no operators are
+ * configured or none of them has signed in yet.
+ */
+export async function operatorUserIds(db: InstantDB): Promise<string[]> {
+  const emails = operatorEmails();
+  if (emails.length === 0) return [];
+  const res = await db.queryOnce({
+    $users: { $: { where: { email: { $in: emails } } } },
+  });
+  return res.data.$users.map((u) => u.id);
+}
@@ -0,0 +1,129 @@
+import type { StreamWriter } from "./stream-writer";
+
+/**
+ * Tracks the turns a handler is currently streaming so a shutdown can wait
+ * for them (drain) and checkpoint whatever is still running afterwards, and
+ * so the phone can cancel one.
+ *
+ * A turn that is interrupted (or cancelled) gets its partial text written
+ * as the final content with that status; the turn itself should check
+ * `interrupted` before writing its own result, since the model call may
+ * still settle after the abort. A turn that is already `finalizing` (its
+ * answer is complete and being written) is left to finish instead.
+ */
+
+export interface InFlightTurn {
+  messageId: string; // The user message being answered
+  assistantMessageId: string;
+  conversationId: string;
+  writer: StreamWriter;
+  abort: AbortController;
+  interrupted: boolean; // Finalized by interrupt(); the turn must not write
+  finalizing: boolean;
+}
+
+// Reject as soon as the signal aborts, even if the work itself is slow to
+// notice (an agent run winding down its subprocess)
+export function abortable<T>(signal: AbortSignal, work: Promise<T>): Promise<T> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    work.then(resolve, reject).finally(() =>
+      signal.removeEventListener("abort", onAbort)
+    );
+  });
+}
+
+export class InFlightTurns {
+  private turns = new Map<string, InFlightTurn>();
+  private waiters = new Set<() => void>();
+
+  get size(): number {
+    return this.turns.size;
+  }
+
+  list(): InFlightTurn[] {
+    return [...this.turns.values()];
+  }
+
+  forMessage(messageId: string): InFlightTurn | undefined {
+    return this.turns.get(messageId);
+  }
+
+  forAssistantMessage(assistantMessageId: string): InFlightTurn | undefined {
+    return this.list().find((t) => t.assistantMessageId === assistantMessageId);
+  }
+
+  track(
+    turn: Pick<InFlightTurn, "messageId" | "assistantMessageId" | "conversationId" | "writer">
+  ): InFlightTurn {
+    const tracked = {
+      ...turn,
+      abort: new AbortController(),
+      interrupted: false,
+      finalizing: false,
+    };
+    this.turns.set(turn.messageId, tracked);
+    return tracked;
+  }
+
+  release(messageId: string): void {
+    this.turns.delete(messageId);
+    if (this.turns.size === 0) {
+      for (const wake of this.waiters) wake();
+      this.waiters.clear();
+    }
+  }
+
+  // Wait up to graceMs for every turn to finish; returns those still running
+  async drain(graceMs: number): Promise<InFlightTurn[]> {
+    if (this.turns.size > 0 && graceMs > 0) {
+      let timer: NodeJS.Timeout | undefined;
+      await new Promise<void>((resolve) => {
+        this.waiters.add(resolve);
+        timer = setTimeout(resolve, graceMs);
+      });
+      clearTimeout(timer);
+    }
+    return this.list();
+  }
+
+  /**
+   * Stop a turn and keep what it produced: the partial text becomes the
+   * message content and the message stops streaming.
+   */
+  async interrupt(
+    turn: InFlightTurn,
+    reason: string,
+    status: "interrupted" | "cancelled" = "interrupted"
+  ): Promise<string> {
+    turn.interrupted = true;
+    turn.abort.abort(new Error(reason));
+    await turn.writer.finish((content, metrics) => ({
+      content,
+      finalContent: content,
+      status,
+      isStreaming: false,
+      errorMessage: reason,
+      metadata: {
+        replyTo: turn.messageId,
+        [`${status}At`]: Date.now(),
+        streamMetrics: metrics,
+      },
+    }));
+    this.release(turn.messageId);
+    return turn.writer.text;
+  }
+
+  // Interrupt everything not already finalizing, then give those a moment
+  async interruptRemaining(
+    reason: string,
+    settleMs = 5_000
+  ): Promise<InFlightTurn[]> {
+    const stopped = this.list().filter((t) => !t.finalizing);
+    await Promise.all(stopped.map((t) => this.interrupt(t, reason)));
+    await this.drain(settleMs);
+    return stopped;
+  }
+}
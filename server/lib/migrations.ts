@@ -0,0 +1,175 @@
+import { id, type init } from "@instantdb/node";
+import os from "os";
+import type { AppSchema } from "../../instant.schema";
+
+type InstantDB = ReturnType<typeof init<AppSchema>>;
+
+/**
+ * Schema version tracking + data migrations for InstantDB.
+ *
+ * InstantDB applies attribute changes from instant.schema.ts itself (via
+ * `npx instant-cli push`), but existing rows are never rewritten. Anything
+ * that needs old data to match the current schema lives in a numbered
+ * migration under server/migrations/, and the highest version applied is
+ * recorded in the `schemaMeta` entity (key "schema").
+ *
+ * The handler compares that version with the one it was built for
+ * (SCHEMA_VERSION) and refuses to start on a mismatch.
+ */
+
+export interface MigrationContext {
+  db: InstantDB;
+  dryRun: boolean;
+  log: (message: string) => void;
+  // Apply transaction chunks in batches (no-op in dry-run mode)
+  transact: (chunks: any[]) => Promise<number>;
+}
+
+export interface Migration {
+  version: number;
+  name: string;
+  description: string;
+  up: (ctx: MigrationContext) => Promise<void>;
+}
+
+export interface SchemaState {
+  id: string;
+  version: number;
+  appliedAt?: number;
+  appliedBy?: string;
+  history: { version: number; name: string; appliedAt: number }[];
+}
+
+export interface MigrationRunResult {
+  from: number;
+  to: number;
+  applied: string[];
+  dryRun: boolean;
+}
+
+export interface SchemaCheck {
+  ok: boolean;
+  expected: number;
+  current: number;
+  message: string;
+}
+
+const SCHEMA_KEY = "schema";
+const BATCH_SIZE = 100;
+
+export async function readSchemaState(
+  db: InstantDB
+): Promise<SchemaState | null> {
+  const res = await db.queryOnce({
+    schemaMeta: { $: { where: { key: SCHEMA_KEY } } },
+  });
+  const row = res.data.schemaMeta[0];
+  if (!row) return null;
+  return {
+    id: row.id,
+    version: row.version || 0,
+    appliedAt: row.appliedAt,
+    appliedBy: row.appliedBy,
+    history: row.history || [],
+  };
+}
+
+// Versions must be unique and strictly increasing in registry order
+export function validateMigrations(migrations: Migration[]): void {
+  let last = 0;
+  for (const m of migrations) {
+    if (m.version <= last) {
+      throw new Error(
+        `Migration ${m.version} (${m.name}) is out of order; expected > ${last}`
+      );
+    }
+    last = m.version;
+  }
+}
+
+export function latestVersion(migrations: Migration[]): number {
+  return migrations.length ? migrations[migrations.length - 1]!.version : 0;
+}
+
+/**
+ * Apply every migration newer than the recorded version, in order. The
+ * version is written after each migration so a failure part-way leaves the
+ * database at the last migration that completed (migrations are expected to
+ * be idempotent, so re-running a half-applied one is safe).
+ */
+export async function runMigrations(
+  db: InstantDB,
+  migrations: Migration[],
+  options: { dryRun?: boolean; to?: number; log?: (m: string) => void } = {}
+): Promise<MigrationRunResult> {
+  validateMigrations(migrations);
+  const dryRun = options.dryRun ?? false;
+  const log = options.log ?? ((m: string) => console.log(m));
+  const target = options.to ?? latestVersion(migrations);
+
+  const state = await readSchemaState(db);
+  const from = state?.version ?? 0;
+  const stateId = state?.id ?? id();
+  const history = [...(state?.history ?? [])];
+  const applied: string[] = [];
+
+  const transact = async (chunks: any[]) => {
+    if (dryRun || chunks.length === 0) return chunks.length;
+    for (let i = 0; i < chunks.length; i += BATCH_SIZE) {
+      await db.transact(chunks.slice(i, i + BATCH_SIZE));
+    }
+    return chunks.length;
+  };
+
+  let current = from;
+  for (const migration of migrations) {
+    if (migration.version <= from || migration.version > target) continue;
+
+    const label = `${migration.version} ${migration.name}`;
+    log(`➡️  ${dryRun ? "[dry-run] " : ""}Applying ${label}`);
+    await migration.up({
+      db,
+      dryRun,
+      log: (m) => log(`   ${m}`),
+      transact,
+    });
+    applied.push(label);
+    current = migration.version;
+
+    if (!dryRun) {
+      const appliedAt = Date.now();
+      history.push({ version: current, name: migration.name, appliedAt });
+      await db.transact([
+        db.tx.schemaMeta[stateId]!.update({
+          key: SCHEMA_KEY,
+          version: current,
+          appliedAt,
+          appliedBy: `${os.hostname()}:${process.pid}`,
+          history,
+        }),
+      ]);
+    }
+  }
+
+  return { from, to: current, applied, dryRun };
+}
+
+export async function checkSchemaVersion(
+  db: InstantDB,
+  expected: number
+): Promise<SchemaCheck> {
+  const current = (await readSchemaState(db))?.version ?? 0;
+  if (current === expected) {
+    return { ok: true, expected, current, message: `schema v${current}` };
+  }
+  const hint =
+    current < expected
+      ? "run `npm run migrate` to upgrade the database"
+      : "this handler is older than the database; update the code";
+  return {
+    ok: false,
+    expected,
+    current,
+    message: `Database schema is v${current}, handler expects v${expected}: ${hint}`,
+  };
+}
@@ -0,0 +1,218 @@
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { streamText, type LanguageModel } from "ai";
+import fs from "fs";
+import path from "path";
+import { createLiteLLM } from "./litellm-provider";
+import { createOpenAIProxy } from "./openai-proxy-provider";
+
+/**
+ * Provider registry + model routing for the message handler.
+ *
+ * Models are addressed as "<provider>:<modelId>" (e.g. "litellm:claude-sonnet-4",
+ * "openai-proxy:gpt-4o"); a bare model ID uses the default model's provider.
+ * Providers and the fallback chain come from config/models.json (override the
+ * path with MODEL_CONFIG). When a provider fails before producing any output,
+ * the next model in the chain is tried. `roles` names the models for
+ * housekeeping jobs (e.g. "summary": a cheap model for titles and summaries).
+ */
+
+export interface ProviderConfig {
+  type: "litellm" | "openai-proxy" | "openai-compatible";
+  baseURL?: string;
+  apiKey?: string; // Literal key, or a .json path for openai-proxy
+  apiKeyEnv?: string; // Read the key from this environment variable
+  headers?: Record<string, string>;
+}
+
+export interface ModelRouterConfig {
+  defaultModel: string;
+  fallbacks?: string[];
+  providers: Record<string, ProviderConfig>;
+  roles?: Record<string, string>; // Job name → model spec
+}
+
+export interface ModelCandidate {
+  spec: string; // Normalized "<provider>:<modelId>"
+  provider: string;
+  modelId: string;
+  model: LanguageModel;
+}
+
+export interface ModelAttempt {
+  spec: string;
+  error: string;
+}
+
+const DEFAULT_CONFIG: ModelRouterConfig = {
+  defaultModel: "litellm:claude-3-7-sonnet",
+  fallbacks: [],
+  providers: { litellm: { type: "litellm" } },
+};
+
+type ProviderFactory = (modelId: string) => LanguageModel;
+
+export class ModelRouter {
+  private factories = new Map<string, ProviderFactory>();
+
+  constructor(private config: ModelRouterConfig = DEFAULT_CONFIG) {}
+
+  static fromConfigFile(configPath?: string): ModelRouter {
+    const p =
+      configPath ||
+      process.env.MODEL_CONFIG ||
+      path.join(process.cwd(), "config", "models.json");
+    try {
+      const raw = JSON.parse(fs.readFileSync(p, "utf8"));
+      return new ModelRouter({ ...DEFAULT_CONFIG, ...raw });
+    } catch (err) {
+      console.warn(`⚠️ Could not load model config ${p}, using defaults`);
+      return new ModelRouter(DEFAULT_CONFIG);
+    }
+  }
+
+  get defaultModel(): string {
+    return this.config.defaultModel;
+  }
+
+  // Model configured for a job, if any; pass it to candidates() so the
+  // default and fallbacks still apply when it fails
+  forRole(role: string): string | undefined {
+    return this.config.roles?.[role];
+  }
+
+  // "claude-sonnet-4" → "litellm:claude-sonnet-4"
+  normalize(spec: string): string {
+    if (spec.includes(":")) return spec;
+    const defaultProvider = this.config.defaultModel.split(":")[0] || "litellm";
+    return `${defaultProvider}:${spec}`;
+  }
+
+  private factory(providerName: string): ProviderFactory {
+    const cached = this.factories.get(providerName);
+    if (cached) return cached;
+
+    const cfg = this.config.providers[providerName];
+    if (!cfg) throw new Error(`Unknown model provider "${providerName}"`);
+    const apiKey = cfg.apiKeyEnv ? process.env[cfg.apiKeyEnv] : cfg.apiKey;
+
+    let factory: ProviderFactory;
+    switch (cfg.type) {
+      case "litellm":
+        factory = createLiteLLM({
+          baseURL: cfg.baseURL,
+          apiKey,
+          headers: cfg.headers,
+        });
+        break;
+      case "openai-proxy":
+        factory = createOpenAIProxy({
+          baseURL: cfg.baseURL,
+          apiKey,
+          headers: cfg.headers,
+        });
+        break;
+      case "openai-compatible":
+        if (!cfg.baseURL) {
+          throw new Error(`Provider "${providerName}" needs a baseURL`);
+        }
+        factory = createOpenAICompatible({
+          name: providerName,
+          baseURL: cfg.baseURL,
+          ...(apiKey ? { apiKey } : {}),
+          headers: cfg.headers,
+        });
+        break;
+      default:
+        throw new Error(
+          `Unsupported provider type "${(cfg as any).type}" for "${providerName}"`
+        );
+    }
+    this.factories.set(providerName, factory);
+    return factory;
+  }
+
+  resolve(spec: string): ModelCandidate {
+    const normalized = this.normalize(spec);
+    const sep = normalized.indexOf(":");
+    const provider = normalized.slice(0, sep);
+    const modelId = normalized.slice(sep + 1);
+    return {
+      spec: normalized,
+      provider,
+      modelId,
+      model: this.factory(provider)(modelId),
+    };
+  }
+
+  /**
+   * Ordered, de-duplicated list of models to try: the requested model, then
+   * the default, then the configured fallbacks. Providers that can't be
+   * constructed (missing key file, bad config) are skipped with a warning.
+   */
+  candidates(requested?: string | null): ModelCandidate[] {
+    const specs = [
+      ...(requested ? [requested] : []),
+      this.config.defaultModel,
+      ...(this.config.fallbacks || []),
+    ].map((s) => this.normalize(s));
+
+    const result: ModelCandidate[] = [];
+    for (const spec of [...new Set(specs)]) {
+      try {
+        result.push(this.resolve(spec));
+      } catch (err) {
+        console.warn(`⚠️ Skipping model ${spec}:`, (err as Error).message);
+      }
+    }
+    return result;
+  }
+}
+
+// Omitted from each prompt variant (prompt or messages) on its own, so
+// adding the model back gives streamText a variant it accepts
+type WithoutModel<P> = P extends unknown ? Omit<P, "model"> : never;
+export type StreamParams = WithoutModel<Parameters<typeof streamText>[0]>;
+
+export interface StreamWithFallbackResult {
+  candidate: ModelCandidate;
+  attempts: ModelAttempt[]; // Failed attempts before the one that worked
+}
+
+/**
+ * Stream text from the first model in the chain that works. A model that
+ * fails before emitting any text is skipped; once output has been delivered
+ * to `onText` an error is final, since retrying would duplicate content.
+ */
+export async function streamWithFallback(
+  router: ModelRouter,
+  requested: string | null | undefined,
+  params: StreamParams,
+  onText: (text: string) => void | Promise<void>
+): Promise<StreamWithFallbackResult> {
+  const attempts: ModelAttempt[] = [];
+
+  for (const candidate of router.candidates(requested)) {
+    let emitted = false;
+    try {
+      const result = streamText({ ...params, model: candidate.model });
+      for await (const part of result.fullStream) {
+        if (part.type === "text-delta") {
+          emitted = true;
+          await onText(part.text);
+        } else if (part.type === "error") {
+          throw part.error;
+        }
+      }
+      return { candidate, attempts };
+    } catch (err) {
+      // Cancelled on purpose: don't go on to the next model
+      if (emitted || params.abortSignal?.aborted) throw err;
+      const message = err instanceof Error ? err.message : String(err);
+      console.warn(`⚠️ Model ${candidate.spec} failed, trying next: ${message}`);
+      attempts.push({ spec: candidate.spec, error: message.slice(0, 300) });
+    }
+  }
+
+  const tried = attempts.map((a) => a.spec).join(", ") || "none available";
+  throw new Error(`All models failed (${tried})`);
+}
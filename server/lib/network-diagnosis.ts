@@ -0,0 +1,176 @@
+import { spawn } from "node:child_process";
+import dns from "node:dns/promises";
+import fs from "node:fs";
+import path from "node:path";
+import { expandVars } from "./process-manifest";
+
+/**
+ * Network diagnosis for the supervisor: when a managed process prints a
+ * network error, run the detectors configured for this machine and try the
+ * remediation of any detector that finds a problem.
+ *
+ * Config lives in config/network.json (override with NETWORK_CONFIG, e.g. a
+ * machine-local file). Strings may use ${VAR:-default}. Detector types:
+ *
+ *   dns      host doesn't resolve
+ *   http     url doesn't answer at all (any HTTP status counts as reachable)
+ *   command  output of a shell command matches `pattern` (without a
+ *            pattern: the command exits non-zero)
+ *
+ * A remediation is a shell command; it worked when its output matches
+ * `successPattern` (or, without one, when it exits 0).
+ */
+
+export interface RemediationConfig {
+  command: string;
+  successPattern?: string;
+  timeoutMs?: number; // Default 60s
+  settleMs?: number; // Wait before checking again (default 3s)
+  maxAttempts?: number; // Per problem episode, before giving up (default 3)
+}
+
+export type DetectorConfig = {
+  name: string;
+  description?: string; // Shown on the phone when it finds a problem
+  enabled?: boolean;
+  remediation?: RemediationConfig;
+} & (
+  | { type: "dns"; host: string }
+  | { type: "http"; url: string; timeoutMs?: number }
+  | { type: "command"; command: string; pattern?: string; timeoutMs?: number }
+);
+
+export interface NetworkConfig {
+  triggers: string[]; // Output that starts a diagnosis (plain substrings)
+  processes?: string[]; // Whose output to watch; default all
+  coolDownMs?: number; // Minimum time between diagnoses (default 60s)
+  detectors: DetectorConfig[];
+}
+
+export interface CheckResult {
+  detector: string;
+  type: DetectorConfig["type"];
+  ok: boolean; // No problem found
+  detail: string;
+  ms: number;
+}
+
+export interface RemediationResult {
+  detector: string;
+  command: string;
+  ok: boolean;
+  output: string;
+  ms: number;
+  verified?: boolean; // The detector passed afterwards
+}
+
+export const DEFAULT_NETWORK_CONFIG: NetworkConfig = {
+  triggers: ["TypeError: fetch failed", "UNDICI", "ECONNREFUSED", "ETIMEDOUT", "ENOTFOUND"],
+  coolDownMs: 60_000,
+  detectors: [],
+};
+
+export function networkConfigPath(): string {
+  return (
+    process.env.NETWORK_CONFIG ||
+    path.join(process.cwd(), "config", "network.json")
+  );
+}
+
+export function loadNetworkConfig(file = networkConfigPath()): NetworkConfig {
+  try {
+    const raw = JSON.parse(fs.readFileSync(file, "utf8"));
+    return { ...DEFAULT_NETWORK_CONFIG, ...raw };
+  } catch (err) {
+    console.warn(`⚠️ Could not load network config ${file}, using defaults`);
+    return DEFAULT_NETWORK_CONFIG;
+  }
+}
+
+// The trigger found in this output, if any
+export function matchTrigger(config: NetworkConfig, output: string): string | null {
+  return config.triggers.find((t) => output.includes(t)) ?? null;
+}
+
+function runShell(
+  command: string,
+  timeoutMs: number
+): Promise<{ code: number | null; output: string }> {
+  return new Promise((resolve) => {
+    let output = "";
+    const p = spawn(command, { shell: true, stdio: ["ignore", "pipe", "pipe"] });
+    const timer = setTimeout(() => {
+      output += `\n(timed out after ${timeoutMs}ms)`;
+      p.kill("SIGKILL");
+    }, timeoutMs);
+    const collect = (data: Buffer) => {
+      output = (output + data.toString()).slice(-8_000);
+    };
+    p.stdout?.on("data", collect);
+    p.stderr?.on("data", collect);
+    p.on("error", (err) => {
+      clearTimeout(timer);
+      resolve({ code: null, output: output + String(err) });
+    });
+    p.on("close", (code) => {
+      clearTimeout(timer);
+      resolve({ code, output: output.trim() });
+    });
+  });
+}
+
+export async function runDetector(detector: DetectorConfig): Promise<CheckResult> {
+  const started = Date.now();
+  const result = (ok: boolean, detail: string): CheckResult => ({
+    detector: detector.name,
+    type: detector.type,
+    ok,
+    detail,
+    ms: Date.now() - started,
+  });
+
+  try {
+    switch (detector.type) {
+      case "dns": {
+        const host = expandVars(detector.host);
+        const { address } = await dns.lookup(host);
+        return result(true, `${host} → ${address}`);
+      }
+      case "http": {
+        const url = expandVars(detector.url);
+        const res = await fetch(url, {
+          method: "HEAD",
+          signal: AbortSignal.timeout(detector.timeoutMs ?? 5_000),
+        });
+        return result(true, `${url} answered ${res.status}`);
+      }
+      case "command": {
+        const { code, output } = await runShell(
+          expandVars(detector.command),
+          detector.timeoutMs ?? 10_000
+        );
+        const problem = detector.pattern
+          ? new RegExp(detector.pattern).test(output)
+          : code !== 0;
+        const firstLine = output.split("\n").find(Boolean) || `exit ${code}`;
+        return result(!problem, problem ? firstLine : "no problem found");
+      }
+    }
+  } catch (err) {
+    const cause = (err as any)?.cause?.code || (err as Error)?.message || String(err);
+    return result(false, String(cause));
+  }
+}
+
+export async function runRemediation(
+  detector: string,
+  remediation: RemediationConfig
+): Promise<RemediationResult> {
+  const started = Date.now();
+  const command = expandVars(remediation.command);
+  const { code, output } = await runShell(command, remediation.timeoutMs ?? 60_000);
+  const ok = remediation.successPattern
+    ? new RegExp(remediation.successPattern).test(output)
+    : code === 0;
+  return { detector, command, ok, output, ms: Date.now() - started };
+}
@@ -81,5 +81,10 @@ export function createOpenAIProxy(options: OpenAIProxyProviderSettings = {}) {
   });
 }
 
-// Export a default instance
-export const openaiProxy = createOpenAIProxy();
+// Export a default instance, created on first use so that importing this
+// module (e.g. from the model router) doesn't require the API key file
+let defaultInstance: ReturnType<typeof createOpenAIProxy> | null = null;
+export const openaiProxy = (modelId: OpenAIProxyModelIds) => {
+  defaultInstance ??= createOpenAIProxy();
+  return defaultInstance(modelId);
+};
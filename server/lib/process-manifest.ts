@@ -0,0 +1,154 @@
+import fs from "node:fs";
+import path from "node:path";
+
+/**
+ * The processes the supervisor keeps running, from config/processes.json
+ * (override the path with PROCESS_CONFIG).
+ *
+ * Every string in the manifest may reference environment variables as
+ * ${NAME} or ${NAME:-default}; ${port} in `args`, `env` and HTTP probe URLs
+ * is the port picked from `port.candidates`. Processes start in dependency
+ * order: one with `dependsOn` waits until those are ready (see `ready`).
+ *
+ * A process that keeps failing (exits or health check restarts) opens its
+ * circuit: no more restarts until the cool-down has passed, then one trial
+ * run. If that run stays up for `backoff.resetAfterMs` the circuit closes;
+ * if not, it opens again with twice the cool-down.
+ */
+
+export type HealthCheck =
+  // Restart when the heartbeat of this kind is older than staleMs
+  | { type: "heartbeat"; kind: string; staleMs?: number }
+  // Restart when the URL stops answering with a 2xx/3xx
+  | { type: "http"; url: string; timeoutMs?: number }
+  // Restart when a line of output matches
+  | { type: "log"; pattern: string; flags?: string };
+
+export interface ProcessConfig {
+  name: string;
+  command: string;
+  args?: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  enabled?: boolean; // Listed but not started when false
+  port?: { candidates: (number | string)[] }; // First free one becomes ${port}
+  health?: HealthCheck & {
+    intervalMs?: number; // Between checks (default 10s)
+    graceMs?: number; // After a start, before checks begin (default 20s)
+    failures?: number; // Consecutive failures before a restart (default 1)
+  };
+  ready?: { pattern: string }; // Ready once output matches; otherwise when running
+  restart?: "always" | "on-failure" | "never";
+  backoff?: {
+    initialMs?: number;
+    maxMs?: number;
+    resetAfterMs?: number; // Uptime after which the backoff starts over
+  };
+  // Too many unexpected exits in a row stop the restarts for a cool-down
+  circuitBreaker?: {
+    restarts?: number; // Failures within windowMs that open the circuit (default 5)
+    windowMs?: number; // Default 2 minutes
+    coolDownMs?: number; // First pause before trying again; doubles each time (default 1 minute)
+    maxCoolDownMs?: number; // Default 30 minutes
+  };
+  crashReportLines?: number; // Lines of stderr kept for crash reports (default 50)
+  stopSignal?: NodeJS.Signals; // Sent to stop it (default SIGTERM)
+  stopTimeoutMs?: number; // Then SIGKILL if it hasn't exited (default 10s)
+  dependsOn?: string[];
+  bundleErrors?: boolean; // Expo bundler: report build errors to the errors table
+}
+
+export interface ProcessManifest {
+  processes: ProcessConfig[];
+}
+
+export class ManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ManifestError";
+  }
+}
+
+export function manifestPath(): string {
+  return (
+    process.env.PROCESS_CONFIG ||
+    path.join(process.cwd(), "config", "processes.json")
+  );
+}
+
+// "${EXPO_PORT:-8081}" → value of EXPO_PORT, or 8081 when unset or empty
+export function expandVars(
+  value: string,
+  vars: Record<string, string | undefined> = process.env
+): string {
+  return value.replace(
+    /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g,
+    (_, name: string, fallback?: string) => vars[name] || fallback || ""
+  );
+}
+
+export function validateManifest(manifest: ProcessManifest): ProcessManifest {
+  if (!Array.isArray(manifest?.processes)) {
+    throw new ManifestError('Manifest needs a "processes" array');
+  }
+  const names = new Set<string>();
+  for (const proc of manifest.processes) {
+    if (!proc.name || !proc.command) {
+      throw new ManifestError("Every process needs a name and a command");
+    }
+    if (names.has(proc.name)) {
+      throw new ManifestError(`Process "${proc.name}" is listed twice`);
+    }
+    names.add(proc.name);
+    if (proc.health?.type === "log" || proc.ready) {
+      const pattern = proc.health?.type === "log" ? proc.health.pattern : proc.ready!.pattern;
+      try {
+        new RegExp(pattern);
+      } catch {
+        throw new ManifestError(`Process "${proc.name}" has an invalid pattern: ${pattern}`);
+      }
+    }
+  }
+  for (const proc of manifest.processes) {
+    for (const dep of proc.dependsOn || []) {
+      if (!names.has(dep)) {
+        throw new ManifestError(`Process "${proc.name}" depends on unknown "${dep}"`);
+      }
+    }
+  }
+  startOrder(manifest.processes); // Throws on cycles
+  return manifest;
+}
+
+// Dependencies first; throws if they form a cycle
+export function startOrder(processes: ProcessConfig[]): ProcessConfig[] {
+  const byName = new Map(processes.map((p) => [p.name, p]));
+  const ordered: ProcessConfig[] = [];
+  const state = new Map<string, "visiting" | "done">();
+
+  const visit = (proc: ProcessConfig, trail: string[]) => {
+    if (state.get(proc.name) === "done") return;
+    if (state.get(proc.name) === "visiting") {
+      throw new ManifestError(`Dependency cycle: ${[...trail, proc.name].join(" → ")}`);
+    }
+    state.set(proc.name, "visiting");
+    for (const dep of proc.dependsOn || []) {
+      const next = byName.get(dep);
+      if (next) visit(next, [...trail, proc.name]);
+    }
+    state.set(proc.name, "done");
+    ordered.push(proc);
+  };
+  for (const proc of processes) visit(proc, []);
+  return ordered;
+}
+
+export function loadProcessManifest(file = manifestPath()): ProcessManifest {
+  let raw: ProcessManifest;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (err) {
+    throw new ManifestError(`Could not read ${file}: ${(err as Error).message}`);
+  }
+  return validateManifest(raw);
+}
@@ -0,0 +1,64 @@
+import type { init } from "@instantdb/node";
+import type { AppSchema } from "../../instant.schema";
+
+type InstantDB = ReturnType<typeof init<AppSchema>>;
+
+const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+
+export interface PushNotification {
+  title: string;
+  body: string;
+  data?: Record<string, any>; // Delivered to the app, e.g. { conversationId }
+  categoryId?: string; // iOS/Android notification category (action buttons)
+}
+
+/**
+ * Send an Expo push notification to every registered device of `userId`.
+ * Nothing is sent without a user: devices belong to different people.
+ * Best-effort: returns the number of devices targeted and never throws.
+ */
+export async function sendPushToUser(
+  db: InstantDB,
+  userId: string | undefined,
+  notification: PushNotification
+): Promise<number> {
+  if (!userId) return 0;
+  try {
+    const res = await db.queryOnce({
+      devices: { $: { where: { userId } } },
+    });
+    const tokens = [
+      ...new Set(
+        res.data.devices
+          .map((d) => d.pushToken)
+          .filter((t): t is string => typeof t === "string")
+      ),
+    ];
+    if (tokens.length === 0) return 0;
+
+    await fetch(EXPO_PUSH_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(
+        tokens.map((to) => ({
+          to,
+          title: notification.title,
+          body: notification.body,
+          data: notification.data || {},
+          ...(notification.categoryId
+            ? { categoryId: notification.categoryId }
+            : {}),
+        }))
+      ),
+    });
+    return tokens.length;
+  } catch (err) {
+    console.warn("⚠️ Failed to send Expo push:", err);
+    return 0;
+  }
+}
+
+// Collapse whitespace and cut to a notification-sized preview
+export function pushSnippet(text: string, max = 140): string {
+  return (text || "").replace(/\s+/g, " ").trim().slice(0, max);
+}
@@ -0,0 +1,144 @@
+/**
+ * Coalesces streamed model output into a small number of InstantDB writes.
+ *
+ * Writing every token chunk (and the whole growing text each time) costs
+ * O(n²) bytes over a long answer and floods the sync connection. Instead,
+ * chunks are buffered and flushed when either the time window or the size
+ * window is reached. Each flush carries only the text appended since the last
+ * one, keyed by a zero-padded sequence number so clients can rebuild the
+ * stream in order (see joinStreamDeltas).
+ *
+ * finish() always flushes what is left and then writes the final state, so
+ * the full content never depends on the batching.
+ */
+
+export interface StreamWriterOptions {
+  intervalMs?: number; // Flush at most this long after the first buffered chunk
+  maxBytes?: number; // Flush immediately once this much text is buffered
+}
+
+export interface StreamWriterMetrics {
+  chunks: number; // Chunks received from the model
+  writes: number; // Writes sent to the database (deltas + final)
+  bytesSent: number; // Serialized payload bytes across all writes
+  chars: number; // Characters of content produced
+  durationMs: number;
+}
+
+// "delta" payloads should be merged into the message, "final" ones updated
+type WriteFn = (
+  payload: Record<string, any>,
+  kind: "delta" | "final"
+) => Promise<void>;
+
+const SEQ_WIDTH = 6;
+
+export function deltaKey(seq: number): string {
+  return String(seq).padStart(SEQ_WIDTH, "0");
+}
+
+// Clients rebuild the text with joinStreamDeltas (shared with the mobile app)
+export { joinStreamDeltas } from "../../lib/data-model";
+
+export class StreamWriter {
+  private buffer = "";
+  private content = "";
+  private seq = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private chain: Promise<void> = Promise.resolve();
+  private startedAt = Date.now();
+  private stats = { chunks: 0, writes: 0, bytesSent: 0 };
+  private intervalMs: number;
+  private maxBytes: number;
+
+  constructor(
+    private write: WriteFn,
+    options: StreamWriterOptions = {}
+  ) {
+    this.intervalMs = options.intervalMs ?? 250;
+    this.maxBytes = options.maxBytes ?? 2048;
+  }
+
+  get text(): string {
+    return this.content;
+  }
+
+  push(chunk: string): Promise<void> {
+    if (!chunk) return this.chain;
+    this.stats.chunks += 1;
+    this.content += chunk;
+    this.buffer += chunk;
+
+    if (Buffer.byteLength(this.buffer) >= this.maxBytes) {
+      return this.flush();
+    }
+    if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.flush().catch(() => {});
+      }, this.intervalMs);
+    }
+    return this.chain;
+  }
+
+  // Send whatever is buffered as one delta; writes never overlap
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (!this.buffer) return this.chain;
+
+    const payload = {
+      streamDeltas: { [deltaKey(this.seq)]: this.buffer },
+      streamSeq: this.seq + 1,
+    };
+    this.seq += 1;
+    this.buffer = "";
+    return this.enqueue(payload, "delta");
+  }
+
+  /**
+   * Flush remaining text, then write the final fields. `content` is always
+   * the complete text regardless of how deltas were batched; `metrics` cover
+   * the writes made so far (the final write is counted in the return value).
+   */
+  async finish(
+    finalFields: (
+      content: string,
+      metrics: StreamWriterMetrics
+    ) => Record<string, any>
+  ): Promise<StreamWriterMetrics> {
+    await this.flush();
+    await this.enqueue(finalFields(this.content, this.metrics()), "final");
+    return this.metrics();
+  }
+
+  metrics(): StreamWriterMetrics {
+    return {
+      ...this.stats,
+      chars: this.content.length,
+      durationMs: Date.now() - this.startedAt,
+    };
+  }
+
+  // Stop the timer without writing (e.g. the message failed)
+  dispose() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private enqueue(
+    payload: Record<string, any>,
+    kind: "delta" | "final"
+  ): Promise<void> {
+    const run = async () => {
+      this.stats.writes += 1;
+      this.stats.bytesSent += Buffer.byteLength(JSON.stringify(payload));
+      await this.write(payload, kind);
+    };
+    this.chain = this.chain.then(run, run);
+    return this.chain;
+  }
+}
@@ -0,0 +1,24 @@
+import type { Migration } from "../lib/migrations";
+
+// Messages written before the queue existed have no status. Without one the
+// handler can't tell answered messages from new ones, so mark them done.
+const migration: Migration = {
+  version: 1,
+  name: "message-status",
+  description: 'Set status "completed" on messages that have none',
+  async up({ db, transact, log }) {
+    const res = await db.queryOnce({ messages: {} });
+    const missing = res.data.messages.filter((m) => !m.status);
+    const count = await transact(
+      missing.map((m) =>
+        db.tx.messages[m.id]!.update({
+          status: "completed",
+          isStreaming: false,
+        })
+      )
+    );
+    log(`${count} of ${res.data.messages.length} messages updated`);
+  },
+};
+
+export default migration;
@@ -0,0 +1,48 @@
+import type { Migration } from "../lib/migrations";
+
+// Early transcription builds wrote Date.now() numbers into fields that the
+// schema now declares as i.date(). Rewrite them as ISO strings.
+const TRANSCRIPTION_FIELDS = ["startedAt", "endedAt", "createdAt", "updatedAt"];
+const SEGMENT_FIELDS = ["createdAt", "updatedAt"];
+
+function toDate(value: number): string {
+  // Anything below 1e12 is seconds rather than milliseconds since epoch
+  return new Date(value < 1e12 ? value * 1000 : value).toISOString();
+}
+
+function numericDates(row: Record<string, any>, fields: string[]) {
+  const updates: Record<string, string> = {};
+  for (const field of fields) {
+    if (typeof row[field] === "number") updates[field] = toDate(row[field]);
+  }
+  return Object.keys(updates).length ? updates : null;
+}
+
+const migration: Migration = {
+  version: 2,
+  name: "transcription-dates",
+  description: "Convert numeric createdAt/updatedAt/startedAt/endedAt to dates",
+  async up({ db, transact, log }) {
+    const res = await db.queryOnce({ transcriptions: {}, segments: {} });
+
+    const chunks: any[] = [];
+    for (const t of res.data.transcriptions) {
+      const updates = numericDates(t, TRANSCRIPTION_FIELDS);
+      if (updates) chunks.push(db.tx.transcriptions[t.id]!.update(updates));
+    }
+    const transcriptionCount = chunks.length;
+    for (const s of res.data.segments) {
+      const updates = numericDates(s, SEGMENT_FIELDS);
+      if (updates) chunks.push(db.tx.segments[s.id]!.update(updates));
+    }
+
+    await transact(chunks);
+    log(
+      `${transcriptionCount} transcriptions, ${
+        chunks.length - transcriptionCount
+      } segments converted`
+    );
+  },
+};
+
+export default migration;
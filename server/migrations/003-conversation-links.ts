@@ -0,0 +1,51 @@
+import type { Migration } from "../lib/migrations";
+
+// Messages and issues only carried a conversationId/messageId string before
+// the schema declared links. Link existing rows so `conversations.messages`
+// and `conversations.issues` queries return the full history.
+const migration: Migration = {
+  version: 3,
+  name: "conversation-links",
+  description: "Link messages and issues to their conversation and message",
+  async up({ db, transact, log }) {
+    const res = await db.queryOnce({
+      conversations: {},
+      messages: { conversation: {} },
+      issues: { conversation: {}, message: {} },
+    });
+    const conversationIds = new Set(res.data.conversations.map((c) => c.id));
+    const messageIds = new Set(res.data.messages.map((m) => m.id));
+
+    const chunks: any[] = [];
+    for (const m of res.data.messages) {
+      if (m.conversation || !conversationIds.has(m.conversationId)) continue;
+      chunks.push(
+        db.tx.messages[m.id]!.link({ conversation: m.conversationId })
+      );
+    }
+    const messageLinks = chunks.length;
+    for (const issue of res.data.issues) {
+      const links: Record<string, string> = {};
+      if (
+        !issue.conversation &&
+        issue.conversationId &&
+        conversationIds.has(issue.conversationId)
+      ) {
+        links.conversation = issue.conversationId;
+      }
+      if (!issue.message && issue.messageId && messageIds.has(issue.messageId)) {
+        links.message = issue.messageId;
+      }
+      if (Object.keys(links).length) {
+        chunks.push(db.tx.issues[issue.id]!.link(links));
+      }
+    }
+
+    await transact(chunks);
+    log(
+      `${messageLinks} messages and ${chunks.length - messageLinks} issues linked`
+    );
+  },
+};
+
+export default migration;
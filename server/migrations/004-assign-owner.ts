@@ -0,0 +1,55 @@
+import type { Migration } from "../lib/migrations";
+
+// Rows written before the perms rules have no userId, which makes them
+// invisible to everyone but the host. Hand them to MIGRATE_OWNER_EMAIL.
+const OWNED = [
+  "conversations",
+  "messages",
+  "devices",
+  "userSettings",
+  "transcriptions",
+] as const;
+
+const migration: Migration = {
+  version: 4,
+  name: "assign-owner",
+  description: "Set userId on unowned rows (MIGRATE_OWNER_EMAIL)",
+  async up({ db, transact, log }) {
+    const email = process.env.MIGRATE_OWNER_EMAIL?.trim().toLowerCase();
+    if (!email) {
+      throw new Error(
+        "Set MIGRATE_OWNER_EMAIL to the account that should own existing data"
+      );
+    }
+    const users = await db.queryOnce({
+      $users: { $: { where: { email } } },
+    });
+    const owner = users.data.$users[0];
+    if (!owner) {
+      throw new Error(`No user ${email}; sign in from the app once first`);
+    }
+
+    const res = await db.queryOnce({
+      conversations: {},
+      messages: {},
+      devices: {},
+      userSettings: {},
+      transcriptions: {},
+    });
+    for (const entity of OWNED) {
+      const rows = res.data[entity] as { id: string; userId?: string }[];
+      // "mobile-user" was the placeholder App.tsx used before sign-in existed
+      const unowned = rows.filter(
+        (row) => !row.userId || row.userId === "mobile-user"
+      );
+      const count = await transact(
+        unowned.map((row) =>
+          (db.tx[entity] as any)[row.id].update({ userId: owner.id })
+        )
+      );
+      log(`${entity}: ${count} assigned to ${email}`);
+    }
+  },
+};
+
+export default migration;
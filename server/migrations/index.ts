@@ -0,0 +1,16 @@
+import { latestVersion, type Migration } from "../lib/migrations";
+import messageStatus from "./001-message-status";
+import transcriptionDates from "./002-transcription-dates";
+import conversationLinks from "./003-conversation-links";
+import assignOwner from "./004-assign-owner";
+
+// Append new migrations here; never edit or reorder ones that have shipped
+export const migrations: Migration[] = [
+  messageStatus,
+  transcriptionDates,
+  conversationLinks,
+  assignOwner,
+];
+
+// Schema version this code expects the database to be at
+export const SCHEMA_VERSION = latestVersion(migrations);
@@ -0,0 +1,280 @@
+import type { CanUseTool, PermissionResult } from "@anthropic-ai/claude-code";
+import { id, type init } from "@instantdb/node";
+import type { AppSchema } from "../../instant.schema";
+import { pushSnippet, sendPushToUser } from "../lib/push";
+
+type InstantDB = ReturnType<typeof init<AppSchema>>;
+
+/**
+ * Phone-side approval of agent tool use.
+ *
+ * Claude Code asks `canUseTool` before every tool call. Read-only tools are
+ * allowed straight away; anything that writes files, runs commands or
+ * reaches out is written to the `approvals` entity with a preview (command
+ * line or diff), the owner's phone gets a push, and the agent waits until
+ * the approval is answered. Unanswered requests deny after the
+ * conversation's timeout, so walking away never means "yes".
+ *
+ *   pending → approved | denied     (answered on the phone)
+ *   pending → expired               (timeout, run cancelled, host restart)
+ */
+
+export interface ApprovalContext {
+  conversationId: string;
+  messageId?: string;
+  userId?: string; // Conversation owner; gets the push and may answer
+  timeoutMs?: number; // Per-conversation override of the default
+}
+
+export interface ApprovalGateOptions {
+  defaultTimeoutMs?: number;
+  autoAllow?: string[]; // Extra tool names that never need approval
+}
+
+// Tools that only read local state; everything else, including web access
+// (WebSearch, WebFetch), needs a human unless listed in `autoAllow`
+export const READ_ONLY_TOOLS = [
+  "Read",
+  "Glob",
+  "Grep",
+  "LS",
+  "NotebookRead",
+  "TodoWrite",
+  "BashOutput",
+  "ExitPlanMode",
+];
+
+const MAX_PREVIEW_CHARS = 4000;
+const MAX_PREVIEW_LINES = 80;
+
+function prefixLines(text: string, prefix: string): string[] {
+  return String(text ?? "")
+    .split("\n")
+    .map((line) => `${prefix}${line}`);
+}
+
+function clip(lines: string[]): string {
+  const shown = lines.slice(0, MAX_PREVIEW_LINES);
+  if (lines.length > shown.length) {
+    shown.push(`… ${lines.length - shown.length} more lines`);
+  }
+  return shown.join("\n").slice(0, MAX_PREVIEW_CHARS);
+}
+
+// What the phone shows on the approval card
+export function describeToolUse(
+  toolName: string,
+  input: Record<string, any>
+): string {
+  switch (toolName) {
+    case "Bash":
+      return clip([
+        ...(input.description ? [`# ${input.description}`] : []),
+        ...prefixLines(input.command, "$ "),
+      ]);
+    case "Write":
+      return clip([
+        `${input.file_path} (new contents)`,
+        ...prefixLines(input.content, "+ "),
+      ]);
+    case "Edit":
+      return clip([
+        input.file_path,
+        ...prefixLines(input.old_string, "- "),
+        ...prefixLines(input.new_string, "+ "),
+      ]);
+    case "MultiEdit":
+      return clip([
+        input.file_path,
+        ...(input.edits || []).flatMap((edit: any, i: number) => [
+          `@@ edit ${i + 1}`,
+          ...prefixLines(edit.old_string, "- "),
+          ...prefixLines(edit.new_string, "+ "),
+        ]),
+      ]);
+    case "NotebookEdit":
+      return clip([
+        `${input.notebook_path} (${input.edit_mode || "replace"} cell)`,
+        ...prefixLines(input.new_source, "+ "),
+      ]);
+    case "WebFetch":
+      return clip([`GET ${input.url}`, ...(input.prompt ? [input.prompt] : [])]);
+    default:
+      return clip(JSON.stringify(input, null, 2).split("\n"));
+  }
+}
+
+export class ApprovalGate {
+  private defaultTimeoutMs: number;
+  private autoAllow: Set<string>;
+
+  constructor(
+    private db: InstantDB,
+    options: ApprovalGateOptions = {}
+  ) {
+    this.defaultTimeoutMs = options.defaultTimeoutMs ?? 5 * 60_000;
+    this.autoAllow = new Set([...READ_ONLY_TOOLS, ...(options.autoAllow || [])]);
+  }
+
+  needsApproval(toolName: string): boolean {
+    return !this.autoAllow.has(toolName);
+  }
+
+  // The canUseTool callback for one agent run
+  forConversation(context: ApprovalContext): CanUseTool {
+    return async (toolName, input, { signal }) => {
+      if (!this.needsApproval(toolName)) {
+        return { behavior: "allow", updatedInput: input };
+      }
+      return this.request(context, toolName, input, signal);
+    };
+  }
+
+  async request(
+    context: ApprovalContext,
+    toolName: string,
+    input: Record<string, any>,
+    signal?: AbortSignal
+  ): Promise<PermissionResult> {
+    const approvalId = id();
+    const now = Date.now();
+    const timeoutMs = context.timeoutMs ?? this.defaultTimeoutMs;
+    const preview = describeToolUse(toolName, input);
+
+    await this.db.transact([
+      this.db.tx.approvals[approvalId]!
+        .update({
+          conversationId: context.conversationId,
+          ...(context.messageId ? { messageId: context.messageId } : {}),
+          ...(context.userId ? { userId: context.userId } : {}),
+          toolName,
+          input,
+          preview,
+          status: "pending",
+          createdAt: now,
+          expiresAt: now + timeoutMs,
+        })
+        .link({ conversation: context.conversationId }),
+    ]);
+    console.log(`🛂 Waiting for approval of ${toolName} (${approvalId})`);
+
+    sendPushToUser(this.db, context.userId, {
+      title: `Approve ${toolName}?`,
+      body: pushSnippet(preview),
+      data: {
+        type: "approval",
+        approvalId,
+        conversationId: context.conversationId,
+      },
+    }).catch(() => {});
+
+    const decision = await this.waitForDecision(approvalId, timeoutMs, signal);
+    console.log(`🛂 ${toolName} ${decision.status} (${approvalId})`);
+
+    if (decision.status === "approved") {
+      return { behavior: "allow", updatedInput: input };
+    }
+    return {
+      behavior: "deny",
+      message:
+        decision.reason ||
+        (decision.status === "expired"
+          ? `Nobody approved ${toolName} in time; it was not run.`
+          : `The user denied ${toolName}.`),
+    };
+  }
+
+  /**
+   * Resolve once the approval leaves "pending". On timeout or abort we mark
+   * it expired ourselves, unless an answer landed in the meantime.
+   */
+  private waitForDecision(
+    approvalId: string,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<{ status: string; reason?: string }> {
+    return new Promise((resolve) => {
+      let settled = false;
+      let unsubscribe: (() => void) | null = null;
+
+      const finish = (result: { status: string; reason?: string }) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        unsubscribe?.();
+        resolve(result);
+      };
+
+      const expire = async (reason: string) => {
+        try {
+          const res = await this.db.queryOnce({
+            approvals: { $: { where: { id: approvalId } } },
+          });
+          const current = res.data.approvals[0];
+          if (current && current.status !== "pending") {
+            return finish({ status: current.status, reason: current.reason });
+          }
+          await this.db.transact([
+            this.db.tx.approvals[approvalId]!.update({
+              status: "expired",
+              reason,
+              decidedAt: Date.now(),
+              decidedBy: "timeout",
+            }),
+          ]);
+        } catch (err) {
+          console.warn(`⚠️ Could not expire approval ${approvalId}:`, err);
+        }
+        finish({ status: "expired", reason });
+      };
+
+      const onAbort = () => expire("The run was cancelled.");
+      const timer = setTimeout(
+        () =>
+          expire(
+            `No answer within ${Math.round(timeoutMs / 1000)}s; denied by default.`
+          ),
+        timeoutMs
+      );
+      if (signal?.aborted) return onAbort();
+      signal?.addEventListener("abort", onAbort);
+
+      unsubscribe = this.db.subscribeQuery(
+        { approvals: { $: { where: { id: approvalId } } } },
+        (resp) => {
+          const approval = resp.data?.approvals?.[0];
+          if (approval && approval.status !== "pending") {
+            finish({ status: approval.status, reason: approval.reason });
+          }
+        }
+      );
+      if (settled) unsubscribe();
+    });
+  }
+
+  // Requests left pending by a previous process can never be answered
+  async expireAbandoned(): Promise<number> {
+    try {
+      const res = await this.db.queryOnce({
+        approvals: { $: { where: { status: "pending" } } },
+      });
+      const stale = res.data.approvals;
+      if (stale.length === 0) return 0;
+      await this.db.transact(
+        stale.map((a) =>
+          this.db.tx.approvals[a.id]!.update({
+            status: "expired",
+            reason: "The host restarted before this was answered.",
+            decidedAt: Date.now(),
+            decidedBy: "host-restart",
+          })
+        )
+      );
+      return stale.length;
+    } catch (err) {
+      console.warn("⚠️ Could not expire abandoned approvals:", err);
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,264 @@
+import { id, type init } from "@instantdb/node";
+import { existsSync } from "node:fs";
+import type { AppSchema } from "../../instant.schema";
+import type { Checkpoint } from "../../lib/data-model";
+import { GitCheckpoints } from "../lib/git-checkpoints";
+
+type InstantDB = ReturnType<typeof init<AppSchema>>;
+
+/**
+ * Checkpoints of the agent's working tree, one per agent-driven message.
+ *
+ *   running → ready                    (snapshot before the run, tree after)
+ *   ready → rollbackRequested          (asked for from the phone)
+ *   rollbackRequested → rolledBack | refused
+ *
+ * A rollback is refused when the working tree no longer matches what the
+ * host last left behind (the tree after the latest run, or the tree of the
+ * latest rollback): that difference is somebody's uncommitted edits, and
+ * rolling back would silently throw them away. Before restoring, the current
+ * state is snapshotted too, so a rollback can itself be undone with git.
+ *
+ * Each checkpoint records its cwd, so conversations running in their own
+ * worktree (server/services/worktrees.ts) are checkpointed separately.
+ */
+
+export interface CheckpointContext {
+  conversationId: string;
+  cwd?: string; // Defaults to the service's cwd; a conversation worktree otherwise
+  messageId?: string;
+  userId?: string;
+  label?: string;
+}
+
+export interface RollbackResult {
+  ok: boolean;
+  reason?: string;
+  filesChanged?: number;
+}
+
+export class CheckpointService {
+  private repos = new Map<string, GitCheckpoints>();
+  private unsubscribeFn: (() => void) | null = null;
+  private rollbackChain: Promise<void> = Promise.resolve();
+  private rollbacksInFlight = new Set<string>();
+  private warnedNoRepo = new Set<string>();
+
+  constructor(
+    private db: InstantDB,
+    private cwd: string
+  ) {}
+
+  private git(cwd: string): GitCheckpoints {
+    let git = this.repos.get(cwd);
+    if (!git) {
+      git = new GitCheckpoints(cwd);
+      this.repos.set(cwd, git);
+    }
+    return git;
+  }
+
+  private async isRepo(cwd: string): Promise<boolean> {
+    const ok = await this.git(cwd).isRepo();
+    if (!ok && !this.warnedNoRepo.has(cwd)) {
+      console.warn(`⚠️ ${cwd} is not a git repository; checkpoints disabled`);
+      this.warnedNoRepo.add(cwd);
+    }
+    return ok;
+  }
+
+  /**
+   * Snapshot the working tree before an agent run. Best-effort: returns null
+   * (and the run goes ahead) when the snapshot can't be taken.
+   */
+  async begin(context: CheckpointContext): Promise<string | null> {
+    const cwd = context.cwd || this.cwd;
+    if (!(await this.isRepo(cwd))) return null;
+    const checkpointId = id();
+    const label = (context.label || "").replace(/\s+/g, " ").trim().slice(0, 80);
+    try {
+      const snap = await this.git(cwd).snapshot(
+        checkpointId,
+        `checkpoint before agent run: ${label || context.conversationId}`
+      );
+      await this.db.transact([
+        this.db.tx.checkpoints[checkpointId]!
+          .update({
+            conversationId: context.conversationId,
+            ...(context.messageId ? { messageId: context.messageId } : {}),
+            ...(context.userId ? { userId: context.userId } : {}),
+            ...(label ? { label } : {}),
+            cwd,
+            sha: snap.sha,
+            tree: snap.tree,
+            ...(snap.head ? { head: snap.head } : {}),
+            status: "running",
+            createdAt: Date.now(),
+          })
+          .link({ conversation: context.conversationId }),
+        ...(context.messageId
+          ? [this.db.tx.messages[context.messageId]!.update({ checkpointId })]
+          : []),
+      ]);
+      console.log(`📸 Checkpoint ${snap.sha.slice(0, 8)} (${snap.ref})`);
+      return checkpointId;
+    } catch (err) {
+      console.warn("⚠️ Could not take checkpoint:", err);
+      return null;
+    }
+  }
+
+  // Record what the run left behind; rollbacks compare against this
+  async complete(checkpointId: string, cwd = this.cwd): Promise<void> {
+    try {
+      const afterTree = await this.git(cwd).currentTree();
+      await this.db.transact([
+        this.db.tx.checkpoints[checkpointId]!.update({
+          status: "ready",
+          afterTree,
+          completedAt: Date.now(),
+        }),
+      ]);
+    } catch (err) {
+      console.warn(`⚠️ Could not complete checkpoint ${checkpointId}:`, err);
+    }
+  }
+
+  private async listForCwd(cwd: string): Promise<Checkpoint[]> {
+    const res = await this.db.queryOnce({
+      checkpoints: { $: { where: { cwd } } },
+    });
+    return res.data.checkpoints;
+  }
+
+  // The tree the host last left in the working directory
+  private expectedTree(checkpoints: Checkpoint[]): string | null {
+    let latest: { at: number; tree: string } | null = null;
+    for (const c of checkpoints) {
+      if (c.completedAt && c.afterTree && (!latest || c.completedAt > latest.at)) {
+        latest = { at: c.completedAt, tree: c.afterTree };
+      }
+      if (c.rolledBackAt && (!latest || c.rolledBackAt > latest.at)) {
+        latest = { at: c.rolledBackAt, tree: c.tree };
+      }
+    }
+    return latest?.tree ?? null;
+  }
+
+  async rollback(checkpointId: string): Promise<RollbackResult> {
+    const res = await this.db.queryOnce({
+      checkpoints: { $: { where: { id: checkpointId } } },
+    });
+    const target = res.data.checkpoints[0];
+    if (!target) return { ok: false, reason: "Checkpoint not found." };
+    if (!existsSync(target.cwd)) {
+      return { ok: false, reason: `${target.cwd} no longer exists.` };
+    }
+    const git = this.git(target.cwd);
+    const checkpoints = await this.listForCwd(target.cwd);
+    if (checkpoints.some((c) => c.status === "running")) {
+      return { ok: false, reason: "An agent run is in progress; try again when it finishes." };
+    }
+
+    const current = await git.currentTree();
+    const expected = this.expectedTree(checkpoints);
+    if (expected && current !== expected) {
+      return {
+        ok: false,
+        reason:
+          "Files changed since the last agent run. Commit or discard those edits, then try again.",
+      };
+    }
+
+    const undo = await git.snapshot(
+      `${checkpointId}-undo-${Date.now()}`,
+      `working tree before rolling back to ${target.sha}`
+    );
+    const restored = await git.restore(target.tree);
+    const filesChanged = restored.written.length + restored.deleted.length;
+    console.log(
+      `⏪ Rolled back to ${target.sha.slice(0, 8)}: ${filesChanged} files (undo: ${undo.ref})`
+    );
+    return { ok: true, filesChanged };
+  }
+
+  private async handleRollbackRequest(checkpointId: string): Promise<void> {
+    let result: RollbackResult;
+    try {
+      result = await this.rollback(checkpointId);
+    } catch (err) {
+      result = { ok: false, reason: `Rollback failed: ${String(err).slice(0, 300)}` };
+    }
+    if (!result.ok) console.warn(`⚠️ Rollback of ${checkpointId} refused: ${result.reason}`);
+    await this.db.transact([
+      this.db.tx.checkpoints[checkpointId]!.update(
+        result.ok
+          ? {
+              status: "rolledBack",
+              rolledBackAt: Date.now(),
+              filesChanged: result.filesChanged,
+              reason: "",
+            }
+          : { status: "refused", reason: result.reason }
+      ),
+    ]);
+  }
+
+  // Runs left "running" by a previous process ended with whatever is on disk
+  async recoverInterrupted(): Promise<void> {
+    try {
+      const res = await this.db.queryOnce({
+        checkpoints: { $: { where: { status: "running" } } },
+      });
+      const stale = res.data.checkpoints.filter((c) => existsSync(c.cwd));
+      if (stale.length === 0) return;
+      const chunks = [];
+      for (const c of stale) {
+        chunks.push(
+          this.db.tx.checkpoints[c.id]!.update({
+            status: "ready",
+            afterTree: await this.git(c.cwd).currentTree(),
+            completedAt: Date.now(),
+            reason: "The handler stopped during this run.",
+          })
+        );
+      }
+      await this.db.transact(chunks);
+      console.log(`📸 Closed ${stale.length} interrupted checkpoints`);
+    } catch (err) {
+      console.warn("⚠️ Could not recover interrupted checkpoints:", err);
+    }
+  }
+
+  // Rollbacks requested from the phone; handled one at a time
+  startRollbackListener(): void {
+    if (this.unsubscribeFn) return;
+    this.unsubscribeFn = this.db.subscribeQuery(
+      {
+        checkpoints: {
+          $: { where: { status: "rollbackRequested" } },
+        },
+      },
+      (resp) => {
+        if (resp.error) {
+          console.error("❌ Checkpoint subscription error:", resp.error);
+          return;
+        }
+        for (const c of resp.data?.checkpoints || []) {
+          // Only checkouts on this machine (the main one or a worktree)
+          if (!existsSync(c.cwd) || this.rollbacksInFlight.has(c.id)) continue;
+          this.rollbacksInFlight.add(c.id);
+          this.rollbackChain = this.rollbackChain
+            .then(() => this.handleRollbackRequest(c.id))
+            .catch((err) => console.error("❌ Rollback handling failed:", err))
+            .finally(() => this.rollbacksInFlight.delete(c.id));
+        }
+      }
+    );
+  }
+
+  stopRollbackListener(): void {
+    this.unsubscribeFn?.();
+    this.unsubscribeFn = null;
+  }
+}
@@ -0,0 +1,145 @@
+import { query, type CanUseTool } from "@anthropic-ai/claude-code";
+
+/**
+ * Runs a single Claude Code agent turn in a working directory.
+ *
+ * Claude Code session IDs are transitive: every turn that resumes session A
+ * comes back with a NEW session ID B that carries the whole history, and the
+ * next turn has to resume B (see tests/test-transitive-sessions.ts). Callers
+ * pass the latest ID they know about and persist the one returned here.
+ */
+
+export interface AgentTurnOptions {
+  prompt: string;
+  cwd: string;
+  resumeSessionId?: string;
+  model?: string;
+  appendSystemPrompt?: string;
+  maxTurns?: number;
+  abortController?: AbortController;
+  // Asked before each tool call; without it every tool runs unprompted
+  canUseTool?: CanUseTool;
+  // Called with each piece of assistant text as it arrives
+  onText?: (text: string) => void | Promise<void>;
+}
+
+export interface AgentTurnResult {
+  sessionId?: string;
+  resumedFrom?: string;
+  result: string;
+  isError: boolean;
+  numTurns?: number;
+  costUsd?: number;
+  durationMs: number;
+}
+
+const DEFAULT_AGENT_MODEL = "us.anthropic.claude-sonnet-4-20250514-v1:0";
+
+// Same environment the transitive session test was proven with
+export function configureClaudeCodeEnv() {
+  process.env.ANTHROPIC_BEDROCK_BASE_URL =
+    process.env.ANTHROPIC_BEDROCK_BASE_URL ||
+    "https://llm-proxy.dev-tools.dev.hioscar.com/bedrock";
+  process.env.CLAUDE_CODE_USE_BEDROCK =
+    process.env.CLAUDE_CODE_USE_BEDROCK || "1";
+  process.env.CLAUDE_CODE_SKIP_BEDROCK_AUTH =
+    process.env.CLAUDE_CODE_SKIP_BEDROCK_AUTH || "1";
+  process.env.DISABLE_ERROR_REPORTING =
+    process.env.DISABLE_ERROR_REPORTING || "1";
+  process.env.DISABLE_TELEMETRY = process.env.DISABLE_TELEMETRY || "1";
+  process.env.CLAUDE_CODE_MAX_OUTPUT_TOKENS =
+    process.env.CLAUDE_CODE_MAX_OUTPUT_TOKENS || "16384";
+  process.env.MAX_THINKING_TOKENS = process.env.MAX_THINKING_TOKENS || "1024";
+}
+
+async function runOnce(
+  options: AgentTurnOptions,
+  resume: string | undefined
+): Promise<AgentTurnResult> {
+  const startedAt = Date.now();
+  let sessionId: string | undefined;
+  let result = "";
+  let streamed = "";
+  let isError = false;
+  let numTurns: number | undefined;
+  let costUsd: number | undefined;
+
+  for await (const message of query({
+    prompt: options.prompt,
+    options: {
+      model:
+        options.model || process.env.CLAUDE_CODE_MODEL || DEFAULT_AGENT_MODEL,
+      cwd: options.cwd,
+      maxTurns: options.maxTurns,
+      ...(options.canUseTool
+        ? { permissionMode: "default", canUseTool: options.canUseTool }
+        : { permissionMode: "bypassPermissions" }),
+      appendSystemPrompt: options.appendSystemPrompt,
+      abortController: options.abortController,
+      ...(resume ? { resume } : {}),
+    },
+  })) {
+    // Capture the session ID from ANY message that has it; the last one wins
+    if ((message as any).session_id) {
+      sessionId = (message as any).session_id;
+    }
+
+    if (message.type === "assistant") {
+      const blocks: any[] = (message as any).message?.content || [];
+      for (const block of blocks) {
+        if (block.type === "text" && block.text) {
+          // Separate consecutive assistant messages (tool use in between)
+          const text = streamed ? `\n\n${block.text}` : block.text;
+          streamed += text;
+          await options.onText?.(text);
+        }
+      }
+    }
+
+    if (message.type === "result") {
+      const resultMsg = message as any;
+      result = resultMsg.result || "";
+      isError = Boolean(resultMsg.is_error) || resultMsg.subtype !== "success";
+      numTurns = resultMsg.num_turns;
+      costUsd = resultMsg.total_cost_usd;
+    }
+  }
+
+  return {
+    sessionId,
+    resumedFrom: resume,
+    result: result || streamed,
+    isError,
+    numTurns,
+    costUsd,
+    durationMs: Date.now() - startedAt,
+  };
+}
+
+export async function runAgentTurn(
+  options: AgentTurnOptions
+): Promise<AgentTurnResult> {
+  configureClaudeCodeEnv();
+  if (!options.resumeSessionId) return runOnce(options, undefined);
+
+  let producedOutput = false;
+  const tracked: AgentTurnOptions = {
+    ...options,
+    onText: (text) => {
+      producedOutput = true;
+      return options.onText?.(text);
+    },
+  };
+  try {
+    return await runOnce(tracked, options.resumeSessionId);
+  } catch (err) {
+    // A stale or missing session file fails before any output; start fresh
+    // rather than failing the message. Anything later is a real error.
+    if (producedOutput || options.abortController?.signal.aborted) throw err;
+    console.warn(
+      `⚠️ Could not resume session ${options.resumeSessionId}, starting a new one:`,
+      err
+    );
+    return runOnce(options, undefined);
+  }
+}
@@ -0,0 +1,202 @@
+import { id, type init } from "@instantdb/node";
+import type { AppSchema } from "../../instant.schema";
+import {
+  ancestorsOf,
+  messageText,
+  type Conversation,
+  type Message,
+} from "../../lib/data-model";
+
+type InstantDB = ReturnType<typeof init<AppSchema>>;
+
+/**
+ * Forks of a conversation, requested from the phone (requestFork):
+ *
+ *   requested → ready | failed
+ *
+ * The fork gets copies of the branch leading to the chosen message, that
+ * message included, with new ids and `metadata.forkedFrom` pointing at the
+ * original. Copies are written by the host because users may only create
+ * their own questions (instant.perms.ts). When the chosen message is a
+ * question it is copied as pending, so the fork answers it afresh.
+ *
+ * Agent context carries over through the Claude Code session of the last
+ * copied reply: it becomes the fork's claudeSessionId and stays in the
+ * copied metadata, which is where the handler looks for the session of a
+ * branch. Resuming a session returns a new one, so the original and the
+ * fork never share a session from then on. The working tree is not forked;
+ * use a worktree or a checkpoint rollback for that, which is also why the
+ * copies drop the original's checkpoint, worktree, diff and approvals.
+ */
+
+// Metadata of an agent run that points at rows of the original conversation
+const HOST_LOCAL_METADATA = ["checkpointId", "worktreeId", "cwd", "diff", "approvals"];
+
+export interface ForkPlan {
+  messages: Message[];
+  claudeSessionId?: string;
+}
+
+function portableMetadata(metadata: Message["metadata"]): Record<string, any> {
+  const kept = { ...(metadata || {}) };
+  for (const key of HOST_LOCAL_METADATA) delete kept[key];
+  return kept;
+}
+
+// Copies of the thread up to `atMessageId`, re-parented into the fork
+export function planFork(
+  messages: Message[],
+  atMessageId: string,
+  forkId: string,
+  newId: () => string = id
+): ForkPlan {
+  const at = messages.find((m) => m.id === atMessageId);
+  if (!at) throw new Error(`Message ${atMessageId} is not in the conversation`);
+
+  const thread = [...ancestorsOf(messages, atMessageId), at];
+  const copies: Message[] = [];
+  let claudeSessionId: string | undefined;
+  let parentId = forkId; // The first message follows the conversation itself
+  for (const m of thread) {
+    const copy: Message = {
+      id: newId(),
+      conversationId: forkId,
+      parentId,
+      role: m.role,
+      content: messageText(m),
+      timestamp: m.timestamp,
+      // An answer still being written stays behind; the copy keeps its text
+      status: m.status === "streaming" ? "interrupted" : m.status,
+      isStreaming: false,
+      metadata: { ...portableMetadata(m.metadata), forkedFrom: m.id },
+      ...(m.role === "assistant" ? { finalContent: messageText(m) } : {}),
+      ...(m.model ? { model: m.model } : {}),
+      ...(m.errorMessage ? { errorMessage: m.errorMessage } : {}),
+    };
+    if (m.role === "assistant" && m.metadata?.claudeSessionId) {
+      claudeSessionId = m.metadata.claudeSessionId;
+    }
+    copies.push(copy);
+    parentId = copy.id;
+  }
+
+  // Replies point back at their question, like the handler's own
+  const copiedIds = new Map(thread.map((m, i) => [m.id, copies[i]!.id]));
+  for (const copy of copies) {
+    const replyTo = copy.metadata.replyTo;
+    if (replyTo) copy.metadata.replyTo = copiedIds.get(replyTo) || replyTo;
+  }
+
+  const last = copies[copies.length - 1]!;
+  if (last.role === "user") {
+    Object.assign(last, { status: "pending", attempts: 0, errorMessage: "" });
+  }
+  return { messages: copies, claudeSessionId };
+}
+
+export class ConversationForkService {
+  private unsubscribeFn: (() => void) | null = null;
+  private forkChain: Promise<void> = Promise.resolve();
+  private forksInFlight = new Set<string>();
+
+  constructor(private db: InstantDB) {}
+
+  async fork(forkId: string): Promise<ForkPlan> {
+    const res = await this.db.queryOnce({
+      conversations: { $: { where: { id: forkId } } },
+    });
+    const fork = res.data.conversations[0] as Conversation | undefined;
+    if (!fork?.forkedFrom || !fork.forkedAtMessageId) {
+      throw new Error(`Conversation ${forkId} is not a fork`);
+    }
+
+    const source = await this.db.queryOnce({
+      conversations: { $: { where: { id: fork.forkedFrom } } },
+      messages: { $: { where: { conversationId: fork.forkedFrom } } },
+    });
+    const parent = source.data.conversations[0] as Conversation | undefined;
+    if (!parent) throw new Error("The original conversation was deleted");
+    // The host can read every conversation; only fork your own
+    if (!parent.userId || parent.userId !== fork.userId) {
+      throw new Error("Only the owner of a conversation can fork it");
+    }
+
+    const plan = planFork(
+      source.data.messages as Message[],
+      fork.forkedAtMessageId,
+      forkId
+    );
+    await this.db.transact([
+      ...plan.messages.map(({ id: messageId, ...fields }) =>
+        this.db.tx.messages[messageId]!
+          .update({ ...fields, userId: fork.userId })
+          .link({ conversation: forkId })
+      ),
+      this.db.tx.conversations[forkId]!.update({
+        forkStatus: "ready",
+        forkError: "",
+        updatedAt: Date.now(),
+        ...(parent.mode ? { mode: parent.mode } : {}),
+        ...(parent.model ? { model: parent.model } : {}),
+        ...(parent.approvalTimeoutMs
+          ? { approvalTimeoutMs: parent.approvalTimeoutMs }
+          : {}),
+        // "<generated title> (fork)" needs no new one
+        ...(parent.titleGeneratedAt ? { titleGeneratedAt: Date.now() } : {}),
+        ...(plan.claudeSessionId
+          ? { claudeSessionId: plan.claudeSessionId }
+          : {}),
+      }),
+    ]);
+    console.log(
+      `⑂ Forked ${fork.forkedFrom} into ${forkId}: ${plan.messages.length} messages` +
+        (plan.claudeSessionId ? `, session ${plan.claudeSessionId}` : "")
+    );
+    return plan;
+  }
+
+  private async handleForkRequest(forkId: string): Promise<void> {
+    try {
+      await this.fork(forkId);
+    } catch (err) {
+      console.warn(`⚠️ Fork ${forkId} failed:`, err);
+      await this.db.transact([
+        this.db.tx.conversations[forkId]!.update({
+          forkStatus: "failed",
+          forkError: String(err).slice(0, 300),
+        }),
+      ]);
+    }
+  }
+
+  // Forks requested from the phone; handled one at a time
+  startForkListener(): void {
+    if (this.unsubscribeFn) return;
+    this.unsubscribeFn = this.db.subscribeQuery(
+      {
+        conversations: {
+          $: { where: { forkStatus: "requested" } },
+        },
+      },
+      (resp) => {
+        if (resp.error) {
+          console.error("❌ Fork subscription error:", resp.error);
+          return;
+        }
+        for (const c of resp.data?.conversations || []) {
+          if (this.forksInFlight.has(c.id)) continue;
+          this.forksInFlight.add(c.id);
+          this.forkChain = this.forkChain
+            .then(() => this.handleForkRequest(c.id))
+            .catch((err) => console.error("❌ Fork handling failed:", err))
+            .finally(() => this.forksInFlight.delete(c.id));
+        }
+      }
+    );
+  }
+
+  stopForkListener(): void {
+    this.unsubscribeFn?.();
+    this.unsubscribeFn = null;
+  }
+}
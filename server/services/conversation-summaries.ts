@@ -0,0 +1,214 @@
+import type { init } from "@instantdb/node";
+import type { AppSchema } from "../../instant.schema";
+import {
+  ancestorsOf,
+  isPlaceholderTitle,
+  messageText,
+  type Conversation,
+  type Message,
+} from "../../lib/data-model";
+import { streamWithFallback, type ModelRouter } from "../lib/model-router";
+
+type InstantDB = ReturnType<typeof init<AppSchema>>;
+
+/**
+ * Titles and rolling summaries of conversations, written by the host after
+ * each reply with the model configured for the "summary" role in
+ * config/models.json (a cheap one; the usual fallback chain applies).
+ *
+ * The title is generated once, after the first exchange, unless somebody
+ * already gave the conversation a real one (see isPlaceholderTitle). The
+ * summary is
+ * brought up to date every `every` messages: the model gets the previous
+ * summary plus the messages since, so each update stays small. Summaries
+ * describe the branch that was answered last (see resolveParents); one that
+ * doesn't cover the current branch is started over. The context builder uses
+ * it for the turns that no longer fit the budget.
+ */
+
+export interface SummaryOptions {
+  every?: number; // Messages between summary updates
+  maxInputChars?: number; // Transcript sent to the model per update
+  maxSummaryWords?: number;
+  active?: () => boolean; // Write only while true (the handler leads)
+}
+
+export interface SummaryPlan {
+  previous?: string; // Summary to extend; absent when starting over
+  messages: Message[]; // Messages it doesn't cover yet
+  threadLength: number;
+}
+
+const TITLE_PROMPT =
+  "Write a title of at most six words for the conversation below. " +
+  "Reply with the title only: no quotes, no trailing period.";
+
+const summaryPrompt = (words: number) =>
+  `You keep a running summary of a conversation between a user and an AI assistant. ` +
+  `Update the summary with the new messages. Keep decisions, facts, open questions ` +
+  `and what the user is working on; drop pleasantries. At most ${words} words, ` +
+  `plain prose, no heading.`;
+
+// Messages of a branch that belong in a title or summary
+export function settledThread(messages: Message[], replyId: string): Message[] {
+  const reply = messages.find((m) => m.id === replyId);
+  if (!reply) return [];
+  return [...ancestorsOf(messages, replyId), reply].filter(
+    (m) =>
+      (m.role === "user" || m.role === "assistant") &&
+      (!m.status || m.status === "completed") &&
+      messageText(m).trim().length > 0
+  );
+}
+
+export function cleanTitle(text: string): string {
+  const line = text.trim().split("\n")[0] || "";
+  const title = line
+    .replace(/^title:\s*/i, "")
+    .replace(/^["'“”*#\s]+|["'“”*\s]+$/g, "")
+    .replace(/\.$/, "")
+    .trim();
+  return title.length > 60 ? `${title.slice(0, 59)}…` : title;
+}
+
+// What a summary update has to cover, or null if it isn't due yet
+export function planSummary(
+  conversation: Pick<Conversation, "summary" | "summaryThroughMessageId">,
+  thread: Message[],
+  every: number
+): SummaryPlan | null {
+  const through = conversation.summary
+    ? thread.findIndex((m) => m.id === conversation.summaryThroughMessageId)
+    : -1;
+  if (thread.length - (through + 1) < every) return null;
+  return {
+    ...(through >= 0 ? { previous: conversation.summary } : {}),
+    messages: thread.slice(through + 1),
+    threadLength: thread.length,
+  };
+}
+
+// Newest messages first when the transcript has to be cut
+export function transcript(messages: Message[], maxChars: number): string {
+  const lines: string[] = [];
+  let used = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const m = messages[i]!;
+    const text = messageText(m).replace(/\s+/g, " ").trim();
+    const line = `${m.role === "user" ? "User" : "Assistant"}: ${text.slice(0, 1_500)}`;
+    if (used + line.length > maxChars && lines.length) break;
+    used += line.length;
+    lines.unshift(line);
+  }
+  return lines.join("\n\n");
+}
+
+export class ConversationSummarizer {
+  private every: number;
+  private maxInputChars: number;
+  private maxSummaryWords: number;
+  private active: () => boolean;
+  private running = new Set<string>();
+
+  constructor(
+    private db: InstantDB,
+    private router: ModelRouter,
+    options: SummaryOptions = {}
+  ) {
+    this.every = options.every ?? 10;
+    this.maxInputChars = options.maxInputChars ?? 12_000;
+    this.maxSummaryWords = options.maxSummaryWords ?? 150;
+    this.active = options.active ?? (() => true);
+  }
+
+  /**
+   * Title the conversation and bring its summary up to date after a reply.
+   * Best effort: failures are logged and retried after the next reply.
+   */
+  async afterReply(conversationId: string, replyId: string): Promise<void> {
+    // One update per conversation at a time; the next reply catches up
+    if (this.running.has(conversationId) || !this.active()) return;
+    this.running.add(conversationId);
+    try {
+      const res = await this.db.queryOnce({
+        conversations: { $: { where: { id: conversationId } } },
+        messages: { $: { where: { conversationId } } },
+      });
+      const conversation = res.data.conversations[0] as Conversation | undefined;
+      if (!conversation) return;
+      const messages = res.data.messages as Message[];
+      const thread = settledThread(messages, replyId);
+      const updates: Partial<Conversation> = {};
+      const questions = messages
+        .filter((m) => m.role === "user")
+        .map((m) => messageText(m));
+
+      if (
+        !conversation.titleGeneratedAt &&
+        isPlaceholderTitle(conversation.title, questions) &&
+        thread.some((m) => m.role === "assistant")
+      ) {
+        const title = cleanTitle(
+          await this.complete(TITLE_PROMPT, transcript(thread.slice(0, 2), 4_000))
+        );
+        if (title) {
+          Object.assign(updates, { title, titleGeneratedAt: Date.now() });
+          console.log(`🏷️ Titled ${conversationId}: "${title}"`);
+        }
+      }
+
+      const plan = planSummary(conversation, thread, this.every);
+      if (plan) {
+        const prompt = [
+          plan.previous ? `Summary so far:\n${plan.previous}` : "",
+          `New messages:\n${transcript(plan.messages, this.maxInputChars)}`,
+        ]
+          .filter(Boolean)
+          .join("\n\n");
+        const summary = await this.complete(
+          summaryPrompt(this.maxSummaryWords),
+          prompt
+        );
+        if (summary) {
+          Object.assign(updates, {
+            summary,
+            summaryThroughMessageId: thread[thread.length - 1]!.id,
+            summaryMessageCount: plan.threadLength,
+            summaryUpdatedAt: Date.now(),
+          });
+          console.log(
+            `📝 Summarized ${conversationId} through ${plan.threadLength} messages`
+          );
+        }
+      }
+
+      // Leadership may have moved on while the model was writing
+      if (Object.keys(updates).length && this.active()) {
+        await this.db.transact([
+          this.db.tx.conversations[conversationId]!.update(updates),
+        ]);
+      }
+    } catch (err) {
+      console.warn(`⚠️ Could not summarize ${conversationId}:`, err);
+    } finally {
+      this.running.delete(conversationId);
+    }
+  }
+
+  private async complete(system: string, prompt: string): Promise<string> {
+    let text = "";
+    await streamWithFallback(
+      this.router,
+      this.router.forRole("summary"),
+      {
+        system,
+        messages: [{ role: "user", content: prompt }],
+        temperature: 0.2,
+      },
+      (chunk) => {
+        text += chunk;
+      }
+    );
+    return text.trim();
+  }
+}
@@ -0,0 +1,153 @@
+import { id, type init } from "@instantdb/node";
+import type { AppSchema } from "../../instant.schema";
+import type { Chunk, DiffFile } from "../../lib/data-model";
+import { GitCheckpoints } from "../lib/git-checkpoints";
+import { chunkPatch, diffTrees } from "../lib/git-diff";
+
+type InstantDB = ReturnType<typeof init<AppSchema>>;
+
+/**
+ * Publishes what an agent turn changed.
+ *
+ * The working tree is captured as a git tree before and after the turn
+ * (without touching the index, see git-checkpoints.ts) and the difference
+ * is stored as one `diffs` row linked to the assistant message, with each
+ * file's patch split into `diffChunks` of at most `chunkChars`. The phone
+ * loads a file's chunks only when it is expanded, and limits keep a single
+ * giant file (a lockfile, generated code) from swamping the sync.
+ */
+
+export interface DiffLimits {
+  chunkChars?: number; // Max size of one diffChunks row
+  maxFileChars?: number; // Patch text kept per file; the rest is dropped
+  maxTotalChars?: number; // Patch text kept per turn
+  maxFiles?: number; // Files listed per turn
+}
+
+export interface DiffContext {
+  conversationId: string;
+  messageId: string; // Assistant message
+  userId?: string;
+  cwd: string;
+}
+
+export interface PublishedDiff {
+  diffId: string;
+  filesChanged: number;
+  additions: number;
+  deletions: number;
+}
+
+const TRANSACT_BATCH = 50;
+
+export class DiffPublisher {
+  private limits: Required<DiffLimits>;
+
+  constructor(
+    private db: InstantDB,
+    limits: DiffLimits = {}
+  ) {
+    this.limits = {
+      chunkChars: limits.chunkChars ?? 8_000,
+      maxFileChars: limits.maxFileChars ?? 200_000,
+      maxTotalChars: limits.maxTotalChars ?? 2_000_000,
+      maxFiles: limits.maxFiles ?? 300,
+    };
+  }
+
+  // Tree of the working directory right now, or null outside a git repo
+  async baseline(cwd: string): Promise<string | null> {
+    const git = new GitCheckpoints(cwd);
+    if (!(await git.isRepo())) return null;
+    try {
+      return await git.currentTree();
+    } catch (err) {
+      console.warn("⚠️ Could not capture diff baseline:", err);
+      return null;
+    }
+  }
+
+  /**
+   * Diff the working tree against `fromTree` and store it. Returns null
+   * when nothing changed or the diff couldn't be taken; never throws.
+   */
+  async publish(
+    fromTree: string,
+    context: DiffContext
+  ): Promise<PublishedDiff | null> {
+    try {
+      const toTree = await new GitCheckpoints(context.cwd).currentTree();
+      const fileDiffs = await diffTrees(context.cwd, fromTree, toTree);
+      if (fileDiffs.length === 0) return null;
+
+      const diffId = id();
+      const now = Date.now();
+      const owner = context.userId ? { userId: context.userId } : {};
+      const files: DiffFile[] = [];
+      const chunkTxs: Chunk[] = [];
+      let budget = this.limits.maxTotalChars;
+
+      for (const [fileIndex, file] of fileDiffs
+        .slice(0, this.limits.maxFiles)
+        .entries()) {
+        const keep = Math.min(file.patch.length, this.limits.maxFileChars, budget);
+        const patch = file.binary ? "" : file.patch.slice(0, keep);
+        const chunks = chunkPatch(patch, this.limits.chunkChars);
+        budget -= patch.length;
+
+        files.push({
+          path: file.path,
+          ...(file.oldPath ? { oldPath: file.oldPath } : {}),
+          status: file.status,
+          binary: file.binary,
+          additions: file.additions,
+          deletions: file.deletions,
+          chunks: chunks.length,
+          ...(patch.length < file.patch.length && !file.binary
+            ? { truncated: true }
+            : {}),
+        });
+        chunks.forEach((text, seq) =>
+          chunkTxs.push(
+            this.db.tx.diffChunks[id()]!
+              .update({ diffId, fileIndex, seq, text, createdAt: now, ...owner })
+              .link({ diff: diffId })
+          )
+        );
+      }
+
+      const summary = {
+        filesChanged: fileDiffs.length,
+        additions: fileDiffs.reduce((n, f) => n + f.additions, 0),
+        deletions: fileDiffs.reduce((n, f) => n + f.deletions, 0),
+      };
+      await this.db.transact([
+        this.db.tx.diffs[diffId]!
+          .update({
+            conversationId: context.conversationId,
+            messageId: context.messageId,
+            cwd: context.cwd,
+            fromTree,
+            toTree,
+            ...summary,
+            files,
+            ...(fileDiffs.length > files.length ? { truncated: true } : {}),
+            createdAt: now,
+            ...owner,
+          })
+          .link({ message: context.messageId }),
+      ]);
+      for (let i = 0; i < chunkTxs.length; i += TRANSACT_BATCH) {
+        await this.db.transact(chunkTxs.slice(i, i + TRANSACT_BATCH));
+      }
+
+      console.log(
+        `🧾 Diff: ${summary.filesChanged} files, +${summary.additions} −${summary.deletions} (${chunkTxs.length} chunks)`
+      );
+      return { diffId, ...summary };
+    } catch (err) {
+      console.warn("⚠️ Could not publish diff:", err);
+      return null;
+    }
+  }
+}
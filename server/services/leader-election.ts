@@ -0,0 +1,208 @@
+import { id, type init } from "@instantdb/node";
+import os from "os";
+import type { AppSchema } from "../../instant.schema";
+import type { Lease } from "../../lib/data-model";
+
+type InstantDB = ReturnType<typeof init<AppSchema>>;
+
+/**
+ * Lease-based leader election in the `leases` table, so only one handler
+ * instance answers messages even when several are running (a nodemon
+ * restart overlapping the old process, `npm run listen` next to the
+ * supervisor, a second machine).
+ *
+ * The leader renews its lease every leaseMs / 3. A standby polls at the
+ * same rate and takes over once the lease has expired, i.e. the leader's
+ * renewals (its heartbeat) stopped. A leader that shuts down releases the
+ * lease so a standby can take over right away.
+ *
+ * Every new holder gets the next fencing token. Work done on behalf of a
+ * leader carries its token (see DurableMessageQueue), so a leader that was
+ * paused past its lease and comes back can be told apart from the current
+ * one, and its writes refused.
+ *
+ * Like message claims, acquisition writes and reads back after a settle
+ * delay, since InstantDB has no compare-and-swap.
+ */
+
+export interface LeaderElectionOptions {
+  leaseMs?: number; // A leader that hasn't renewed for this long is presumed dead
+  settleMs?: number; // Delay before re-reading a takeover to confirm we won it
+  workerId?: string;
+  onElected?: (token: number) => void | Promise<void>;
+  onDeposed?: (reason: string) => void | Promise<void>;
+  log?: (kind: string, message: string, meta?: any) => Promise<void>;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+export class LeaderElection {
+  readonly hostName = os.hostname();
+  readonly workerId: string;
+  private leaseMs: number;
+  private settleMs: number;
+  private held: { rowId: string; token: number; renewedAt: number } | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(
+    private db: InstantDB,
+    readonly name: string,
+    private options: LeaderElectionOptions = {}
+  ) {
+    this.workerId = options.workerId ?? `${os.hostname()}:${process.pid}`;
+    this.leaseMs = options.leaseMs ?? 15_000;
+    this.settleMs = options.settleMs ?? 250;
+  }
+
+  get isLeader(): boolean {
+    return this.held !== null;
+  }
+
+  // Fencing token of the lease we hold; undefined while standing by
+  get token(): number | undefined {
+    return this.held?.token;
+  }
+
+  async start(): Promise<void> {
+    if (this.timer) return;
+    await this.poll();
+    this.timer = setInterval(
+      () => this.poll(),
+      Math.max(100, Math.floor(this.leaseMs / 3))
+    );
+    if (!this.isLeader) {
+      console.log(`🧍 Standing by: another ${this.name} holds the lease`);
+    }
+  }
+
+  // Stop campaigning. Releasing lets a standby take over without waiting
+  // for the lease to expire.
+  async stop(release = true): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    const held = this.held;
+    this.held = null;
+    if (!held || !release) return;
+    try {
+      const lease = await this.fetch();
+      if (lease?.holder === this.workerId && lease.token === held.token) {
+        await this.db.transact([
+          this.db.tx.leases[held.rowId]!.update({ expiresAt: 0 }),
+        ]);
+        console.log(`👋 Released ${this.name} lease (token ${held.token})`);
+      }
+    } catch (err) {
+      console.warn(`⚠️ Could not release ${this.name} lease:`, err);
+    }
+  }
+
+  /**
+   * Re-read the lease and confirm we still hold it. Steps down (calling
+   * onDeposed) when another worker has taken over in the meantime.
+   */
+  async checkLeadership(): Promise<boolean> {
+    if (!this.held) return false;
+    const lease = await this.fetch();
+    if (lease?.holder === this.workerId && lease.token === this.held.token) {
+      return true;
+    }
+    await this.depose(
+      lease
+        ? `${lease.holder} took over with token ${lease.token}`
+        : "lease disappeared"
+    );
+    return false;
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      if (this.held) {
+        await this.renew();
+      } else {
+        const lease = await this.fetch();
+        if (!lease || lease.expiresAt < Date.now()) await this.acquire(lease);
+      }
+    } catch (err) {
+      console.warn(`⚠️ ${this.name} lease check failed:`, err);
+      // Unable to renew: once our lease has run out someone else may lead
+      if (this.held && Date.now() - this.held.renewedAt > this.leaseMs) {
+        await this.depose("could not renew the lease in time");
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async renew(): Promise<void> {
+    if (!(await this.checkLeadership())) return;
+    const now = Date.now();
+    await this.db.transact([
+      this.db.tx.leases[this.held!.rowId]!.update({
+        renewedAt: now,
+        expiresAt: now + this.leaseMs,
+      }),
+    ]);
+    this.held!.renewedAt = now;
+  }
+
+  private async acquire(previous: Lease | null): Promise<void> {
+    const token = (previous?.token || 0) + 1;
+    const rowId = previous?.id || id();
+    const now = Date.now();
+    await this.db.transact([
+      this.db.tx.leases[rowId]!.update({
+        name: this.name,
+        holder: this.workerId,
+        holderHost: this.hostName,
+        token,
+        acquiredAt: now,
+        renewedAt: now,
+        expiresAt: now + this.leaseMs,
+      }),
+    ]);
+
+    await sleep(this.settleMs);
+    const confirmed = await this.fetch();
+    if (confirmed?.holder !== this.workerId || confirmed.token !== token) {
+      console.log(`🤝 Lost ${this.name} election to ${confirmed?.holder}`);
+      return;
+    }
+
+    this.held = { rowId, token, renewedAt: now };
+    const takeover =
+      previous && previous.holder !== this.workerId && previous.expiresAt > 0
+        ? ` (took over from ${previous.holder})`
+        : "";
+    console.log(`👑 Leading ${this.name} with token ${token}${takeover}`);
+    await this.options.log?.("leader", `elected ${this.name} leader`, {
+      workerId: this.workerId,
+      token,
+      previous: previous?.holder,
+    });
+    await this.options.onElected?.(token);
+  }
+
+  private async depose(reason: string): Promise<void> {
+    const token = this.held?.token;
+    this.held = null;
+    console.log(`🪑 No longer leading ${this.name}: ${reason}`);
+    await this.options.log?.("leader", `deposed as ${this.name} leader`, {
+      workerId: this.workerId,
+      token,
+      reason,
+    });
+    await this.options.onDeposed?.(reason);
+  }
+
+  private async fetch(): Promise<Lease | null> {
+    const res = await this.db.queryOnce({
+      leases: { $: { where: { name: this.name } } },
+    });
+    return (res.data.leases[0] as Lease) || null;
+  }
+}
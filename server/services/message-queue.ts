@@ -0,0 +1,358 @@
+import { id, type init } from "@instantdb/node";
+import os from "os";
+import type { AppSchema } from "../../instant.schema";
+import type { Message } from "../../lib/data-model";
+
+type InstantDB = ReturnType<typeof init<AppSchema>>;
+
+/**
+ * Durable message queue backed by the `messages` table in InstantDB.
+ *
+ * Instead of keeping pending work only in memory, every user message carries
+ * its own queue state:
+ *   - status:       "pending" → "processing" → "completed" | "error"
+ *                   (or "interrupted" when the handler shut down mid-answer;
+ *                   the user retries it by setting it back to "pending",
+ *                   or "cancelled" when the user stopped the answer)
+ *   - claimedBy:    worker that currently holds the message ("<host>:<pid>")
+ *   - claimedHost:  host name of that worker
+ *   - claimedUntil: lease expiry (ms since epoch); renewed while processing
+ *   - claimToken:   random token written on claim, re-read to detect races
+ *   - attempts:     how many times the message has been claimed
+ *   - fencingToken: leader lease token of the handler that claimed it
+ *
+ * A message whose lease has expired is considered abandoned and goes back to
+ * "pending", so a handler restart (or crash) never silently drops work.
+ *
+ * With a `fencingToken` source (the handler's LeaderElection), a message
+ * remembers the highest token that claimed it and writes from a worker with
+ * a lower token are refused: a deposed leader can't release, complete or
+ * renew a message its successor has taken over.
+ *
+ * Renewals and releases carry the claim token they were made under and are
+ * only written while the message still holds it: a worker whose lease lapsed
+ * and whose message was claimed again stops renewing (and is told through
+ * `onLeaseLost`, so it can stop answering), and its late release is dropped
+ * instead of clobbering the new claim.
+ */
+
+export type QueueMessage = Pick<
+  Message,
+  | "id"
+  | "conversationId"
+  | "role"
+  | "status"
+  | "claimedBy"
+  | "claimedHost"
+  | "claimedUntil"
+  | "claimToken"
+  | "attempts"
+  | "fencingToken"
+> & { timestamp?: number };
+
+export interface MessageQueueOptions {
+  leaseMs?: number; // How long a claim is valid without renewal
+  maxAttempts?: number; // Give up on a message after this many claims
+  settleMs?: number; // Delay before re-reading a claim to confirm we won it
+  fencingToken?: () => number | undefined; // Current leader token, if any
+  onLeaseLost?: (messageId: string) => void; // Another worker took it over
+}
+
+export interface RecoveryResult {
+  requeued: QueueMessage[];
+  failed: QueueMessage[];
+  pending: QueueMessage[];
+}
+
+// Whether the "<host>:<pid>" worker's process still runs on this host
+function processAlive(workerId: string | null | undefined): boolean {
+  const pid = Number(workerId?.split(":").pop());
+  if (!Number.isInteger(pid) || pid <= 0) return false;
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: it exists but belongs to another user
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+export class DurableMessageQueue {
+  readonly hostName = os.hostname();
+  readonly workerId = `${os.hostname()}:${process.pid}`;
+  private leaseMs: number;
+  private maxAttempts: number;
+  private settleMs: number;
+  private fencingToken: () => number | undefined;
+  private onLeaseLost: (messageId: string) => void;
+  private renewTimers = new Map<string, NodeJS.Timeout>();
+  private claimTokens = new Map<string, string>(); // Claims this worker holds
+
+  constructor(
+    private db: InstantDB,
+    options: MessageQueueOptions = {}
+  ) {
+    this.leaseMs = options.leaseMs ?? 60_000;
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.settleMs = options.settleMs ?? 250;
+    this.fencingToken = options.fencingToken ?? (() => undefined);
+    this.onLeaseLost = options.onLeaseLost ?? (() => {});
+  }
+
+  // A newer leader has claimed this message; our writes to it are stale
+  isFenced(message: Pick<QueueMessage, "fencingToken">): boolean {
+    const token = this.fencingToken();
+    return token !== undefined && (message.fencingToken || 0) > token;
+  }
+
+  // A message can be claimed if it is pending, or if it is processing but
+  // the worker holding it let its lease lapse.
+  isClaimable(message: QueueMessage, now = Date.now()): boolean {
+    if (message.role !== "user") return false;
+    if (message.status === "pending") return true;
+    if (message.status === "processing") {
+      return !message.claimedUntil || message.claimedUntil < now;
+    }
+    return false;
+  }
+
+  private async fetch(messageId: string): Promise<QueueMessage | null> {
+    const res = await this.db.queryOnce({
+      messages: { $: { where: { id: messageId } } },
+    });
+    return res.data.messages[0] || null;
+  }
+
+  // A claim written under `claimToken` still holds, unless a newer leader
+  // owns the message regardless
+  private holds(current: QueueMessage | null, claimToken: string | undefined) {
+    return Boolean(current && current.claimToken === claimToken && !this.isFenced(current));
+  }
+
+  /**
+   * Try to take ownership of a message. InstantDB has no compare-and-swap, so
+   * we write a fresh claim token and read it back after a short settle delay:
+   * if another worker claimed the same message in between, only one token
+   * survives and the loser backs off.
+   */
+  async claim(messageId: string): Promise<QueueMessage | null> {
+    const current = await this.fetch(messageId);
+    if (!current || !this.isClaimable(current)) return null;
+    if (this.isFenced(current)) {
+      console.log(`🚧 Message ${messageId} belongs to a newer leader`);
+      return null;
+    }
+
+    const attempts = (current.attempts || 0) + 1;
+    if (attempts > this.maxAttempts) {
+      await this.fail(messageId, "max attempts exceeded", current.claimToken);
+      return null;
+    }
+
+    const claimToken = id();
+    const fencingToken = this.fencingToken();
+    const now = Date.now();
+    await this.db.transact([
+      this.db.tx.messages[messageId]!.update({
+        status: "processing",
+        claimedBy: this.workerId,
+        claimedHost: this.hostName,
+        claimedUntil: now + this.leaseMs,
+        claimToken,
+        attempts,
+        ...(fencingToken !== undefined ? { fencingToken } : {}),
+      }),
+    ]);
+
+    await new Promise((resolve) => setTimeout(resolve, this.settleMs));
+    const confirmed = await this.fetch(messageId);
+    if (!confirmed || confirmed.claimToken !== claimToken) {
+      console.log(`🤝 Lost claim race for message ${messageId}`);
+      return null;
+    }
+
+    this.claimTokens.set(messageId, claimToken);
+    this.startRenewing(messageId, claimToken);
+    return confirmed;
+  }
+
+  // Extend the lease periodically while the message is being worked on
+  private startRenewing(messageId: string, claimToken: string) {
+    this.stopRenewing(messageId);
+    const timer = setInterval(async () => {
+      try {
+        const current = await this.fetch(messageId);
+        if (!this.holds(current, claimToken)) {
+          console.log(`🚧 Stopped renewing ${messageId}: the lease was lost`);
+          this.stopRenewing(messageId);
+          this.claimTokens.delete(messageId);
+          this.onLeaseLost(messageId);
+          return;
+        }
+        await this.db.transact([
+          this.db.tx.messages[messageId]!.update({
+            claimedUntil: Date.now() + this.leaseMs,
+          }),
+        ]);
+      } catch (err) {
+        console.warn(`⚠️ Failed to renew lease for ${messageId}:`, err);
+      }
+    }, Math.max(1000, Math.floor(this.leaseMs / 3)));
+    this.renewTimers.set(messageId, timer);
+  }
+
+  private stopRenewing(messageId: string) {
+    const timer = this.renewTimers.get(messageId);
+    if (timer) {
+      clearInterval(timer);
+      this.renewTimers.delete(messageId);
+    }
+  }
+
+  // The methods below release a claim. `claimToken` defaults to the one this
+  // worker claimed the message with; recovery passes the abandoned claim's.
+
+  async complete(
+    messageId: string,
+    claimToken = this.claimTokens.get(messageId)
+  ): Promise<void> {
+    await this.release(messageId, claimToken, { status: "completed" });
+  }
+
+  async fail(
+    messageId: string,
+    reason?: string,
+    claimToken = this.claimTokens.get(messageId)
+  ): Promise<void> {
+    await this.release(messageId, claimToken, {
+      status: "error",
+      ...(reason ? { errorMessage: reason } : {}),
+    });
+  }
+
+  // The worker stopped before answering; left for the user to retry
+  async interrupt(
+    messageId: string,
+    reason: string,
+    claimToken = this.claimTokens.get(messageId)
+  ): Promise<void> {
+    await this.release(messageId, claimToken, {
+      status: "interrupted",
+      errorMessage: reason,
+    });
+  }
+
+  // The user stopped the answer; done, and not to be retried
+  async cancel(
+    messageId: string,
+    claimToken = this.claimTokens.get(messageId)
+  ): Promise<void> {
+    await this.release(messageId, claimToken, { status: "cancelled" });
+  }
+
+  // Give the message back to the queue without counting it as done
+  async requeue(
+    messageId: string,
+    claimToken = this.claimTokens.get(messageId)
+  ): Promise<void> {
+    await this.release(messageId, claimToken, { status: "pending" });
+  }
+
+  private async release(
+    messageId: string,
+    claimToken: string | undefined,
+    updates: Partial<Message>
+  ): Promise<void> {
+    this.stopRenewing(messageId);
+    this.claimTokens.delete(messageId);
+    try {
+      const current = await this.fetch(messageId);
+      if (!this.holds(current, claimToken)) {
+        console.log(`🚧 Not releasing ${messageId}: claimed again since`);
+        return;
+      }
+      await this.db.transact([
+        this.db.tx.messages[messageId]!.update({
+          ...updates,
+          claimedUntil: null,
+          claimedBy: null,
+          claimedHost: null,
+        }),
+      ]);
+    } catch (err) {
+      console.warn(`⚠️ Could not release message ${messageId}:`, err);
+    }
+  }
+
+  /**
+   * Called on startup (and periodically afterwards). Puts abandoned
+   * "processing" messages back to "pending" and returns everything that is
+   * waiting to be worked on, oldest first.
+   *
+   * A processing message is abandoned when its lease expired, when it was
+   * claimed by a process on this same host that is no longer running (a
+   * crashed or restarted handler), or when it was claimed under an older
+   * leader token than ours (that leader has been replaced). A live claim by
+   * another process on this host is left alone: that handler is still
+   * answering it.
+   */
+  async recover(): Promise<RecoveryResult> {
+    const res = await this.db.queryOnce({
+      messages: {
+        $: {
+          where: {
+            role: "user",
+            status: { $in: ["pending", "processing"] },
+          },
+        },
+      },
+    });
+    const messages: QueueMessage[] = res.data.messages;
+    const now = Date.now();
+    const token = this.fencingToken();
+
+    const requeued: QueueMessage[] = [];
+    const failed: QueueMessage[] = [];
+    const pending: QueueMessage[] = [];
+
+    for (const m of messages) {
+      if (m.status === "pending") {
+        pending.push(m);
+        continue;
+      }
+      const leaseExpired = !m.claimedUntil || m.claimedUntil < now;
+      const orphanedHere =
+        m.claimedHost === this.hostName &&
+        m.claimedBy !== this.workerId &&
+        !processAlive(m.claimedBy);
+      const formerLeader =
+        token !== undefined &&
+        m.claimedBy !== this.workerId &&
+        (m.fencingToken || 0) < token;
+      if (!leaseExpired && !orphanedHere && !formerLeader) continue;
+
+      if ((m.attempts || 0) >= this.maxAttempts) {
+        await this.fail(m.id, "abandoned after max attempts", m.claimToken);
+        failed.push(m);
+      } else {
+        await this.requeue(m.id, m.claimToken);
+        requeued.push({ ...m, status: "pending" });
+      }
+    }
+
+    const byAge = (a: QueueMessage, b: QueueMessage) =>
+      (a.timestamp || 0) - (b.timestamp || 0);
+    return {
+      requeued,
+      failed,
+      pending: [...pending, ...requeued].sort(byAge),
+    };
+  }
+
+  shutdown() {
+    for (const messageId of [...this.renewTimers.keys()]) {
+      this.stopRenewing(messageId);
+    }
+    this.claimTokens.clear();
+  }
+}
@@ -0,0 +1,193 @@
+import { id, type init } from "@instantdb/node";
+import type { AppSchema } from "../../instant.schema";
+import {
+  matchTrigger,
+  runDetector,
+  runRemediation,
+  type CheckResult,
+  type DetectorConfig,
+  type NetworkConfig,
+  type RemediationResult,
+} from "../lib/network-diagnosis";
+
+type InstantDB = ReturnType<typeof init<AppSchema>>;
+
+/**
+ * Watches process output for network errors and records a diagnosis in
+ * `networkDiagnostics`: what each detector found, what was tried to fix
+ * it, and a one-line summary the phone shows next to the process.
+ *
+ *   clear        every detector passed; the network isn't the problem
+ *   remediated   problems were found and the remediations fixed them
+ *   unresolved   something is still wrong (or has no remediation)
+ *
+ * Remediations are attempted at most `maxAttempts` times per detector until
+ * that detector passes again, so a broken fix isn't retried forever.
+ */
+
+export interface NetworkDiagnosticsHooks {
+  // A remediation worked; the process is probably worth restarting
+  onRemediated?: (processName: string) => void;
+  log?: (kind: string, message: string, meta?: any) => Promise<void>;
+}
+
+export interface Diagnosis {
+  process: string;
+  trigger: string;
+  checks: CheckResult[];
+  remediations: RemediationResult[];
+  outcome: "clear" | "remediated" | "unresolved";
+  summary: string;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+export class NetworkDiagnostics {
+  private running = false;
+  private lastRunAt = 0;
+  private attempts = new Map<string, number>(); // Remediation attempts per detector
+
+  constructor(
+    private db: InstantDB | null,
+    private config: NetworkConfig,
+    private hooks: NetworkDiagnosticsHooks = {}
+  ) {}
+
+  private get detectors(): DetectorConfig[] {
+    return this.config.detectors.filter((d) => d.enabled !== false);
+  }
+
+  // Feed process output; starts a diagnosis when it contains a trigger
+  watch(processName: string, output: string): void {
+    if (this.config.processes && !this.config.processes.includes(processName)) {
+      return;
+    }
+    const trigger = matchTrigger(this.config, output);
+    if (!trigger) return;
+    if (this.running) return;
+    if (Date.now() - this.lastRunAt < (this.config.coolDownMs ?? 60_000)) return;
+    console.log(`🌐 Network error in ${processName} output (${trigger})`);
+    this.diagnose(processName, trigger, output.trim().slice(-1_000)).catch((err) =>
+      console.error("❌ Network diagnosis failed:", err)
+    );
+  }
+
+  async diagnose(
+    processName: string,
+    trigger: string,
+    excerpt = ""
+  ): Promise<Diagnosis> {
+    this.running = true;
+    this.lastRunAt = Date.now();
+    const rowId = id();
+    try {
+      await this.record(rowId, {
+        process: processName,
+        trigger,
+        excerpt,
+        status: "running",
+        startedAt: Date.now(),
+      });
+
+      const detectors = this.detectors;
+      const checks = await Promise.all(detectors.map((d) => runDetector(d)));
+      const remediations: RemediationResult[] = [];
+      const stillFailing = new Set<string>();
+
+      for (const check of checks) {
+        if (check.ok) {
+          this.attempts.delete(check.detector);
+          continue;
+        }
+        console.log(`🔍 ${check.detector}: ${check.detail}`);
+        const detector = detectors.find((d) => d.name === check.detector)!;
+        const remediation = detector.remediation;
+        const tries = this.attempts.get(detector.name) || 0;
+        if (!remediation || tries >= (remediation.maxAttempts ?? 3)) {
+          stillFailing.add(detector.name);
+          continue;
+        }
+
+        this.attempts.set(detector.name, tries + 1);
+        console.log(`🔧 Remediating ${detector.name} (attempt ${tries + 1})`);
+        const result = await runRemediation(detector.name, remediation);
+        if (result.ok) {
+          await sleep(remediation.settleMs ?? 3_000);
+          result.verified = (await runDetector(detector)).ok;
+          if (result.verified) this.attempts.delete(detector.name);
+        }
+        remediations.push(result);
+        if (!result.verified) stillFailing.add(detector.name);
+      }
+
+      const problems = checks.filter((c) => !c.ok);
+      const outcome: Diagnosis["outcome"] =
+        problems.length === 0
+          ? "clear"
+          : stillFailing.size === 0
+            ? "remediated"
+            : "unresolved";
+      const summary = this.summarize(outcome, checks, stillFailing);
+      const diagnosis = {
+        process: processName,
+        trigger,
+        checks,
+        remediations,
+        outcome,
+        summary,
+      };
+
+      await this.record(rowId, {
+        status: "done",
+        outcome,
+        summary,
+        checks,
+        remediations,
+        finishedAt: Date.now(),
+      });
+      console.log(`🌐 Network diagnosis: ${summary}`);
+      await this.hooks.log?.("network", summary, {
+        process: processName,
+        trigger,
+        outcome,
+      });
+      if (remediations.some((r) => r.verified)) {
+        this.hooks.onRemediated?.(processName);
+      }
+      return diagnosis;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private summarize(
+    outcome: Diagnosis["outcome"],
+    checks: CheckResult[],
+    stillFailing: Set<string>
+  ): string {
+    if (outcome === "clear") {
+      return checks.length === 0
+        ? "Network error seen; no detectors configured"
+        : `Network error seen, but all ${checks.length} checks passed`;
+    }
+    const describe = (name: string) => {
+      const detector = this.config.detectors.find((d) => d.name === name);
+      const check = checks.find((c) => c.detector === name);
+      return `${detector?.description || name}${check ? ` (${check.detail})` : ""}`;
+    };
+    if (outcome === "remediated") {
+      const fixed = checks.filter((c) => !c.ok).map((c) => c.detector);
+      return `Fixed: ${fixed.map(describe).join("; ")}`;
+    }
+    return [...stillFailing].map(describe).join("; ");
+  }
+
+  private async record(rowId: string, fields: Record<string, any>) {
+    if (!this.db) return;
+    try {
+      await this.db.transact([this.db.tx.networkDiagnostics[rowId]!.update(fields)]);
+    } catch (err) {
+      console.warn("⚠️ Could not record network diagnosis:", err);
+    }
+  }
+}
@@ -0,0 +1,516 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import net from "node:net";
+import {
+  expandVars,
+  startOrder,
+  type ProcessConfig,
+  type ProcessManifest,
+} from "../lib/process-manifest";
+
+/**
+ * Runs the processes listed in the manifest (see process-manifest.ts):
+ * starts them in dependency order, restarts them by their restart policy
+ * with exponential backoff, runs their health checks, and stops restarting
+ * a crash-looping process for a while (its circuit opens).
+ *
+ * Anything specific to one process (Expo error scanning, crash snapshots,
+ * logging to InstantDB) stays with the supervisor, through the hooks.
+ */
+
+export interface ProcessHooks {
+  onOutput?: (name: string, chunk: string) => void;
+  // expected: we stopped it ourselves (restart, shutdown)
+  onExit?: (name: string, info: ProcessExit & { expected: boolean }) => void;
+  onUnhealthy?: (name: string, reason: string) => void;
+  onCircuitOpen?: (name: string, report: CrashReport) => void;
+  onCircuitClose?: (name: string) => void;
+  // Age of the newest heartbeat of this kind in ms, null if there is none
+  heartbeatAge?: (kind: string) => Promise<number | null>;
+}
+
+export interface ProcessExit {
+  code: number | null;
+  signal: NodeJS.Signals | null;
+  at: number;
+}
+
+export type CircuitState = "closed" | "open" | "trial";
+
+export interface CrashReport {
+  failures: number; // Within the circuit breaker window
+  reason: string; // Of the last failure
+  lastExit: ProcessExit | null;
+  stderr: string; // Last lines the process wrote to stderr
+  coolDownMs: number;
+  retryAt: number;
+}
+
+export interface ProcessStatus {
+  name: string;
+  enabled: boolean;
+  running: boolean;
+  ready: boolean;
+  pid: number | null;
+  port: number | null;
+  startedAt: number | null;
+  restarts: number;
+  lastExit: ProcessExit | null;
+  circuit: CircuitState;
+  retryAt: number | null; // When an open circuit lets the process run again
+  recentFailures: number;
+}
+
+interface ProcessState {
+  config: ProcessConfig;
+  child?: ChildProcess;
+  port: number | null;
+  startedAt: number | null;
+  ready: boolean;
+  restarts: number;
+  backoffMs: number;
+  healthFailures: number;
+  lastCheckAt: number;
+  lastExit: ProcessExit | null;
+  restartTimer?: NodeJS.Timeout;
+  readyWaiters: (() => void)[];
+  failures: number[]; // Times of recent unexpected exits and health restarts
+  circuit: CircuitState;
+  coolDownMs: number;
+  retryAt: number | null;
+  trialTimer?: NodeJS.Timeout;
+  stderrTail: string[];
+}
+
+const TICK_MS = 5_000;
+
+export class ProcessManager {
+  private procs = new Map<string, ProcessState>();
+  private expectedExits = new WeakSet<ChildProcess>();
+  private healthInterval?: NodeJS.Timeout;
+  private stopping = false;
+
+  constructor(
+    manifest: ProcessManifest,
+    private hooks: ProcessHooks = {}
+  ) {
+    for (const config of startOrder(manifest.processes)) {
+      this.procs.set(config.name, {
+        config,
+        port: null,
+        startedAt: null,
+        ready: false,
+        restarts: 0,
+        backoffMs: config.backoff?.initialMs ?? 1000,
+        healthFailures: 0,
+        lastCheckAt: 0,
+        lastExit: null,
+        readyWaiters: [],
+        failures: [],
+        circuit: "closed",
+        coolDownMs: config.circuitBreaker?.coolDownMs ?? 60_000,
+        retryAt: null,
+        stderrTail: [],
+      });
+    }
+  }
+
+  get names(): string[] {
+    return [...this.procs.keys()];
+  }
+
+  has(name: string): boolean {
+    return this.procs.has(name);
+  }
+
+  // Start every enabled process, dependencies first
+  startAll(): void {
+    this.stopping = false;
+    for (const { config } of this.procs.values()) {
+      if (config.enabled === false) continue;
+      this.start(config.name).catch((err) =>
+        console.error(`❌ Could not start ${config.name}:`, err)
+      );
+    }
+    this.healthInterval = setInterval(() => this.checkHealth(), TICK_MS) as any;
+  }
+
+  async stopAll(): Promise<void> {
+    this.stopping = true;
+    if (this.healthInterval) clearInterval(this.healthInterval);
+    await Promise.all([...this.procs.keys()].reverse().map((name) => this.stop(name)));
+  }
+
+  async start(name: string): Promise<void> {
+    const state = this.state(name);
+    if (state.child) return;
+    clearTimeout(state.restartTimer);
+
+    for (const dep of state.config.dependsOn || []) {
+      if (this.state(dep).config.enabled === false) continue;
+      if (!this.state(dep).ready) console.log(`⏳ ${name} waits for ${dep}`);
+      await this.whenReady(dep);
+    }
+    if (state.child || this.stopping) return;
+
+    const { config } = state;
+    state.port = config.port ? await findFreePort(this.candidatePorts(config)) : null;
+    const vars = { ...process.env, port: state.port == null ? "" : String(state.port) };
+    const args = (config.args || []).map((a) => expandVars(a, vars)).filter(Boolean);
+    const env = { ...process.env };
+    for (const [key, value] of Object.entries(config.env || {})) {
+      env[key] = expandVars(value, vars);
+    }
+
+    console.log(`▶️  Starting ${name}${state.port ? ` on port ${state.port}` : ""}`);
+    const child = spawn(expandVars(config.command, vars), args, {
+      cwd: config.cwd ? expandVars(config.cwd, vars) : undefined,
+      stdio: "pipe",
+      env,
+    });
+    state.child = child;
+    state.startedAt = Date.now();
+    state.ready = false;
+    state.healthFailures = 0;
+    state.lastCheckAt = 0;
+    state.stderrTail = [];
+    if (!config.ready) this.markReady(state);
+    if (state.circuit === "trial") {
+      // Closes the circuit if this run stays up long enough
+      state.trialTimer = setTimeout(() => {
+        if (state.child !== child) return;
+        console.log(`🟢 ${name} is stable again; circuit closed`);
+        state.circuit = "closed";
+        state.retryAt = null;
+        state.failures = [];
+        state.coolDownMs = config.circuitBreaker?.coolDownMs ?? 60_000;
+        this.hooks.onCircuitClose?.(name);
+      }, config.backoff?.resetAfterMs ?? 60_000);
+    }
+
+    const readyRe = config.ready ? new RegExp(config.ready.pattern) : null;
+    const logRe =
+      config.health?.type === "log"
+        ? new RegExp(config.health.pattern, config.health.flags)
+        : null;
+    const keepLines = config.crashReportLines ?? 50;
+    const onData = (stream: NodeJS.WriteStream) => (data: Buffer) => {
+      const chunk = data.toString();
+      stream.write(chunk);
+      if (state.child !== child) return;
+      if (stream === process.stderr) {
+        state.stderrTail.push(...chunk.split("\n").filter(Boolean));
+        state.stderrTail.splice(0, Math.max(0, state.stderrTail.length - keepLines));
+      }
+      if (readyRe && !state.ready && readyRe.test(chunk)) this.markReady(state);
+      if (logRe?.test(chunk)) this.unhealthy(state, `output matched /${logRe.source}/`);
+      this.hooks.onOutput?.(name, chunk);
+    };
+    child.stdout?.on("data", onData(process.stdout));
+    child.stderr?.on("data", onData(process.stderr));
+    child.on("error", (err) => console.error(`❌ ${name} failed to spawn:`, err.message));
+    child.on("exit", (code, signal) => {
+      // Give the last stderr a moment to arrive; it goes into crash reports
+      let handled = false;
+      const done = () => {
+        if (handled) return;
+        handled = true;
+        this.onExit(state, child, code, signal);
+      };
+      child.once("close", done);
+      setTimeout(done, 250);
+    });
+  }
+
+  // Stop without restarting it. Resolves once the process has exited; it is
+  // killed outright if it ignores stopSignal for longer than stopTimeoutMs.
+  stop(name: string): Promise<void> {
+    const state = this.state(name);
+    clearTimeout(state.restartTimer);
+    clearTimeout(state.trialTimer);
+    const child = state.child;
+    state.child = undefined;
+    state.ready = false;
+    if (!child) return Promise.resolve();
+
+    this.expectedExits.add(child);
+    return new Promise((resolve) => {
+      if (child.exitCode !== null || child.signalCode !== null) return resolve();
+      const killTimer = setTimeout(() => {
+        console.log(`⚠️ ${name} did not stop in time, killing it`);
+        try {
+          child.kill("SIGKILL");
+        } catch {}
+      }, state.config.stopTimeoutMs ?? 10_000);
+      child.once("exit", () => {
+        clearTimeout(killTimer);
+        resolve();
+      });
+      try {
+        child.kill(state.config.stopSignal || "SIGTERM");
+      } catch {}
+    });
+  }
+
+  // Stop and start again right away, without waiting out the backoff or
+  // an open circuit
+  async restart(name: string): Promise<void> {
+    const state = this.state(name);
+    await this.stop(name);
+    state.restarts++;
+    state.circuit = "closed";
+    state.retryAt = null;
+    state.failures = [];
+    await this.start(name);
+  }
+
+  // Start outside our supervision (used by one-off CLI commands that exit)
+  async startDetached(name: string): Promise<void> {
+    const { config } = this.state(name);
+    const port = config.port ? await findFreePort(this.candidatePorts(config)) : null;
+    const vars = { ...process.env, port: port == null ? "" : String(port) };
+    const child = spawn(
+      expandVars(config.command, vars),
+      (config.args || []).map((a) => expandVars(a, vars)).filter(Boolean),
+      {
+        cwd: config.cwd ? expandVars(config.cwd, vars) : undefined,
+        stdio: "ignore",
+        env: process.env,
+        detached: true,
+      }
+    );
+    child.unref();
+  }
+
+  // Send input to a running process, e.g. "r" to the Expo dev server
+  write(name: string, data: string): boolean {
+    const child = this.state(name).child;
+    if (!child?.stdin || child.killed) return false;
+    child.stdin.write(data);
+    return true;
+  }
+
+  isRunning(name: string): boolean {
+    return Boolean(this.procs.get(name)?.child);
+  }
+
+  port(name: string): number | null {
+    return this.procs.get(name)?.port ?? null;
+  }
+
+  status(): ProcessStatus[] {
+    return [...this.procs.values()].map((s) => ({
+      name: s.config.name,
+      enabled: s.config.enabled !== false,
+      running: Boolean(s.child),
+      ready: s.ready,
+      pid: s.child?.pid ?? null,
+      port: s.child ? s.port : null,
+      startedAt: s.child ? s.startedAt : null,
+      restarts: s.restarts,
+      lastExit: s.lastExit,
+      circuit: s.circuit,
+      retryAt: s.retryAt,
+      recentFailures: s.failures.length,
+    }));
+  }
+
+  private state(name: string): ProcessState {
+    const state = this.procs.get(name);
+    if (!state) throw new Error(`No process named "${name}" in the manifest`);
+    return state;
+  }
+
+  private candidatePorts(config: ProcessConfig): number[] {
+    return (config.port?.candidates || [])
+      .map((c) => Number(expandVars(String(c))))
+      .filter((n) => Number.isInteger(n) && n > 0);
+  }
+
+  private whenReady(name: string): Promise<void> {
+    const state = this.state(name);
+    if (state.ready) return Promise.resolve();
+    return new Promise((resolve) => state.readyWaiters.push(resolve));
+  }
+
+  private markReady(state: ProcessState): void {
+    state.ready = true;
+    const waiters = state.readyWaiters.splice(0);
+    for (const resolve of waiters) resolve();
+  }
+
+  private onExit(
+    state: ProcessState,
+    child: ChildProcess,
+    code: number | null,
+    signal: NodeJS.Signals | null
+  ): void {
+    const { name } = state.config;
+    const expected = this.expectedExits.has(child);
+    const exit = { code, signal, at: Date.now() };
+    console.log(`⚠️ ${name} exited (code=${code}, signal=${signal})`);
+    this.hooks.onExit?.(name, { ...exit, expected });
+    if (expected || state.child !== child) return;
+
+    const ranFor = exit.at - (state.startedAt || exit.at);
+    state.child = undefined;
+    state.ready = false;
+    state.lastExit = exit;
+    if (ranFor >= (state.config.backoff?.resetAfterMs ?? 60_000)) {
+      state.backoffMs = state.config.backoff?.initialMs ?? 1000;
+    }
+
+    const policy = state.config.restart ?? "always";
+    const failed = code !== 0;
+    if (this.stopping || policy === "never" || (policy === "on-failure" && !failed)) {
+      return;
+    }
+    this.afterFailure(state, `exited with ${signal || `code ${code}`}`);
+  }
+
+  // Restart with backoff, unless it has been failing too often
+  private afterFailure(state: ProcessState, reason: string): void {
+    const breaker = state.config.circuitBreaker;
+    const now = Date.now();
+    const windowMs = breaker?.windowMs ?? 120_000;
+    state.failures = [...state.failures, now].filter((t) => now - t <= windowMs);
+    if (state.circuit === "trial" || state.failures.length >= (breaker?.restarts ?? 5)) {
+      this.openCircuit(state, reason);
+    } else {
+      this.scheduleRestart(state);
+    }
+  }
+
+  private openCircuit(state: ProcessState, reason: string): void {
+    const { name } = state.config;
+    const coolDownMs = state.coolDownMs;
+    state.circuit = "open";
+    state.retryAt = Date.now() + coolDownMs;
+    state.coolDownMs = Math.min(
+      coolDownMs * 2,
+      state.config.circuitBreaker?.maxCoolDownMs ?? 30 * 60_000
+    );
+    console.log(
+      `🧯 ${name} is crash-looping (${state.failures.length} failures); next try in ${Math.round(coolDownMs / 1000)}s`
+    );
+    this.hooks.onCircuitOpen?.(name, {
+      failures: state.failures.length,
+      reason,
+      lastExit: state.lastExit,
+      stderr: state.stderrTail.join("\n"),
+      coolDownMs,
+      retryAt: state.retryAt,
+    });
+    state.failures = [];
+    clearTimeout(state.restartTimer);
+    state.restartTimer = setTimeout(() => {
+      state.circuit = "trial";
+      state.restarts++;
+      console.log(`🔌 Trying ${name} again after its cool-down`);
+      this.start(name).catch((err) =>
+        console.error(`❌ Could not restart ${name}:`, err)
+      );
+    }, coolDownMs);
+  }
+
+  private scheduleRestart(state: ProcessState): void {
+    const wait = state.backoffMs;
+    state.backoffMs = Math.min(wait * 2, state.config.backoff?.maxMs ?? 30_000);
+    console.log(`⏳ Restarting ${state.config.name} in ${wait}ms`);
+    clearTimeout(state.restartTimer);
+    state.restartTimer = setTimeout(() => {
+      state.restarts++;
+      this.start(state.config.name).catch((err) =>
+        console.error(`❌ Could not restart ${state.config.name}:`, err)
+      );
+    }, wait);
+  }
+
+  private unhealthy(state: ProcessState, reason: string): void {
+    if (!state.child) return;
+    console.log(`🔴 ${state.config.name} unhealthy (${reason}) → restarting`);
+    this.hooks.onUnhealthy?.(state.config.name, reason);
+    void this.stop(state.config.name);
+    this.afterFailure(state, reason);
+  }
+
+  private async checkHealth(): Promise<void> {
+    const now = Date.now();
+    for (const state of this.procs.values()) {
+      const health = state.config.health;
+      if (!health || health.type === "log" || !state.child) continue;
+      if (now - (state.startedAt || now) < (health.graceMs ?? 20_000)) continue;
+      if (now - state.lastCheckAt < (health.intervalMs ?? 10_000)) continue;
+      state.lastCheckAt = now;
+
+      const child = state.child;
+      const problem = await this.probe(state).catch((err) => String(err));
+      if (state.child !== child) continue; // Restarted while we were checking
+      if (!problem) {
+        state.healthFailures = 0;
+        continue;
+      }
+      state.healthFailures++;
+      if (state.healthFailures >= (health.failures ?? 1)) {
+        this.unhealthy(state, problem);
+      }
+    }
+  }
+
+  // null when healthy, otherwise what is wrong
+  private async probe(state: ProcessState): Promise<string | null> {
+    const health = state.config.health!;
+    if (health.type === "heartbeat") {
+      if (!this.hooks.heartbeatAge) return null;
+      const age = await this.hooks.heartbeatAge(health.kind);
+      const staleMs = health.staleMs ?? 30_000;
+      if (age === null) return `no ${health.kind} heartbeat`;
+      return age > staleMs ? `${health.kind} heartbeat ${Math.round(age / 1000)}s old` : null;
+    }
+    if (health.type === "http") {
+      const url = expandVars(health.url, {
+        ...process.env,
+        port: state.port == null ? "" : String(state.port),
+      });
+      try {
+        const res = await fetch(url, {
+          signal: AbortSignal.timeout(health.timeoutMs ?? 5_000),
+        });
+        return res.status < 400 ? null : `${url} answered ${res.status}`;
+      } catch (err) {
+        return `${url} unreachable (${(err as Error).message})`;
+      }
+    }
+    return null;
+  }
+}
+
+// First port in the list that is free, else any free port
+export function findFreePort(preferred: number[]): Promise<number> {
+  return new Promise((resolve) => {
+    const tryList = [...preferred];
+    const tryNext = () => {
+      const want = tryList.shift();
+      if (want == null) {
+        // fallback to random
+        const srv = net.createServer();
+        srv.listen(0, () => {
+          const p = (srv.address() as any).port as number;
+          srv.close(() => resolve(p));
+        });
+        srv.on("error", () => resolve(8081));
+        return;
+      }
+      const srv = net.createServer();
+      srv.once("error", () => {
+        try {
+          srv.close();
+        } catch {}
+        tryNext();
+      });
+      srv.listen(want, () => {
+        srv.close(() => resolve(want));
+      });
+    };
+    tryNext();
+  });
+}
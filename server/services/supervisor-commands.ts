@@ -0,0 +1,198 @@
+import { type init } from "@instantdb/node";
+import type { AppSchema } from "../../instant.schema";
+import {
+  SUPERVISOR_COMMANDS,
+  type SupervisorCommand,
+  type SupervisorCommandName,
+} from "../../lib/data-model";
+
+type InstantDB = ReturnType<typeof init<AppSchema>>;
+
+/**
+ * Runs commands queued from the phone in the `supervisorCommands` table:
+ *
+ *   pending → running → succeeded | failed
+ *   pending, older than maxAgeMs → expired  (a restart asked for an hour ago
+ *                                            is not what anyone wants now)
+ *
+ * Only names in SUPERVISOR_COMMANDS that the supervisor registered a handler
+ * for are run, one at a time. A handler's result is stored as the output;
+ * throw CommandFailedError to report an exit code and output of your own.
+ */
+
+export type CommandHandler = () => Promise<unknown> | unknown;
+
+export interface SupervisorCommandOptions {
+  maxAgeMs?: number; // Pending commands older than this are expired, not run
+  outputChars?: number; // Tail of the output kept on the row
+  log?: (kind: string, message: string, meta?: any) => Promise<void>;
+}
+
+export class CommandFailedError extends Error {
+  constructor(
+    message: string,
+    public exitCode = 1,
+    public output?: string
+  ) {
+    super(message);
+    this.name = "CommandFailedError";
+  }
+}
+
+// Keep the end of long output, where the error usually is
+export function tailOutput(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  const tail = text.slice(text.length - maxChars);
+  const newline = tail.indexOf("\n");
+  return "…" + (newline >= 0 && newline < 200 ? tail.slice(newline) : tail);
+}
+
+function describeResult(result: unknown): string {
+  if (result === undefined || result === null) return "";
+  if (typeof result === "string") return result;
+  if (typeof result === "object" && typeof (result as any).output === "string") {
+    return (result as any).output;
+  }
+  return JSON.stringify(result);
+}
+
+export class SupervisorCommandRunner {
+  private unsubscribeFn: (() => void) | null = null;
+  private chain: Promise<void> = Promise.resolve();
+  private seen = new Set<string>();
+  private maxAgeMs: number;
+  private outputChars: number;
+  private log: NonNullable<SupervisorCommandOptions["log"]>;
+
+  constructor(
+    private db: InstantDB,
+    private handlers: Partial<Record<SupervisorCommandName, CommandHandler>>,
+    options: SupervisorCommandOptions = {}
+  ) {
+    this.maxAgeMs = options.maxAgeMs ?? 10 * 60_000;
+    this.outputChars = options.outputChars ?? 4_000;
+    this.log = options.log ?? (async () => {});
+  }
+
+  async start(): Promise<void> {
+    if (this.unsubscribeFn) return;
+    await this.recoverInterrupted();
+    console.log("📲 Listening for supervisor commands from the app");
+    this.unsubscribeFn = this.db.subscribeQuery(
+      { supervisorCommands: { $: { where: { status: "pending" } } } },
+      (resp) => {
+        if (resp.error) {
+          console.error("❌ Supervisor command subscription error:", resp.error);
+          return;
+        }
+        const pending = [...(resp.data?.supervisorCommands || [])].sort(
+          (a, b) => a.requestedAt - b.requestedAt
+        );
+        for (const command of pending) this.enqueue(command);
+      }
+    );
+  }
+
+  stop(): void {
+    this.unsubscribeFn?.();
+    this.unsubscribeFn = null;
+  }
+
+  // Resolves once everything queued so far has finished
+  idle(): Promise<void> {
+    return this.chain;
+  }
+
+  private enqueue(command: SupervisorCommand): void {
+    if (this.seen.has(command.id)) return;
+    this.seen.add(command.id);
+    this.chain = this.chain.then(() => this.execute(command));
+  }
+
+  private async update(commandId: string, fields: Partial<SupervisorCommand>) {
+    await this.db.transact([
+      this.db.tx.supervisorCommands[commandId]!.update(fields),
+    ]);
+  }
+
+  private async execute(command: SupervisorCommand): Promise<void> {
+    try {
+      if (Date.now() - command.requestedAt > this.maxAgeMs) {
+        await this.update(command.id, {
+          status: "expired",
+          output: "Not run: requested too long ago",
+          finishedAt: Date.now(),
+        });
+        return;
+      }
+
+      const handler = SUPERVISOR_COMMANDS.includes(command.command)
+        ? this.handlers[command.command]
+        : undefined;
+      if (!handler) {
+        await this.finish(command, "failed", 1, `Unknown command: ${command.command}`);
+        return;
+      }
+
+      console.log(`📲 Running "${command.command}" from the app`);
+      await this.update(command.id, { status: "running", startedAt: Date.now() });
+      try {
+        const result = await handler();
+        await this.finish(command, "succeeded", 0, describeResult(result));
+      } catch (err) {
+        const failure =
+          err instanceof CommandFailedError
+            ? err
+            : new CommandFailedError((err as Error)?.message || String(err));
+        await this.finish(
+          command,
+          "failed",
+          failure.exitCode,
+          failure.output || failure.message
+        );
+      }
+    } catch (err) {
+      console.error(`❌ Could not run supervisor command ${command.id}:`, err);
+    }
+  }
+
+  private async finish(
+    command: SupervisorCommand,
+    status: "succeeded" | "failed",
+    exitCode: number,
+    output: string
+  ): Promise<void> {
+    await this.update(command.id, {
+      status,
+      exitCode,
+      output: tailOutput(output, this.outputChars),
+      finishedAt: Date.now(),
+    });
+    console.log(
+      `${status === "succeeded" ? "✅" : "❌"} "${command.command}" ${status} (exit ${exitCode})`
+    );
+    await this.log("command", `${command.command} ${status} (requested from app)`, {
+      commandId: command.id,
+      userId: command.userId,
+      exitCode,
+    });
+  }
+
+  // A supervisor that died mid-command can't report on it; say so
+  private async recoverInterrupted(): Promise<void> {
+    try {
+      const { data } = await this.db.queryOnce({
+        supervisorCommands: { $: { where: { status: "running" } } },
+      });
+      for (const command of data?.supervisorCommands || []) {
+        await this.update(command.id, {
+          status: "failed",
+          output: "Supervisor restarted while this was running",
+          finishedAt: Date.now(),
+        });
+      }
+    } catch (err) {
+      console.warn("⚠️ Could not recover interrupted supervisor commands:", err);
+    }
+  }
+}
@@ -0,0 +1,299 @@
+import { existsSync } from "node:fs";
+import { type init } from "@instantdb/node";
+import type { AppSchema } from "../../instant.schema";
+import {
+  agentRunInProgress,
+  worktreeActionPending,
+  type Worktree,
+} from "../../lib/data-model";
+import { GitWorktrees, type WorktreeInfo } from "../lib/git-worktrees";
+
+type InstantDB = ReturnType<typeof init<AppSchema>>;
+
+/**
+ * Worktree lifecycle, driven by the `worktrees` entity and run by the
+ * supervisor:
+ *
+ *   requested → active                 (phone asks, supervisor creates it)
+ *   active + action=rebase → active    (branch moved onto the base branch)
+ *   active + action=merge → merged     (merged into the main checkout, removed)
+ *   active + action=discard → discarded
+ *   active, idle for WORKTREE_STALE_DAYS → archived (directory removed,
+ *                                          uncommitted work committed to the branch)
+ *
+ * A failed merge or rebase leaves the worktree active and explains why in
+ * `lastResult`. Actions are refused while an agent run for the conversation
+ * is still going (see agentRunInProgress); the phone asks again later. The handler only reads the table: agent runs for a
+ * conversation with an active worktree use its path as their cwd.
+ */
+
+export interface WorktreeServiceOptions {
+  root?: string; // Where worktrees are created (WORKTREE_ROOT)
+  staleMs?: number; // Archive worktrees idle for longer than this
+  sweepMs?: number; // How often to refresh disk usage and look for stale ones
+}
+
+export class WorktreeService {
+  private git: GitWorktrees;
+  private staleMs: number;
+  private sweepMs: number;
+  private unsubscribeFn: (() => void) | null = null;
+  private sweepInterval: NodeJS.Timeout | null = null;
+  private chain: Promise<void> = Promise.resolve();
+  private inFlight = new Set<string>();
+
+  constructor(
+    private db: InstantDB,
+    repo: string,
+    options: WorktreeServiceOptions = {}
+  ) {
+    this.git = new GitWorktrees(repo, options.root);
+    this.staleMs = options.staleMs ?? 7 * 24 * 60 * 60_000;
+    this.sweepMs = options.sweepMs ?? 10 * 60_000;
+  }
+
+  start(): void {
+    if (this.unsubscribeFn) return;
+    console.log(`🌿 Managing worktrees in ${this.git.root}`);
+    this.unsubscribeFn = this.db.subscribeQuery({ worktrees: {} }, (resp) => {
+      if (resp.error) {
+        console.error("❌ Worktree subscription error:", resp.error);
+        return;
+      }
+      for (const w of resp.data?.worktrees || []) {
+        if (w.status === "requested") this.enqueue(w, "create");
+        else if (w.status === "active" && worktreeActionPending(w)) {
+          this.enqueue(w, w.action!);
+        }
+      }
+    });
+    this.sweepInterval = setInterval(() => this.sweep(), this.sweepMs) as any;
+    this.sweep();
+  }
+
+  stop(): void {
+    this.unsubscribeFn?.();
+    this.unsubscribeFn = null;
+    if (this.sweepInterval) clearInterval(this.sweepInterval);
+    this.sweepInterval = null;
+  }
+
+  // Git operations on one repository must not overlap; run them in order
+  private enqueue(w: Worktree, what: string): void {
+    const key = `${w.id}:${what}:${w.actionRequestedAt || ""}`;
+    if (this.inFlight.has(key)) return;
+    this.inFlight.add(key);
+    this.chain = this.chain
+      .then(() => (what === "create" ? this.create(w) : this.runAction(w)))
+      .catch((err) => console.error(`❌ Worktree ${what} failed:`, err))
+      .finally(() => this.inFlight.delete(key));
+  }
+
+  private async update(worktreeId: string, fields: Partial<Worktree>) {
+    await this.db.transact([
+      this.db.tx.worktrees[worktreeId]!.update({
+        ...fields,
+        updatedAt: Date.now(),
+      }),
+    ]);
+  }
+
+  private info(w: Worktree): WorktreeInfo {
+    return {
+      path: w.path!,
+      branch: w.branch!,
+      baseBranch: w.baseBranch!,
+      baseSha: w.baseSha!,
+    };
+  }
+
+  private async create(w: Worktree): Promise<void> {
+    try {
+      const info = await this.git.create(w.conversationId);
+      await this.update(w.id, {
+        status: "active",
+        ...info,
+        lastResult: `Created ${info.branch} from ${info.baseBranch}`,
+      });
+      console.log(`🌿 Created worktree ${info.branch} at ${info.path}`);
+    } catch (err) {
+      await this.update(w.id, {
+        status: "failed",
+        lastResult: (err as Error).message,
+      });
+    }
+  }
+
+  private async agentBusy(conversationId: string): Promise<boolean> {
+    const res = await this.db.queryOnce({
+      messages: { $: { where: { conversationId, status: "streaming" } } },
+      checkpoints: { $: { where: { conversationId, status: "running" } } },
+    });
+    return agentRunInProgress(res.data.messages, res.data.checkpoints);
+  }
+
+  private async runAction(w: Worktree): Promise<void> {
+    const info = this.info(w);
+    console.log(`🌿 ${w.action} ${info.branch}`);
+    try {
+      if (await this.agentBusy(w.conversationId)) {
+        await this.update(w.id, {
+          actionHandledAt: Date.now(),
+          lastResult: `An agent run is still working on ${info.branch}; try again once it has answered.`,
+        });
+        return;
+      }
+      switch (w.action) {
+        case "merge": {
+          const result = await this.git.merge(info);
+          await this.update(w.id, {
+            actionHandledAt: Date.now(),
+            lastResult: result.message,
+            ...(result.ok ? { status: "merged", removedAt: Date.now() } : {}),
+          });
+          break;
+        }
+        case "rebase": {
+          const result = await this.git.rebase(info);
+          await this.update(w.id, {
+            actionHandledAt: Date.now(),
+            lastResult: result.message,
+            ...(result.baseSha ? { baseSha: result.baseSha } : {}),
+          });
+          break;
+        }
+        case "discard":
+          await this.git.remove(info, { deleteBranch: true });
+          await this.update(w.id, {
+            actionHandledAt: Date.now(),
+            status: "discarded",
+            lastResult: `Discarded ${info.branch}`,
+            removedAt: Date.now(),
+          });
+          break;
+      }
+    } catch (err) {
+      await this.update(w.id, {
+        actionHandledAt: Date.now(),
+        lastResult: (err as Error).message,
+      });
+    }
+  }
+
+  // Refresh disk usage and archive worktrees nobody has used in a while
+  async sweep(): Promise<void> {
+    try {
+      const res = await this.db.queryOnce({
+        worktrees: { $: { where: { status: "active" } } },
+      });
+      for (const w of res.data.worktrees) {
+        if (!existsSync(w.path!)) {
+          await this.update(w.id, {
+            status: "archived",
+            lastResult: "The worktree directory was removed outside the app",
+            removedAt: Date.now(),
+          });
+          continue;
+        }
+        // du failing says nothing about the worktree; try again next sweep
+        const diskBytes = await this.git.diskUsage(w.path!);
+        if (diskBytes === null) {
+          console.warn(`⚠️ Could not measure ${w.path}; skipped this sweep`);
+          continue;
+        }
+        const idleSince = w.lastUsedAt || w.createdAt;
+        if (Date.now() - idleSince > this.staleMs && !worktreeActionPending(w)) {
+          const info = this.info(w);
+          await this.git.commitPending(info.path, `Work left on ${info.branch}`);
+          await this.git.remove(info);
+          await this.update(w.id, {
+            status: "archived",
+            diskBytes: 0,
+            lastResult: `Archived after ${Math.round(this.staleMs / 86_400_000)} idle days; work kept on ${info.branch}`,
+            removedAt: Date.now(),
+          });
+          console.log(`🧹 Archived stale worktree ${info.branch}`);
+        } else if (diskBytes !== w.diskBytes) {
+          await this.update(w.id, { diskBytes });
+        }
+      }
+    } catch (err) {
+      console.warn("⚠️ Worktree sweep failed:", err);
+    }
+  }
+}
+
+/**
+ * Where an agent run for `conversationId` should happen: its active
+ * worktree, or `fallback` (the shared checkout). A worktree that was
+ * requested but not created yet is waited for, since the supervisor is
+ * usually only a moment away from creating it.
+ */
+export async function resolveAgentCwd(
+  db: InstantDB,
+  conversationId: string,
+  fallback: string,
+  timeoutMs = 60_000
+): Promise<{ cwd: string; worktreeId?: string }> {
+  const res = await db.queryOnce({
+    worktrees: { $: { where: { conversationId } } },
+  });
+  const current = res.data.worktrees.find((w) =>
+    ["requested", "active"].includes(w.status)
+  );
+  if (!current) return { cwd: fallback };
+
+  const ready =
+    current.status === "active"
+      ? current
+      : await waitUntilCreated(db, current.id, timeoutMs);
+
+  await db.transact([
+    db.tx.worktrees[ready.id]!.update({ lastUsedAt: Date.now() }),
+  ]);
+  return { cwd: ready.path!, worktreeId: ready.id };
+}
+
+function waitUntilCreated(
+  db: InstantDB,
+  worktreeId: string,
+  timeoutMs: number
+): Promise<Worktree> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    let unsubscribe: (() => void) | null = null;
+
+    const finish = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      unsubscribe?.();
+      fn();
+    };
+
+    const timer = setTimeout(
+      () =>
+        finish(() =>
+          reject(
+            new Error(
+              "This conversation's worktree was not created in time; is the supervisor running?"
+            )
+          )
+        ),
+      timeoutMs
+    );
+    unsubscribe = db.subscribeQuery(
+      { worktrees: { $: { where: { id: worktreeId } } } },
+      (resp) => {
+        const w = resp.data?.worktrees?.[0];
+        if (!w || w.status === "requested") return;
+        finish(() =>
+          w.status === "active"
+            ? resolve(w)
+            : reject(new Error(`Worktree ${w.status}: ${w.lastResult || ""}`))
+        );
+      }
+    );
+    if (settled) unsubscribe();
+  });
+}
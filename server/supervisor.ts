@@ -1,10 +1,43 @@
 #!/usr/bin/env node
 
-import { spawn, spawnSync, type ChildProcess } from "node:child_process";
-import net from "node:net";
-import { init, tx, id } from "@instantdb/node";
-import { execSync } from "node:child_process";
+import { spawn } from "node:child_process";
+import { init, id } from "@instantdb/node";
 import { logger } from "./lib/logger";
+import {
+  checkBundleForErrors,
+  errorSignature,
+  repairDecision,
+  type RepairPolicy,
+} from "./lib/bundle-check";
+import { operatorUserIds, signInAsHost } from "./lib/host-auth";
+import { GitCheckpoints } from "./lib/git-checkpoints";
+import { WorktreeService } from "./services/worktrees";
+import { ProcessManager, type CrashReport } from "./services/process-manager";
+import {
+  pushSnippet,
+  sendPushToUser,
+  type PushNotification,
+} from "./lib/push";
+import { NetworkDiagnostics } from "./services/network-diagnostics";
+import { loadNetworkConfig, matchTrigger } from "./lib/network-diagnosis";
+import {
+  loadProcessManifest,
+  ManifestError,
+  type ProcessManifest,
+} from "./lib/process-manifest";
+import {
+  CommandFailedError,
+  SupervisorCommandRunner,
+  tailOutput,
+} from "./services/supervisor-commands";
+import {
+  controlSocketPath,
+  sendControlCommand,
+  startControlServer,
+  SupervisorNotRunningError,
+} from "./lib/control-socket";
+import schema from "../instant.schema";
+import { operatorEmails } from "../lib/identity";
 import * as dotenv from "dotenv";
 
 // Load environment variables
@@ -15,248 +48,225 @@ const APP_ID =
   process.env.EXPO_PUBLIC_INSTANTDB_APP_ID ||
   "";
 console.log("🔑 Supervisor APP_ID:", APP_ID ? "configured" : "missing");
-const CHECK_MS = 10_000;
-const STALE_MS = 30_000;
-const ZSCALER_SCRIPT_DIR = "/Users/mlustig/dev/tools/zscaler-auto-disabler";
-const ZSCALER_DISABLE_ONCE_SCRIPT =
-  "/Users/mlustig/dev/tools/zscaler-auto-disabler/disable_once.py";
-
-type ProcSpec = {
-  name: string;
-  cmd: string;
-  args: string[];
-  cwd?: string;
-  onStdout?: (chunk: string) => void;
-  onStderr?: (chunk: string) => void;
-};
-
-function backoffGen() {
-  let ms = 1000;
-  return () => {
-    const v = ms;
-    ms = Math.min(ms * 2, 30000);
-    return v;
-  };
-}
+const AGENT_CWD = process.env.AGENT_CWD || process.cwd();
 
 class Supervisor {
-  private handler?: ChildProcess;
-  private bundler?: ChildProcess;
-  private handlerBackoff = backoffGen();
-  private bundlerBackoff = backoffGen();
-  private interval?: NodeJS.Timeout;
+  private manifest: ProcessManifest = loadProcessManifest();
+  private procs = new ProcessManager(this.manifest, {
+    onOutput: (name, chunk) => {
+      this.network.watch(name, chunk);
+      if (this.config(name)?.bundleErrors) this.scanExpoLog(name, chunk);
+    },
+    onUnhealthy: (name, reason) => {
+      this.logToDb("health", `${name} unhealthy, restarted`, { reason });
+    },
+    onCircuitOpen: (name, report) => this.onCrashLoop(name, report),
+    onCircuitClose: (name) => this.onRecovered(name),
+    heartbeatAge: (kind) => this.heartbeatAge(kind),
+  });
   private bundleCheckInterval?: NodeJS.Timeout;
-  private db = APP_ID ? init({ appId: APP_ID }) : null;
-  private handlerExitTimes: number[] = [];
-  private crashWindowMs = 60_000;
-  private crashThreshold = 3;
-  // // private enableGit = process.env.SUPERVISOR_ENABLE_GIT === "1";
-  // // private gitRecovery: "stash" | "reset" =
-  //   (process.env.SUPERVISOR_GIT_RECOVERY as any) || "stash";
+  private stopping = false;
+  private db = APP_ID ? init({ appId: APP_ID, schema }) : null;
+  private worktrees = this.db
+    ? new WorktreeService(this.db, AGENT_CWD, {
+        root: process.env.WORKTREE_ROOT,
+        staleMs:
+          (Number(process.env.WORKTREE_STALE_DAYS) || 7) * 24 * 60 * 60_000,
+      })
+    : null;
+  private commands = this.db
+    ? new SupervisorCommandRunner(this.db, this.controlHandlers(), {
+        log: (kind, message, meta) => this.logToDb(kind, message, meta),
+      })
+    : null;
+  private checkpoints = new GitCheckpoints(AGENT_CWD);
+  private networkConfig = loadNetworkConfig();
+  private network = new NetworkDiagnostics(this.db, this.networkConfig, {
+    onRemediated: (name) => {
+      console.log(`🔄 Network fixed; restarting ${name}`);
+      this.procs.restart(name);
+    },
+    log: (kind, message, meta) => this.logToDb(kind, message, meta),
+  });
   private lastExpoErrorSig: string | null = null;
   private lastExpoErrorAt = 0;
-  private expoPort: number | null = null;
-  private zscalerCheckAttempts = 0;
-  private maxZscalerAttempts = 3;
-  private startupTime = Date.now();
+  private startedAt = Date.now();
+  private lastBundleError: { errorType: string; at: number } | null = null;
+  private repairPolicy: RepairPolicy = {
+    maxFailures: Number(process.env.REPAIR_MAX_FAILURES) || 3,
+    backoffMs: Number(process.env.REPAIR_BACKOFF_MS) || 60_000,
+  };
+  private repairSkips = new Map<string, string>(); // Signature → reason logged
+  private control?: { close: () => void };
 
   start() {
     console.log("👷 Starting supervisor");
-    this.startHandler();
-    this.startBundler();
-    // Give the handler 20 seconds to write its first heartbeat before checking
-    this.interval = setInterval(() => this.checkHealth(), CHECK_MS) as any;
+    this.startControlSocket();
+    if (this.db) {
+      signInAsHost(this.db, "Supervisor").then(() => {
+        this.worktrees?.start();
+        this.commands?.start();
+        this.checkOperators();
+      });
+    }
+    this.procs.startAll();
     // Check for bundle errors every 10 seconds
     this.bundleCheckInterval = setInterval(
       () => this.checkBundleForErrors(),
       10000
     ) as any;
     process.on("SIGINT", () => this.stop());
+    process.on("SIGTERM", () => this.stop());
   }
 
-  stop() {
+  async stop() {
+    if (this.stopping) return;
+    this.stopping = true;
     console.log("\n🛑 Stopping supervisor");
-    if (this.interval) clearInterval(this.interval);
     if (this.bundleCheckInterval) clearInterval(this.bundleCheckInterval);
-    this.kill("handler");
-    this.kill("bundler");
+    this.worktrees?.stop();
+    this.control?.close();
+    this.commands?.stop();
+    // Waits for each process to exit (the handler drains in-flight answers)
+    await this.procs.stopAll();
     process.exit(0);
   }
 
-  private spawnProc(spec: ProcSpec) {
-    const wantPipes = Boolean(spec.onStdout || spec.onStderr);
-    const p = spawn(spec.cmd, spec.args, {
-      cwd: spec.cwd,
-      stdio: wantPipes ? "pipe" : "inherit",
-      env: process.env,
-    });
-    if (wantPipes) {
-      if (p.stdout)
-        p.stdout.on("data", (d) => {
-          const s = d.toString();
-          process.stdout.write(s);
-          spec.onStdout?.(s);
-        });
-      if (p.stderr)
-        p.stderr.on("data", (d) => {
-          const s = d.toString();
-          process.stderr.write(s);
-          spec.onStderr?.(s);
-        });
-    }
-    p.on("exit", (code, signal) => {
-      console.log(`⚠️ ${spec.name} exited (code=${code}, signal=${signal})`);
-      if (spec.name === "handler") this.onHandlerExit();
-      if (spec.name === "bundler") this.restartBundler();
-    });
-    return p;
+  private config(name: string) {
+    return this.manifest.processes.find((p) => p.name === name);
   }
 
-  private onHandlerExit() {
-    this.handlerExitTimes.push(Date.now());
-    const cutoff = Date.now() - this.crashWindowMs;
-    this.handlerExitTimes = this.handlerExitTimes.filter((t) => t >= cutoff);
-    if (this.handlerExitTimes.length >= this.crashThreshold) {
-      console.log("🧯 Repeated handler crashes detected. Initiating recovery.");
-      this.recoverFromCrashes();
-      this.handlerExitTimes = [];
-    }
-    this.restartHandler();
+  // Processes whose Expo bundle we watch for build errors
+  private bundlers(): string[] {
+    return this.manifest.processes
+      .filter((p) => p.bundleErrors && this.procs.isRunning(p.name))
+      .map((p) => p.name);
   }
 
-  private startHandler() {
-    if (this.handler) return;
-    console.log("▶️  Starting handler");
-    // Reset startup time when starting handler to give it grace period
-    this.startupTime = Date.now();
-    // Use nodemon so the handler restarts automatically on file changes
-    // Only watch the handler file itself and key config files, not the entire directory
-    this.handler = this.spawnProc({
-      name: "handler",
-      cmd: "npx",
-      args: [
-        "nodemon",
-        "--quiet",
-        "--watch",
-        "server/handlers/instant-message-handler-ai.ts",
-        "--watch",
-        "../config/.env",
-        "--watch",
-        "package.json",
-        "--ignore",
-        "mobile-app/",
-        "--ignore",
-        "tests/",
-        "--ignore",
-        "docs/",
-        "--ignore",
-        "*.log",
-        "--ignore",
-        "*.md",
-        "--ext",
-        "ts,tsx,js,json",
-        "--signal",
-        "SIGINT",
-        "--exec",
-        "npx tsx server/handlers/instant-message-handler-ai.ts",
-      ],
+  // The process keeps dying and has been parked for a cool-down: keep the
+  // evidence, file a crash report and tell the phone instead of flapping
+  private async onCrashLoop(name: string, report: CrashReport) {
+    this.recoverFromCrashes(name);
+    const retryIn = `${Math.round(report.coolDownMs / 1000)}s`;
+    await this.logToDb("health", `${name} crash-looping, paused for ${retryIn}`, {
+      failures: report.failures,
+      reason: report.reason,
     });
-  }
-
-  private restartHandler() {
-    this.handler = undefined;
-    const wait = this.handlerBackoff();
-    console.log(`⏳ Restarting handler in ${wait}ms`);
-    setTimeout(() => this.startHandler(), wait);
-  }
-
-  private async startBundler(detached = false) {
-    if (this.bundler) return;
-    console.log("▶️  Starting Expo bundler");
-    // Choose a port to avoid interactive prompt
-    const preferred = Number(process.env.EXPO_PORT) || 8081;
-    const alt = Number(process.env.EXPO_ALT_PORT) || 8082;
-    const port = await findFreePort([preferred, alt]);
-    this.expoPort = port;
-    const extraArgs: string[] = ["--port", String(port)];
-    // Optionally open iOS simulator
-    if (
-      process.platform === "darwin" &&
-      process.env.SUPERVISOR_OPEN_SIM === "1"
-    ) {
-      extraArgs.push("--ios");
-    }
-    if (detached) {
-      const p = spawn("npx", ["expo", "start"], {
-        cwd: "mobile-app",
-        stdio: "ignore",
-        env: process.env,
-        detached: true,
-      });
-      // Let it run independently
-      p.unref();
-      this.bundler = undefined; // not tracked in detached mode
-      return;
-    }
-    this.bundler = this.spawnProc({
-      name: "bundler",
-      cmd: "npx",
-      args: ["expo", "start", ...extraArgs],
-      cwd: "mobile-app",
-      onStdout: (s) => this.scanExpoLog(s),
-      onStderr: (s) => this.scanExpoLog(s),
+    const errorId = await this.reportCrash(name, report);
+    await this.notifyOperators({
+      title: "⚠️ Host degraded",
+      body: pushSnippet(
+        `${name} keeps crashing (${report.reason}). Retrying in ${retryIn}.` +
+          (report.stderr ? ` ${report.stderr.split("\n").pop()}` : "")
+      ),
+      data: { kind: "host-degraded", process: name, errorId },
     });
   }
 
-  private restartBundler() {
-    this.bundler = undefined;
-    const wait = this.bundlerBackoff();
-    console.log(`⏳ Restarting bundler in ${wait}ms`);
-    setTimeout(() => this.startBundler(), wait);
+  private async onRecovered(name: string) {
+    await this.logToDb("health", `${name} recovered after crash loop`);
+    await this.notifyOperators({
+      title: "✅ Host recovered",
+      body: `${name} is running again`,
+      data: { kind: "host-recovered", process: name },
+    });
   }
 
-  private async checkHealth() {
+  // Crash-loop alerts only reach operators; say so now rather than at the
+  // first crash when there is nobody to send them to
+  private async checkOperators() {
     if (!this.db) return;
-
-    // Skip health checks for the first 20 seconds to give handler time to start
-    const timeSinceStartup = Date.now() - this.startupTime;
-    if (timeSinceStartup < 20000) {
+    if (operatorEmails().length === 0) {
+      console.warn(
+        "⚠️ INSTANTDB_OPERATOR_EMAILS is not set: host degraded/recovered alerts will not be pushed"
+      );
       return;
     }
-
     try {
-      const res = await withTimeout(
-        this.db.queryOnce({ heartbeats: {} }),
-        1500,
-        "heartbeats query"
+      const userIds = await withTimeout(
+        operatorUserIds(this.db),
+        2000,
+        "operators query"
       );
-      const beats = res.data?.heartbeats || [];
-      const now = Date.now();
-      const hostBeat = beats.find((h: any) => h.kind === "host");
-      if (!hostBeat || now - (hostBeat.lastSeenAt || 0) > STALE_MS) {
-        console.log("🔴 Host heartbeat stale → restarting handler");
-        this.kill("handler");
-        this.restartHandler();
-        await this.logToDb(
-          "health",
-          "Host heartbeat stale, handler restarted",
-          { lastSeenAt: hostBeat?.lastSeenAt }
+      if (userIds.length === 0) {
+        console.warn(
+          "⚠️ None of INSTANTDB_OPERATOR_EMAILS has signed in yet: host alerts will not be pushed"
         );
+      } else {
+        console.log(`📣 Host alerts go to ${userIds.length} operator(s)`);
+      }
+    } catch (err) {
+      console.warn("⚠️ Could not look up operators:", err);
+    }
+  }
+
+  // Host alerts go to the operators only, never to every device
+  private async notifyOperators(notification: PushNotification) {
+    if (!this.db) return;
+    try {
+      const userIds = await withTimeout(
+        operatorUserIds(this.db),
+        2000,
+        "operators query"
+      );
+      if (userIds.length === 0) {
+        console.warn("⚠️ No operators signed in (INSTANTDB_OPERATOR_EMAILS); push skipped");
+        return;
+      }
+      for (const userId of userIds) {
+        await sendPushToUser(this.db, userId, notification);
       }
     } catch (err) {
-      console.warn("⚠️ Health check failed", err);
+      console.warn("⚠️ Could not notify operators:", err);
     }
   }
 
-  private kill(which: "handler" | "bundler") {
-    const p = which === "handler" ? this.handler : this.bundler;
-    if (p) {
-      try {
-        p.kill("SIGINT");
-      } catch {}
+  private async reportCrash(
+    name: string,
+    report: CrashReport
+  ): Promise<string | null> {
+    if (!this.db) return null;
+    try {
+      const errorId = id();
+      await withTimeout(
+        this.db.transact([
+          this.db.tx.errors[errorId]!.update({
+            type: "process-crash",
+            errorType: "CrashLoop",
+            content: report.stderr || report.reason,
+            source: "supervisor",
+            timestamp: Date.now(),
+            status: "pending",
+            metadata: {
+              process: name,
+              failures: report.failures,
+              reason: report.reason,
+              lastExit: report.lastExit,
+              coolDownMs: report.coolDownMs,
+              retryAt: report.retryAt,
+            },
+          }),
+        ]),
+        2000,
+        "crash report transact"
+      );
+      console.log(`📤 Crash report for ${name} written to errors`);
+      return errorId;
+    } catch (err) {
+      console.error("❌ Failed to write crash report:", err);
+      return null;
     }
-    if (which === "handler") this.handler = undefined;
-    if (which === "bundler") this.bundler = undefined;
+  }
+
+  private async heartbeatAge(kind: string): Promise<number | null> {
+    if (!this.db) return null;
+    const res = await withTimeout(
+      this.db.queryOnce({ heartbeats: {} }),
+      1500,
+      "heartbeats query"
+    );
+    const beat = res.data.heartbeats.find((h) => h.kind === kind);
+    return beat ? Date.now() - (beat.lastSeenAt || 0) : null;
   }
 
   private async logToDb(kind: string, message: string, meta?: any) {
@@ -264,9 +274,8 @@ class Supervisor {
     try {
       const logId = id();
       await withTimeout(
-        (this.db as any).transact([
-          (tx as any).logs[logId].update({
-            id: logId,
+        this.db.transact([
+          this.db.tx.logs[logId]!.update({
             kind,
             message,
             meta: meta || {},
@@ -279,105 +288,12 @@ class Supervisor {
     } catch {}
   }
 
-  private isZscalerActive(): boolean {
-    try {
-      // Check if Zscaler routes are present in routing table
-      const result = execSync(
-        'netstat -rn | grep -E "165\\.225\\.|104\\.129\\."',
-        { encoding: "utf8" }
-      );
-      return result.length > 0;
-    } catch {
-      // grep returns non-zero if no match found
-      return false;
-    }
-  }
-
-  private disableZscaler(): boolean {
-    try {
-      console.log("🔐 Attempting to disable Zscaler Internet Security...");
-
-      // Use the one-shot disable script
-      const result = execSync(`python3 "${ZSCALER_DISABLE_ONCE_SCRIPT}"`, {
-        encoding: "utf8",
-        timeout: 35000, // 35 seconds timeout
-        stdio: ["pipe", "pipe", "pipe"],
-      });
-
-      console.log(result.trim());
-
-      // Check if the script succeeded
-      if (result.includes("Success:") || result.includes("already OFF")) {
-        console.log("✅ Zscaler disabled successfully");
-        return true;
-      }
-
-      return false;
-    } catch (error: any) {
-      // Check if it's just because Zscaler was already off
-      if (error.stdout && error.stdout.includes("already OFF")) {
-        console.log("✅ Zscaler was already disabled");
-        return true;
-      }
-      console.error("❌ Failed to disable Zscaler:", error.message);
-      return false;
-    }
-  }
-
-  private handleZscalerError(): void {
-    if (this.zscalerCheckAttempts >= this.maxZscalerAttempts) {
-      console.log(
-        "⚠️ Max Zscaler disable attempts reached. Please manually disable Zscaler."
-      );
-      return;
-    }
-
-    this.zscalerCheckAttempts++;
-
-    if (this.isZscalerActive()) {
-      console.log(
-        "🔍 Zscaler detected as active (attempt " +
-          this.zscalerCheckAttempts +
-          "/" +
-          this.maxZscalerAttempts +
-          ")"
-      );
-
-      if (this.disableZscaler()) {
-        // Wait a bit for network to stabilize after disabling Zscaler
-        console.log("⏳ Waiting 3 seconds for network to stabilize...");
-        setTimeout(() => {
-          this.zscalerCheckAttempts = 0; // Reset counter on success
-          this.restartBundler();
-        }, 3000);
-      } else {
-        // Try again after a delay
-        setTimeout(() => this.handleZscalerError(), 5000);
-      }
-    } else {
-      console.log(
-        "ℹ️ Zscaler appears to be inactive, but fetch is still failing"
-      );
-      // Reset counter since Zscaler isn't the issue
-      this.zscalerCheckAttempts = 0;
-    }
-  }
-
-  private scanExpoLog(chunk: string) {
+  private scanExpoLog(name: string, chunk: string) {
     try {
       const line = chunk.toString();
 
-      // Check for fetch/network errors that might be Zscaler-related
-      if (
-        line.includes("TypeError: fetch failed") ||
-        line.includes("UNDICI") ||
-        line.includes("ECONNREFUSED") ||
-        line.includes("ETIMEDOUT")
-      ) {
-        console.log("🌐 Network error detected in Expo bundler");
-        this.handleZscalerError();
-        return;
-      }
+      // Network errors are handled by this.network (see onOutput)
+      if (matchTrigger(this.networkConfig, line)) return;
 
       // Check for other Expo errors - capture the full error
       const hit = EXPO_ERROR_PATTERNS.find((re) => re.test(line));
@@ -404,37 +320,63 @@ class Supervisor {
       else if (/Failed building/i.test(line)) errorType = "BuildError";
 
       // Dispatch error to errors table for Claude to handle
-      this.dispatchErrorToClaude(fullError, errorType);
+      this.dispatchErrorToClaude(name, fullError, errorType);
     } catch {
       // ignore
     }
   }
 
-  private async dispatchErrorToClaude(errorContent: string, errorType: string) {
+  private async dispatchErrorToClaude(
+    name: string,
+    errorContent: string,
+    errorType: string,
+    location: { filename?: string; lineNumber?: number; column?: number } = {}
+  ) {
     if (!this.db) return;
 
     try {
+      // The same error keeps being reported while it persists; file it again
+      // only when no repair is queued and the backoff after failures allows
+      const signature = errorSignature(errorContent);
+      const filed = await withTimeout(
+        this.db.queryOnce({ errors: { $: { where: { signature } } } }),
+        2000,
+        "filed errors query"
+      );
+      const decision = repairDecision(
+        filed.data.errors,
+        Date.now(),
+        this.repairPolicy
+      );
+      if (!decision.repair) {
+        if (this.repairSkips.get(signature) !== decision.reason) {
+          this.repairSkips.set(signature, decision.reason);
+          console.log(`⏸️ Not filing ${errorType} again: ${decision.reason}`);
+        }
+        return;
+      }
+      this.repairSkips.delete(signature);
+
       const errorId = id();
       const errorData = {
-        id: errorId,
         type: "expo-bundler",
+        signature,
         errorType: errorType,
         content: errorContent,
         source: "supervisor",
         timestamp: Date.now(),
         status: "pending",
         metadata: {
-          port: this.expoPort,
-          cwd: "mobile-app",
+          port: this.procs.port(name),
+          cwd: this.config(name)?.cwd,
+          ...location,
         },
       };
 
       console.log("📤 Dispatching error to errors table:", errorType);
 
       await withTimeout(
-        (this.db as any).transact([
-          (tx as any).errors[errorId].update(errorData),
-        ]),
+        this.db.transact([this.db.tx.errors[errorId]!.update(errorData)]),
         2000,
         "dispatchError transact"
       );
@@ -443,18 +385,34 @@ class Supervisor {
     }
   }
 
+  // npm install in mobile-app; output is echoed and also returned
+  private runMobileInstall(): Promise<{ status: number | null; output: string }> {
+    return new Promise((resolve) => {
+      let output = "";
+      const p = spawn("npm", ["install"], {
+        cwd: "mobile-app",
+        stdio: ["ignore", "pipe", "pipe"],
+        env: process.env,
+      });
+      const collect = (stream: NodeJS.WriteStream) => (data: Buffer) => {
+        stream.write(data);
+        output = (output + data.toString()).slice(-64_000);
+      };
+      p.stdout?.on("data", collect(process.stdout));
+      p.stderr?.on("data", collect(process.stderr));
+      p.on("close", (status) => resolve({ status, output }));
+      p.on("error", (err) => resolve({ status: null, output: output + String(err) }));
+    });
+  }
+
+  // One-off `deps-mobile` when no supervisor is running
   async installMobileDeps() {
     console.log("📦 Installing mobile dependencies (will restart bundler)");
-    this.kill("bundler");
-    const res = spawnSync("npm", ["install"], {
-      cwd: "mobile-app",
-      stdio: "inherit",
-      env: process.env,
-    });
-    if (res.status !== 0) {
+    const { status } = await this.runMobileInstall();
+    if (status !== 0) {
       console.error("❌ npm install failed");
       await this.logToDb("deps", "npm install failed for mobile-app", {
-        status: res.status,
+        status,
       });
       // Exit with error code
       process.exit(1);
@@ -465,92 +423,152 @@ class Supervisor {
     const detached = process.env.SUPERVISOR_DETACH_BUNDLER === "1";
     if (detached) {
       console.log("🚀 Starting bundler in detached mode...");
-      await this.startBundler(true);
+      await this.procs.startDetached("bundler");
     } else {
-      console.log("🚀 Restarting bundler...");
-      this.restartBundler();
+      console.log("ℹ️  Supervisor not running; start it to run the bundler");
     }
     // Exit after completing the task
     process.exit(0);
   }
 
+  // --- Control socket: what `supervisor <command>` asks the running process
+
+  // Shared by the CLI (control socket) and the app (supervisorCommands)
+  private controlHandlers() {
+    return {
+      "restart-handler": () => this.restart("handler"),
+      "restart-bundler": () => this.restart("bundler"),
+      "reload-bundler": () => this.reloadBundler(),
+      "deps-mobile": () => this.reinstallMobileDeps(),
+    };
+  }
+
+  private async startControlSocket() {
+    try {
+      this.control = await startControlServer({
+        status: () => this.status(),
+        restart: (args) => this.restart(args.name),
+        ...this.controlHandlers(),
+      });
+      console.log(`🎛️  Control socket at ${controlSocketPath()}`);
+    } catch (err) {
+      console.warn("⚠️ Control socket unavailable:", (err as Error).message);
+    }
+  }
+
+  status() {
+    return {
+      pid: process.pid,
+      startedAt: this.startedAt,
+      uptimeMs: Date.now() - this.startedAt,
+      processes: this.procs.status(),
+      lastBundleError: this.lastBundleError,
+      database: this.db ? "configured" : "missing INSTANTDB_APP_ID",
+    };
+  }
+
+  async restart(name: string) {
+    if (!name || !this.procs.has(name)) {
+      throw new Error(
+        `Unknown process "${name}"; the manifest has: ${this.procs.names.join(", ")}`
+      );
+    }
+    console.log(`🔄 Restarting ${name} (requested)`);
+    await this.procs.restart(name);
+    await this.logToDb("control", `${name} restarted on request`);
+    const proc = this.procs.status().find((p) => p.name === name);
+    return { restarted: name, pid: proc?.pid ?? null };
+  }
+
+  reloadBundler() {
+    // Expo's dev server reloads connected apps on "r"
+    if (!this.procs.write("bundler", "r")) throw new Error("Bundler not running");
+    console.log("🔁 Sent reload to Expo bundler");
+    return { sent: true };
+  }
+
+  async reinstallMobileDeps() {
+    console.log("📦 Installing mobile dependencies (requested)");
+    await this.procs.stop("bundler");
+    const { status, output } = await this.runMobileInstall();
+    await this.logToDb(
+      "deps",
+      status === 0
+        ? "npm install completed for mobile-app"
+        : "npm install failed for mobile-app",
+      { status }
+    );
+    await this.procs.start("bundler");
+    if (status !== 0) {
+      const tail = tailOutput(output, 4_000);
+      throw new CommandFailedError(`npm install exited with ${status}`, status ?? 1, tail);
+    }
+    return {
+      installed: true,
+      bundlerPid:
+        this.procs.status().find((p) => p.name === "bundler")?.pid ?? null,
+      output: tailOutput(output, 4_000),
+    };
+  }
+
   private async checkBundleForErrors() {
-    if (!this.expoPort || !this.bundler) return;
+    for (const name of this.bundlers()) {
+      const port = this.procs.port(name);
+      if (port) await this.checkBundle(name, port);
+    }
+  }
 
+  private async checkBundle(name: string, port: number) {
     try {
       // Fetch the iOS bundle to check for errors
-      const response = await fetch(
-        `http://localhost:${this.expoPort}/index.ts.bundle?platform=ios&dev=true`
+      const bundleError = await checkBundleForErrors(port);
+      if (!bundleError) return;
+
+      // Check for deduplication
+      const now = Date.now();
+      const sig = errorSignature(bundleError.message);
+      if (this.lastExpoErrorSig === sig && now - this.lastExpoErrorAt < 15_000)
+        return;
+
+      this.lastExpoErrorSig = sig;
+      this.lastExpoErrorAt = now;
+      this.lastBundleError = { errorType: bundleError.errorType, at: now };
+
+      console.log("🧨 Detected Expo bundle error:", bundleError.errorType);
+      console.log(
+        "📍 Error location:",
+        bundleError.filename,
+        "line",
+        bundleError.lineNumber
       );
-      const text = await response.text();
-
-      // Check if response contains an error
-      if (
-        text.includes('"type":"TransformError"') ||
-        text.includes('"name":"SyntaxError"')
-      ) {
-        try {
-          const errorData = JSON.parse(text);
-          if (
-            errorData.type === "TransformError" ||
-            errorData.name === "SyntaxError"
-          ) {
-            const errorContent = errorData.message || text;
-            const errorType = errorData.name || "TransformError";
-
-            // Check for deduplication
-            const now = Date.now();
-            const sig = errorContent.slice(0, 200);
-            if (
-              this.lastExpoErrorSig === sig &&
-              now - this.lastExpoErrorAt < 15_000
-            )
-              return;
-
-            this.lastExpoErrorSig = sig;
-            this.lastExpoErrorAt = now;
-
-            console.log("🧨 Detected Expo bundle error:", errorType);
-            console.log(
-              "📍 Error location:",
-              errorData.filename,
-              "line",
-              errorData.lineNumber
-            );
-
-            // Dispatch to Claude
-            this.dispatchErrorToClaude(errorContent, errorType);
-          }
-        } catch (parseErr) {
-          // If we can't parse it, still log that we found an error
-          console.log("🧨 Detected Expo bundle error (unparseable)");
-        }
-      }
+
+      // Dispatch to Claude with the Metro location so the fix can target it
+      this.dispatchErrorToClaude(name, bundleError.message, bundleError.errorType, {
+        filename: bundleError.filename,
+        lineNumber: bundleError.lineNumber,
+        column: bundleError.column,
+      });
     } catch (err) {
       // Ignore fetch errors - bundler might not be ready yet
     }
   }
 
-  private recoverFromCrashes() {
-    console.log(
-      "omg i cant believe I let an ai stash my code that was so annoying"
-    );
-    // if (!this.enableGit) {
-    //   console.log("ℹ️ Git recovery disabled (SUPERVISOR_ENABLE_GIT!=1)");
-    //   return;
-    // }
-    // console.log(`🔧 Running git recovery strategy: ${this.gitRecovery}`);
-    // try {
-    //   spawnSync("git", ["status", "--porcelain"], { stdio: "inherit" });
-    // } catch {}
-    // try {
-    //   if (this.gitRecovery === "stash")
-    //     spawnSync("git", ["stash", "-u"], { stdio: "inherit" });
-    //   else if (this.gitRecovery === "reset")
-    //     spawnSync("git", ["reset", "--hard", "HEAD"], { stdio: "inherit" });
-    // } catch (e) {
-    //   console.warn("⚠️ Git recovery failed", e);
-    // }
+  // Keep a copy of the working tree as it was when a process started
+  // crash-looping. Nothing on disk, in the index or in the stash changes;
+  // the snapshot lives under refs/organic/checkpoints/.
+  private async recoverFromCrashes(name: string) {
+    try {
+      if (!(await this.checkpoints.isRepo())) return;
+      const snap = await this.checkpoints.snapshot(
+        `crash-${Date.now()}`,
+        `working tree when ${name} crash-looped`
+      );
+      console.log(
+        `📸 Saved working tree to ${snap.ref}; restore files with: git checkout ${snap.sha.slice(0, 12)} -- <path>`
+      );
+    } catch (e) {
+      console.warn("⚠️ Crash snapshot failed", e);
+    }
   }
 }
 
@@ -615,65 +633,107 @@ function main() {
     return;
   }
   const cmd = process.argv[2] || "start";
-  if (cmd === "status") {
-    console.log("Use heartbeats in app to view status");
+  if (cmd === "start") {
+    try {
+      new Supervisor().start();
+    } catch (err) {
+      if (!(err instanceof ManifestError)) throw err;
+      console.error(`❌ ${err.message}`);
+      process.exit(1);
+    }
     return;
   }
-  const sup = new Supervisor();
-  if (cmd === "start") sup.start();
-  else if (cmd === "restart-bundler") {
-    (sup as any)["kill"]("bundler");
-    (sup as any)["restartBundler"]();
-  } else if (cmd === "reload-bundler") {
-    // Send 'r' to Expo bundler to trigger reload
-    const send = () => {
-      const p = (sup as any)["bundler"] as ChildProcess | undefined;
-      if (p && p.stdin && !p.killed) {
-        try {
-          p.stdin.write("r");
-          console.log("🔁 Sent reload to Expo bundler");
-        } catch {}
-      } else {
-        console.log("ℹ️ Bundler not running");
-      }
-    };
-    send();
-  } else if (cmd === "restart-handler") {
-    (sup as any)["kill"]("handler");
-    (sup as any)["restartHandler"]();
-  } else if (cmd === "deps-mobile") (sup as any).installMobileDeps();
-  else logger.info("Unknown command");
+  const name = process.argv.slice(3).find((a) => !a.startsWith("--"));
+  runCommand(cmd, process.argv.includes("--json"), name ? { name } : {});
 }
 
-main();
+const CONTROL_COMMANDS = [
+  "status",
+  "restart", // restart <process name from config/processes.json>
+  "restart-handler",
+  "restart-bundler",
+  "reload-bundler",
+  "deps-mobile",
+];
 
-// Find a free TCP port, trying preferred list first
-function findFreePort(preferred: number[]): Promise<number> {
-  return new Promise((resolve) => {
-    const tryList = [...preferred];
-    const tryNext = () => {
-      const want = tryList.shift();
-      if (want == null) {
-        // fallback to random
-        const srv = net.createServer();
-        srv.listen(0, () => {
-          const p = (srv.address() as any).port as number;
-          srv.close(() => resolve(p));
-        });
-        srv.on("error", () => resolve(8081));
-        return;
-      }
-      const srv = net.createServer();
-      srv.once("error", () => {
-        try {
-          srv.close();
-        } catch {}
-        tryNext();
-      });
-      srv.listen(want, () => {
-        srv.close(() => resolve(want));
-      });
-    };
-    tryNext();
-  });
+function formatStatus(s: ReturnType<Supervisor["status"]>): string {
+  return [
+    `👷 Supervisor pid ${s.pid}, up ${Math.round(s.uptimeMs / 1000)}s`,
+    ...s.processes.map((p) => {
+      const state = !p.enabled
+        ? "disabled"
+        : p.running
+          ? `running (pid ${p.pid})${p.port ? ` on :${p.port}` : ""}${p.ready ? "" : ", starting"}`
+          : "stopped";
+      const circuit =
+        p.circuit === "open" && p.retryAt
+          ? `, crash-looping (next try ${new Date(p.retryAt).toLocaleTimeString()})`
+          : p.circuit === "trial"
+            ? ", on trial after crash loop"
+            : "";
+      return `   ${p.name}: ${state}, ${p.restarts} restarts${circuit}`;
+    }),
+    ...(s.lastBundleError
+      ? [
+          `   last bundle error: ${s.lastBundleError.errorType} at ${new Date(
+            s.lastBundleError.at
+          ).toLocaleTimeString()}`,
+        ]
+      : []),
+    `   database: ${s.database}`,
+  ].join("\n");
 }
+
+// CLI subcommands talk to the running supervisor over its control socket
+async function runCommand(
+  cmd: string,
+  json: boolean,
+  args: Record<string, string>
+) {
+  if (!CONTROL_COMMANDS.includes(cmd)) {
+    logger.info(`Unknown command: ${cmd}`);
+    console.log(`Usage: supervisor [start|${CONTROL_COMMANDS.join("|")}] [--json]`);
+    process.exit(1);
+  }
+
+  try {
+    const response = await sendControlCommand(cmd, args, {
+      // npm install can take a while
+      timeoutMs: cmd === "deps-mobile" ? 15 * 60_000 : 30_000,
+    });
+    if (json) {
+      console.log(JSON.stringify(response, null, 2));
+    } else if (!response.ok) {
+      console.error(`❌ ${response.error}`);
+    } else if (cmd === "status") {
+      console.log(formatStatus(response.result));
+    } else {
+      console.log(`✅ ${cmd}: ${JSON.stringify(response.result)}`);
+    }
+    process.exit(response.ok ? 0 : 1);
+  } catch (err) {
+    if (err instanceof SupervisorNotRunningError && cmd === "deps-mobile") {
+      // Nothing to coordinate with; install directly
+      new Supervisor().installMobileDeps();
+      return;
+    }
+    if (json) {
+      console.log(
+        JSON.stringify(
+          {
+            ok: false,
+            error: (err as Error).message,
+            running: !(err instanceof SupervisorNotRunningError),
+          },
+          null,
+          2
+        )
+      );
+    } else {
+      console.error(`❌ ${(err as Error).message}`);
+    }
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,65 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test: Bundle Error Repair Backoff
+ * How to Run: npx tsx tests/unit/test-bundle-repairs.ts
+ * Purpose: Verify that a bundler error which keeps failing to build is not
+ *          filed for another agent repair on every bundle check.
+ * Tests: Filing a new error, holding off while a repair is queued or
+ *        running, doubling the wait after each failed repair, giving up after
+ *        the maximum number of failures, and starting over once a repair
+ *        succeeded.
+ * Test Data: Hand-built `errors` rows with fixed timestamps; no InstantDB,
+ *            bundler or agent.
+ * Challenges: The supervisor checks the bundle every 10 seconds and each
+ *             filed row used to start a 20-turn agent repair of its own.
+ * User Request: "We want a subscriber that claims pending errors and asks the
+ *               agent for a fix with the Metro `filename`/`lineNumber`
+ *               context."
+ */
+
+import assert from "node:assert/strict";
+import { repairDecision } from "../../server/lib/bundle-check";
+
+const MIN = 60_000;
+const policy = { maxFailures: 3, backoffMs: MIN };
+const failed = (at: number) => ({ status: "failed", timestamp: at - 1_000, resolvedAt: at });
+
+function testNewAndQueued() {
+  assert.deepEqual(repairDecision([], 0, policy), { repair: true, failures: 0 });
+  for (const status of ["pending", "processing"]) {
+    const decision = repairDecision([{ status, timestamp: 0 }], 10_000, policy);
+    assert.equal(decision.repair, false);
+    assert.match((decision as any).reason, /already queued/);
+  }
+  console.log("✅ a new error is filed once, not while its repair is queued");
+}
+
+function testBackoff() {
+  const once = [failed(0)];
+  assert.equal(repairDecision(once, MIN - 1, policy).repair, false);
+  assert.equal(repairDecision(once, MIN, policy).repair, true);
+
+  const twice = [failed(0), failed(2 * MIN)];
+  assert.equal(repairDecision(twice, 3 * MIN, policy).repair, false);
+  assert.equal(repairDecision(twice, 4 * MIN, policy).repair, true);
+  console.log("✅ the wait doubles after each failed repair");
+}
+
+function testGivesUpAndStartsOver() {
+  const thrice = [failed(0), failed(2 * MIN), failed(5 * MIN)];
+  const decision = repairDecision(thrice, 60 * MIN, policy);
+  assert.equal(decision.repair, false);
+  assert.equal(decision.failures, 3);
+  assert.match((decision as any).reason, /gave up after 3 failed repairs/);
+
+  // A repair that worked resets the count, skipped rows don't count
+  const fixed = [...thrice, { status: "completed", timestamp: 6 * MIN }, { status: "skipped", timestamp: 7 * MIN }, failed(8 * MIN)];
+  assert.deepEqual(repairDecision(fixed, 9 * MIN, policy), { repair: true, failures: 1 });
+  console.log("✅ repairs stop after the maximum and resume once one succeeds");
+}
+
+testNewAndQueued();
+testBackoff();
+testGivesUpAndStartsOver();
+console.log("\n🎉 bundle repair tests passed");
@@ -0,0 +1,95 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test: Supervisor Control Socket
+ * How to Run: npx tsx tests/unit/test-control-socket.ts
+ * Purpose: Verify that CLI commands reach a running supervisor over its
+ *          Unix socket and get structured answers back.
+ * Tests: Round trip of a command, handler errors, unknown commands,
+ *        "not running" detection, stale socket cleanup, refusing to start a
+ *        second server on a live socket, socket permissions.
+ * Test Data: A socket in a temp directory with fake handlers.
+ * Challenges: `restart-handler` and friends used to start a second
+ *             Supervisor instead of talking to the one already running.
+ * User Request: "CLI commands should talk to the running supervisor through
+ *               a local control socket ... with clear errors when it is not
+ *               running."
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  sendControlCommand,
+  startControlServer,
+  SupervisorNotRunningError,
+} from "../../server/lib/control-socket";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "control-test-"));
+const socketPath = path.join(dir, "supervisor.sock");
+
+async function testRoundTrip() {
+  const server = await startControlServer(
+    {
+      status: () => ({ pid: 42 }),
+      echo: (args) => args,
+      broken: async () => {
+        throw new Error("bundler not running");
+      },
+    },
+    socketPath
+  );
+  try {
+    assert.equal(fs.statSync(socketPath).mode & 0o777, 0o600);
+    assert.deepEqual(await sendControlCommand("status", {}, { socketPath }), {
+      ok: true,
+      result: { pid: 42 },
+    });
+    assert.deepEqual(await sendControlCommand("echo", { a: 1 }, { socketPath }), {
+      ok: true,
+      result: { a: 1 },
+    });
+    assert.deepEqual(await sendControlCommand("broken", {}, { socketPath }), {
+      ok: false,
+      error: "bundler not running",
+    });
+    const unknown = await sendControlCommand("nope", {}, { socketPath });
+    assert.equal(unknown.ok, false);
+
+    await assert.rejects(
+      startControlServer({}, socketPath),
+      /already listening/
+    );
+    console.log("✅ commands round-trip and a second server is refused");
+  } finally {
+    server.close();
+  }
+  assert.equal(fs.existsSync(socketPath), false);
+}
+
+async function testNotRunning() {
+  await assert.rejects(
+    sendControlCommand("status", {}, { socketPath }),
+    SupervisorNotRunningError
+  );
+
+  // A socket file left by a supervisor that died is replaced
+  fs.writeFileSync(socketPath, "");
+  const server = await startControlServer({ status: () => "up" }, socketPath);
+  try {
+    const response = await sendControlCommand("status", {}, { socketPath });
+    assert.deepEqual(response, { ok: true, result: "up" });
+  } finally {
+    server.close();
+  }
+  console.log("✅ missing supervisor is reported and stale sockets are cleaned");
+}
+
+try {
+  await testRoundTrip();
+  await testNotRunning();
+} finally {
+  fs.rmSync(dir, { recursive: true, force: true });
+}
+console.log("\n🎉 control socket tests passed");
@@ -0,0 +1,126 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test: Conversation Context Builder
+ * How to Run: npx tsx tests/unit/test-conversation-context.ts
+ * Purpose: Make sure follow-up questions carry earlier turns of the same
+ *          conversation to streamText instead of starting cold.
+ * Tests: Ordering and filtering of prior messages, token budgeting,
+ *        truncation of long older turns, the digest of dropped turns, and
+ *        the rolling summary standing in for the turns it covers.
+ * Test Data: In-memory messages only; no InstantDB or LLM calls.
+ * Challenges: processMessage used to send only message.content as `prompt`,
+ *             so the model never saw previous turns.
+ * User Request: "We need a context builder that loads prior user and
+ *               assistant messages for the conversation and orders them."
+ */
+
+import assert from "node:assert/strict";
+import {
+  buildConversationContext,
+  type HistoryMessage,
+} from "../../server/lib/conversation-context";
+
+const msg = (
+  id: string,
+  role: HistoryMessage["role"],
+  content: string,
+  timestamp: number,
+  status = "completed"
+): HistoryMessage => ({ id, role, content, timestamp, status });
+
+function testOrdersAndFilters() {
+  const current = msg("u3", "user", "and then?", 300, "processing");
+  const history = [
+    msg("a1", "assistant", "Hi! How can I help?", 110),
+    msg("u1", "user", "hello", 100),
+    msg("a-err", "assistant", "boom", 120, "error"),
+    msg("u2", "user", "tell me a joke", 200),
+    msg("a2", "assistant", "", 210, "streaming"),
+    msg("u4", "user", "queued after current", 400, "pending"),
+    current,
+  ];
+
+  const ctx = buildConversationContext(history, current);
+  assert.deepEqual(ctx.includedIds, ["u1", "a1", "u2"]);
+  assert.deepEqual(
+    ctx.messages.map((m) => m.role),
+    ["user", "assistant", "user", "user"]
+  );
+  assert.equal(ctx.messages.at(-1)?.content, "and then?");
+  console.log("✅ orders prior turns and skips unsettled messages");
+}
+
+function testBudgetSummarizesOlderTurns() {
+  const history: HistoryMessage[] = [];
+  for (let i = 0; i < 40; i++) {
+    history.push(
+      msg(`m${i}`, i % 2 ? "assistant" : "user", `turn ${i} `.repeat(50), i)
+    );
+  }
+  const current = msg("now", "user", "summarize please", 1000, "processing");
+
+  const ctx = buildConversationContext(history, current, {
+    maxTokens: 1200,
+    summaryTokens: 300,
+  });
+  assert.ok(ctx.estimatedTokens <= 1200, `over budget: ${ctx.estimatedTokens}`);
+  assert.ok(ctx.summarizedIds.length > 0, "expected a digest of older turns");
+  assert.match(ctx.digest, /^Earlier in this conversation/);
+  assert.ok(ctx.messages.every((m) => m.role !== "system"), "the digest is not a message");
+  assert.ok(ctx.includedIds.includes("m39"), "newest turn must be kept");
+  console.log("✅ keeps newest turns and summarizes the rest within budget");
+}
+
+function testTruncatesLongOlderTurns() {
+  const long = "x".repeat(5000);
+  const history = [
+    msg("old", "assistant", long, 1),
+    msg("r1", "user", "a", 2),
+    msg("r2", "assistant", "b", 3),
+  ];
+  const current = msg("now", "user", "c", 4, "processing");
+  const ctx = buildConversationContext(history, current, {
+    keepRecent: 2,
+    maxMessageChars: 100,
+  });
+  assert.deepEqual(ctx.truncatedIds, ["old"]);
+  assert.ok(String(ctx.messages[0]?.content).endsWith("[truncated]"));
+  console.log("✅ truncates long turns outside the recent window");
+}
+
+function testRollingSummaryReplacesDigest() {
+  const history: HistoryMessage[] = [];
+  for (let i = 0; i < 40; i++) {
+    history.push(
+      msg(`m${i}`, i % 2 ? "assistant" : "user", `turn ${i} `.repeat(50), i)
+    );
+  }
+  const current = msg("now", "user", "what did we decide?", 1000, "processing");
+  const options = { maxTokens: 1200, summaryTokens: 300 };
+
+  const ctx = buildConversationContext(history, current, {
+    ...options,
+    summary: { text: "We picked Postgres over SQLite.", throughMessageId: "m19" },
+  });
+  const digest = ctx.digest;
+  assert.match(digest, /Summary: We picked Postgres over SQLite\./);
+  assert.ok(!digest.includes("turn 5 "), "covered turns are not repeated");
+  assert.ok(ctx.summarizedIds.includes("m0"), "the summary covers the oldest turns");
+  assert.ok(ctx.summarizedIds.includes("m19"));
+  assert.ok(ctx.estimatedTokens <= 1200, `over budget: ${ctx.estimatedTokens}`);
+
+  // A summary of another branch is ignored
+  const other = buildConversationContext(history, current, {
+    ...options,
+    summary: { text: "Something else", throughMessageId: "elsewhere" },
+  });
+  assert.ok(!other.digest.includes("Something else"));
+  console.log("✅ rolling summary stands in for the dropped turns it covers");
+}
+
+testOrdersAndFilters();
+testBudgetSummarizesOlderTurns();
+testTruncatesLongOlderTurns();
+testRollingSummaryReplacesDigest();
+console.log("\n🎉 conversation context tests passed");
@@ -0,0 +1,152 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test: Conversation Forks
+ * How to Run: npx tsx tests/unit/test-conversation-forks.ts
+ * Purpose: Verify that forking a conversation at a message copies the branch
+ *          leading to it into the new conversation and carries the agent
+ *          session of that point over.
+ * Tests: Copying only the branch up to the fork point (not later messages or
+ *        other branches), re-parenting and remapping replyTo, re-asking a
+ *        question the fork was made at, picking the claudeSessionId of the
+ *        last copied reply, leaving the original's checkpoint, worktree, diff
+ *        and approvals behind, the service marking forks ready (with the parent's
+ *        mode) or failed, and refusing to fork somebody else's conversation.
+ * Test Data: Hand-built message lists; an in-memory fake of the InstantDB
+ *            client with `conversations` and `messages`.
+ * Challenges: Users may only create their own questions, so the copies have
+ *             to be written by the host; Claude Code session IDs change every
+ *             turn, so the fork must resume the one from its fork point, not
+ *             the conversation's latest.
+ * User Request: "Add a fork action that creates a new `conversations` row
+ *               linked to its parent and copies or references messages up to
+ *               the fork point... inherit the right `claudeSessionId`."
+ */
+
+import assert from "node:assert/strict";
+import { ConversationForkService, planFork } from "../../server/services/conversation-forks";
+
+type Row = Record<string, any>;
+
+const messages: Row[] = [
+  { id: "u1", role: "user", content: "Plan the refactor", timestamp: 1, status: "completed", parentId: "c1" },
+  { id: "a1", role: "assistant", content: "", finalContent: "Step one…", timestamp: 2, status: "completed", parentId: "u1", metadata: { replyTo: "u1", claudeSessionId: "s1" } },
+  { id: "u2", role: "user", content: "Do step one", timestamp: 3, status: "completed", parentId: "a1" },
+  { id: "a2", role: "assistant", content: "Done", timestamp: 4, status: "completed", parentId: "u2", checkpointId: "cp1", metadata: { replyTo: "u2", claudeSessionId: "s2", checkpointId: "cp1", worktreeId: "w1", cwd: "/tmp/w1", diff: { id: "d1" }, approvals: { requested: 1 } } },
+  { id: "u3", role: "user", content: "Now step two", timestamp: 5, status: "completed", parentId: "a2" },
+  { id: "a3", role: "assistant", content: "Done too", timestamp: 6, status: "completed", parentId: "u3", metadata: { replyTo: "u3", claudeSessionId: "s3" } },
+  // A regenerated first reply: another branch, never copied from a2
+  { id: "a1b", role: "assistant", content: "Alternatively…", timestamp: 7, status: "completed", parentId: "u1", metadata: { replyTo: "u1", claudeSessionId: "s9" } },
+];
+
+function counter() {
+  let n = 0;
+  return () => `f${++n}`;
+}
+
+function testPlan() {
+  const plan = planFork(messages as any, "a2", "c2", counter());
+  assert.deepEqual(plan.messages.map((m) => m.metadata.forkedFrom), ["u1", "a1", "u2", "a2"]);
+  assert.deepEqual(plan.messages.map((m) => m.parentId), ["c2", "f1", "f2", "f3"]);
+  assert.ok(plan.messages.every((m) => m.conversationId === "c2"));
+  assert.equal(plan.messages[1]!.content, "Step one…");
+  assert.equal(plan.messages[1]!.metadata.replyTo, "f1");
+  assert.equal(plan.messages[3]!.status, "completed");
+  assert.equal(plan.claudeSessionId, "s2", "the session at the fork point, not the latest");
+  assert.deepEqual(plan.messages[3]!.metadata, { replyTo: "f3", claudeSessionId: "s2", forkedFrom: "a2" });
+  assert.equal(plan.messages[3]!.checkpointId, undefined, "checkpoints stay with the original");
+
+  // Forking at a question asks it again in the fork
+  const atQuestion = planFork(messages as any, "u3", "c3", counter());
+  assert.equal(atQuestion.messages.length, 5);
+  assert.equal(atQuestion.messages[4]!.status, "pending");
+  assert.equal(atQuestion.claudeSessionId, "s2");
+
+  // Forking before any agent turn starts a fresh session
+  assert.equal(planFork(messages as any, "u1", "c4", counter()).claudeSessionId, undefined);
+  assert.throws(() => planFork(messages as any, "missing", "c5"), /not in the conversation/);
+  console.log("✅ the branch up to the fork point is copied with its session");
+}
+
+// Just enough of the InstantDB client for the fork service
+function fakeDb() {
+  const tables = {
+    conversations: new Map<string, Row>(),
+    messages: new Map<string, Row>(),
+  };
+  const tableOf = (entity: string) => tables[entity as keyof typeof tables];
+  const txFor = (entity: string) =>
+    new Proxy({}, {
+      get: (_, rowId: string) => ({
+        update(fields: Row): any {
+          const chunk = { entity, rowId, fields };
+          return { ...chunk, link: () => chunk };
+        },
+      }),
+    });
+  return {
+    tables,
+    tx: { conversations: txFor("conversations"), messages: txFor("messages") },
+    async transact(chunks: { entity: string; rowId: string; fields: Row }[]) {
+      for (const { entity, rowId, fields } of chunks) {
+        const table = tableOf(entity);
+        table.set(rowId, { ...(table.get(rowId) || { id: rowId }), ...fields });
+      }
+    },
+    async queryOnce(q: any) {
+      const data: Row = {};
+      for (const entity of Object.keys(q)) {
+        const where = q[entity].$?.where || {};
+        data[entity] = [...tableOf(entity).values()].filter((row) =>
+          Object.entries(where).every(([key, value]) => row[key] === value)
+        );
+      }
+      return { data };
+    },
+  };
+}
+
+async function testService() {
+  const db = fakeDb();
+  const forks = new ConversationForkService(db as any);
+  db.tables.conversations.set("c1", { id: "c1", userId: "me", mode: "agent", claudeSessionId: "s3" });
+  for (const m of messages) db.tables.messages.set(m.id, { ...m, conversationId: "c1", userId: "me" });
+
+  db.tables.conversations.set("c2", {
+    id: "c2",
+    userId: "me",
+    forkedFrom: "c1",
+    forkedAtMessageId: "a2",
+    forkStatus: "requested",
+  });
+  await forks.fork("c2");
+  const fork = db.tables.conversations.get("c2")!;
+  assert.equal(fork.forkStatus, "ready");
+  assert.equal(fork.mode, "agent");
+  assert.equal(fork.claudeSessionId, "s2");
+  const copied = [...db.tables.messages.values()].filter((m) => m.conversationId === "c2");
+  assert.equal(copied.length, 4);
+  assert.ok(copied.every((m) => m.userId === "me"));
+  assert.equal(db.tables.messages.size, messages.length + 4, "the original is untouched");
+
+  // Forking a conversation that belongs to somebody else
+  db.tables.conversations.set("c3", {
+    id: "c3",
+    userId: "intruder",
+    forkedFrom: "c1",
+    forkedAtMessageId: "a2",
+    forkStatus: "requested",
+  });
+  await (forks as any).handleForkRequest("c3");
+  assert.equal(db.tables.conversations.get("c3")!.forkStatus, "failed");
+  assert.match(db.tables.conversations.get("c3")!.forkError, /Only the owner/);
+  assert.equal(
+    [...db.tables.messages.values()].filter((m) => m.conversationId === "c3").length,
+    0
+  );
+  console.log("✅ the host copies forks for their owner and reports failures");
+}
+
+testPlan();
+await testService();
+console.log("\n🎉 conversation fork tests passed");
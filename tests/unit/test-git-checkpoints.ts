@@ -0,0 +1,83 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test: Git Checkpoints
+ * How to Run: npx tsx tests/unit/test-git-checkpoints.ts
+ * Purpose: Verify that snapshots and restores leave the user's index, stash
+ *          and branches alone while bringing the working tree back exactly.
+ * Tests: Snapshot stored under a private ref, staged changes survive a
+ *        snapshot, restore rewrites changed files, recreates deleted ones
+ *        and removes new ones, ignored files are left alone.
+ * Test Data: A throwaway repository in the OS temp directory.
+ * Challenges: The old crash recovery ran `git stash -u` / `reset --hard` on
+ *             the user's checkout and lost work.
+ * User Request: "Snapshot the working tree into a private ref without
+ *               touching the user's index or stash ... roll back to one."
+ */
+
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { GitCheckpoints } from "../../server/lib/git-checkpoints";
+
+const repo = fs.mkdtempSync(path.join(os.tmpdir(), "checkpoints-test-"));
+const git = (...args: string[]) =>
+  execFileSync("git", args, { cwd: repo, encoding: "utf8" }).trim();
+const write = (file: string, text: string) => {
+  fs.mkdirSync(path.dirname(path.join(repo, file)), { recursive: true });
+  fs.writeFileSync(path.join(repo, file), text);
+};
+const read = (file: string) => fs.readFileSync(path.join(repo, file), "utf8");
+const exists = (file: string) => fs.existsSync(path.join(repo, file));
+
+try {
+  git("init", "-q");
+  git("config", "user.email", "test@example.com");
+  git("config", "user.name", "Test");
+  write(".gitignore", "ignored.log\n");
+  write("a.txt", "one\n");
+  write("src/b.txt", "two\n");
+  git("add", "-A");
+  git("commit", "-qm", "initial");
+
+  // The user has a staged change and an untracked file in progress
+  write("a.txt", "one, staged\n");
+  git("add", "a.txt");
+  write("notes.md", "draft\n");
+  const indexBefore = git("diff", "--cached", "--name-only");
+
+  const checkpoints = new GitCheckpoints(path.join(repo, "src"));
+  const snap = await checkpoints.snapshot("c1", "before run");
+  assert.equal(git("rev-parse", "refs/organic/checkpoints/c1"), snap.sha);
+  assert.equal(git("diff", "--cached", "--name-only"), indexBefore);
+  assert.equal(git("stash", "list"), "");
+  assert.equal(git("rev-parse", "HEAD"), snap.head);
+  console.log("✅ snapshot is stored under a private ref, index untouched");
+
+  // The "agent" edits, deletes and adds files
+  write("a.txt", "agent rewrote this\n");
+  fs.rmSync(path.join(repo, "notes.md"));
+  write("src/new.ts", "export {};\n");
+  write("ignored.log", "keep me\n");
+  assert.notEqual(await checkpoints.currentTree(), snap.tree);
+
+  const result = await checkpoints.restore(snap.tree);
+  assert.equal(read("a.txt"), "one, staged\n");
+  assert.equal(read("notes.md"), "draft\n");
+  assert.equal(exists("src/new.ts"), false);
+  assert.equal(read("ignored.log"), "keep me\n");
+  assert.deepEqual(result.deleted, ["src/new.ts"]);
+  assert.deepEqual([...result.written].sort(), ["a.txt", "notes.md"]);
+  assert.equal(await checkpoints.currentTree(), snap.tree);
+  assert.equal(git("diff", "--cached", "--name-only"), indexBefore);
+  console.log("✅ restore brings back exactly the snapshot");
+
+  const again = await checkpoints.restore(snap.tree);
+  assert.deepEqual(again, { written: [], deleted: [] });
+  console.log("✅ restoring the current tree is a no-op");
+} finally {
+  fs.rmSync(repo, { recursive: true, force: true });
+}
+console.log("\n🎉 git checkpoint tests passed");
@@ -0,0 +1,88 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test: Agent Turn Diffs
+ * How to Run: npx tsx tests/unit/test-git-diff.ts
+ * Purpose: Verify that the per-turn diff is parsed into files with correct
+ *          status and stats, and that large patches are chunked.
+ * Tests: Added/modified/deleted/renamed/binary files between two trees,
+ *        +/- counts, hunks-only patch text, chunking on line boundaries.
+ * Test Data: A throwaway repository in the OS temp directory.
+ * Challenges: After an agent turn there was no way to see from the phone
+ *             what it changed.
+ * User Request: "Capture a per-message unified diff (files changed, hunks,
+ *               stats) ... Large diffs should be chunked."
+ */
+
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { GitCheckpoints } from "../../server/lib/git-checkpoints";
+import { chunkPatch, diffTrees } from "../../server/lib/git-diff";
+
+const repo = fs.mkdtempSync(path.join(os.tmpdir(), "diff-test-"));
+const git = (...args: string[]) =>
+  execFileSync("git", args, { cwd: repo, encoding: "utf8" }).trim();
+const write = (file: string, data: string | Buffer) =>
+  fs.writeFileSync(path.join(repo, file), data);
+
+async function testDiffTrees() {
+  git("init", "-q");
+  const long = Array.from({ length: 20 }, (_, i) => `line ${i}`).join("\n") + "\n";
+  write("keep.txt", "a\nb\nc\n");
+  write("gone.txt", "bye\n");
+  write("moved.txt", long);
+  const trees = new GitCheckpoints(repo);
+  const before = await trees.currentTree();
+
+  write("keep.txt", "a\nB\nc\nd\n");
+  fs.rmSync(path.join(repo, "gone.txt"));
+  fs.renameSync(path.join(repo, "moved.txt"), path.join(repo, "renamed.txt"));
+  write("new.txt", "hello\n");
+  write("image.bin", Buffer.from([0, 1, 2, 0, 255]));
+  const after = await trees.currentTree();
+
+  const files = await diffTrees(repo, before, after);
+  const byPath = Object.fromEntries(files.map((f) => [f.path, f]));
+
+  assert.equal(byPath["keep.txt"]?.status, "modified");
+  assert.equal(byPath["keep.txt"]?.additions, 2);
+  assert.equal(byPath["keep.txt"]?.deletions, 1);
+  assert.match(byPath["keep.txt"]!.patch, /^@@ /);
+  assert.doesNotMatch(byPath["keep.txt"]!.patch, /^\+\+\+ /m);
+
+  assert.equal(byPath["gone.txt"]?.status, "deleted");
+  assert.equal(byPath["new.txt"]?.status, "added");
+  assert.equal(byPath["new.txt"]?.additions, 1);
+  assert.equal(byPath["renamed.txt"]?.status, "renamed");
+  assert.equal(byPath["renamed.txt"]?.oldPath, "moved.txt");
+  assert.equal(byPath["image.bin"]?.binary, true);
+  assert.equal(files.length, 5);
+
+  assert.deepEqual(await diffTrees(repo, after, after), []);
+  console.log("✅ files, statuses and stats are parsed");
+}
+
+function testChunking() {
+  const patch = ["@@ -1,3 +1,3 @@", "-old", "+new", " same"].join("\n");
+  assert.deepEqual(chunkPatch(patch, 1000), [patch]);
+
+  const chunks = chunkPatch(patch, 20);
+  assert.ok(chunks.every((c) => c.length <= 20));
+  assert.equal(chunks.join("\n"), patch);
+
+  const [cut] = chunkPatch("x".repeat(50), 10);
+  assert.equal(cut!.length, 10);
+  assert.deepEqual(chunkPatch("", 10), []);
+  console.log("✅ patches are chunked on line boundaries");
+}
+
+try {
+  await testDiffTrees();
+  testChunking();
+} finally {
+  fs.rmSync(repo, { recursive: true, force: true });
+}
+console.log("\n🎉 diff tests passed");
@@ -0,0 +1,96 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test: Per-Conversation Git Worktrees
+ * How to Run: npx tsx tests/unit/test-git-worktrees.ts
+ * Purpose: Verify the git side of worktree isolation: create, merge back,
+ *          rebase, discard, and that conflicts leave everything untouched.
+ * Tests: Worktree on its own branch, uncommitted agent edits travel with a
+ *        merge, rebase onto a moved base, conflicting merge aborted,
+ *        discard removes directory and branch.
+ * Test Data: A throwaway repository in the OS temp directory.
+ * Challenges: Concurrent conversations all edited the same checkout.
+ * User Request: "Each conversation to optionally get its own git worktree and
+ *               branch ... a merge, rebase or discard action."
+ */
+
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { GitWorktrees } from "../../server/lib/git-worktrees";
+
+const base = fs.mkdtempSync(path.join(os.tmpdir(), "worktrees-test-"));
+const repo = path.join(base, "repo");
+const git = (cwd: string, ...args: string[]) =>
+  execFileSync("git", args, { cwd, encoding: "utf8" }).trim();
+const write = (dir: string, file: string, text: string) =>
+  fs.writeFileSync(path.join(dir, file), text);
+const read = (dir: string, file: string) =>
+  fs.readFileSync(path.join(dir, file), "utf8");
+const commitAll = (cwd: string, message: string) => {
+  git(cwd, "add", "-A");
+  git(cwd, "commit", "-qm", message);
+};
+
+try {
+  fs.mkdirSync(repo);
+  git(repo, "init", "-q", "-b", "main");
+  git(repo, "config", "user.email", "test@example.com");
+  git(repo, "config", "user.name", "Test");
+  write(repo, "a.txt", "one\n");
+  write(repo, "b.txt", "two\n");
+  commitAll(repo, "initial");
+
+  const worktrees = new GitWorktrees(repo);
+  assert.equal(worktrees.root, path.join(base, ".organic-worktrees", "repo"));
+
+  // Create, then merge uncommitted agent work back
+  const first = await worktrees.create("conversation-one");
+  assert.equal(first.branch, "organic/conversation-one");
+  assert.equal(first.baseBranch, "main");
+  assert.equal(git(first.path, "rev-parse", "--abbrev-ref", "HEAD"), first.branch);
+  write(first.path, "a.txt", "agent edit\n");
+
+  const merged = await worktrees.merge(first);
+  assert.equal(merged.ok, true, merged.message);
+  assert.equal(read(repo, "a.txt"), "agent edit\n");
+  assert.equal(fs.existsSync(first.path), false);
+  assert.equal(git(repo, "branch", "--list", first.branch), "");
+  console.log("✅ merge brings uncommitted agent work back and cleans up");
+
+  // Rebase onto a base that moved on
+  const second = await worktrees.create("conversation-two");
+  write(second.path, "c.txt", "new file\n");
+  write(repo, "b.txt", "two, edited on main\n");
+  commitAll(repo, "main moves on");
+  const rebased = await worktrees.rebase(second);
+  assert.equal(rebased.ok, true, rebased.message);
+  assert.equal(rebased.baseSha, git(repo, "rev-parse", "HEAD"));
+  assert.equal(read(second.path, "b.txt"), "two, edited on main\n");
+  assert.equal(read(second.path, "c.txt"), "new file\n");
+  console.log("✅ rebase moves the branch onto the base");
+
+  // A conflicting merge is aborted and changes nothing
+  write(second.path, "b.txt", "agent version\n");
+  write(repo, "b.txt", "human version\n");
+  commitAll(repo, "conflicting edit");
+  const headBefore = git(repo, "rev-parse", "HEAD");
+  const conflict = await worktrees.merge(second);
+  assert.equal(conflict.ok, false);
+  assert.equal(git(repo, "rev-parse", "HEAD"), headBefore);
+  assert.equal(git(repo, "status", "--porcelain"), "");
+  assert.equal(fs.existsSync(second.path), true);
+  console.log("✅ conflicting merge is aborted");
+
+  // Discard removes directory and branch
+  await worktrees.remove(second, { deleteBranch: true });
+  assert.equal(fs.existsSync(second.path), false);
+  assert.equal(git(repo, "branch", "--list", second.branch), "");
+  assert.equal((await worktrees.diskUsage(second.path)), null);
+  console.log("✅ discard removes the worktree and its branch");
+} finally {
+  fs.rmSync(base, { recursive: true, force: true });
+}
+console.log("\n🎉 git worktree tests passed");
@@ -0,0 +1,146 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test: Graceful Handler Shutdown and Cancellation
+ * How to Run: npx tsx tests/unit/test-in-flight-turns.ts
+ * Purpose: Verify that a shutdown waits for answers being streamed and
+ *          checkpoints the ones that don't finish in time, and that an
+ *          answer can be cancelled from the phone.
+ * Tests: drain() returning early once every turn finishes, the grace
+ *        period timing out, interrupted turns keeping their partial text
+ *        with status "interrupted" and a link back to the user message,
+ *        aborting the model call, leaving finalizing turns alone, the
+ *        retryMessage transaction builder, cancelling by assistant message
+ *        with status "cancelled", abortable() returning before slow work,
+ *        and the requestCancel builder.
+ * Test Data: StreamWriters over an in-memory fake store; a fake tx proxy.
+ * Challenges: The SIGINT handler exited mid-stream, leaving assistant
+ *             messages "streaming" and user messages "processing" forever.
+ * User Request: "We want a shutdown sequence with a grace period to finish
+ *               streams. Anything still unfinished should be marked
+ *               `interrupted` with partial content preserved and a retry
+ *               affordance."
+ */
+
+import assert from "node:assert/strict";
+import { abortable, InFlightTurns } from "../../server/lib/in-flight-turns";
+import { StreamWriter } from "../../server/lib/stream-writer";
+import { requestCancel, retryMessage } from "../../lib/data-model";
+
+function fakeMessage() {
+  const state: Record<string, any> = { streamDeltas: {}, status: "streaming" };
+  const writer = new StreamWriter(
+    async (payload, kind) => {
+      if (kind === "delta") Object.assign(state.streamDeltas, payload.streamDeltas);
+      else Object.assign(state, payload);
+    },
+    { intervalMs: 10_000 }
+  );
+  return { state, writer };
+}
+
+async function testDrain() {
+  const turns = new InFlightTurns();
+  assert.deepEqual(await turns.drain(1_000), [], "nothing to wait for");
+
+  const { writer } = fakeMessage();
+  turns.track({ messageId: "u1", assistantMessageId: "a1", conversationId: "c", writer });
+  setTimeout(() => turns.release("u1"), 50);
+  let started = Date.now();
+  assert.deepEqual(await turns.drain(5_000), []);
+  assert.ok(Date.now() - started < 1_000, "returned as soon as the turn finished");
+
+  turns.track({ messageId: "u2", assistantMessageId: "a2", conversationId: "c", writer });
+  started = Date.now();
+  const left = await turns.drain(100);
+  assert.ok(Date.now() - started >= 90, "waited out the grace period");
+  assert.deepEqual(left.map((t) => t.messageId), ["u2"]);
+  console.log("✅ drain waits for running turns up to the grace period");
+}
+
+async function testInterrupt() {
+  const turns = new InFlightTurns();
+  const slow = fakeMessage();
+  const done = fakeMessage();
+  const turn = turns.track({
+    messageId: "u1",
+    assistantMessageId: "a1",
+    conversationId: "c",
+    writer: slow.writer,
+  });
+  const finishing = turns.track({
+    messageId: "u2",
+    assistantMessageId: "a2",
+    conversationId: "c",
+    writer: done.writer,
+  });
+  finishing.finalizing = true;
+  setTimeout(() => turns.release("u2"), 50);
+
+  await slow.writer.push("The answer is ");
+  await slow.writer.push("forty");
+  const stopped = await turns.interruptRemaining("Handler stopped (SIGTERM)", 1_000);
+
+  assert.deepEqual(stopped.map((t) => t.messageId), ["u1"], "finalizing turn left alone");
+  assert.equal(turn.interrupted, true);
+  assert.equal(turn.abort.signal.aborted, true);
+  assert.equal(slow.state.status, "interrupted");
+  assert.equal(slow.state.isStreaming, false);
+  assert.equal(slow.state.content, "The answer is forty");
+  assert.equal(slow.state.finalContent, "The answer is forty");
+  assert.equal(slow.state.metadata.replyTo, "u1");
+  assert.equal(turns.size, 0);
+  console.log("✅ unfinished turns keep their partial text as interrupted");
+}
+
+// Records the calls a tx builder would turn into a transaction
+const tx = new Proxy({} as any, {
+  get: (_, entity) =>
+    new Proxy({}, { get: (_, rowId) => ({ update: (fields: any) => ({ entity, rowId, fields }) }) }),
+});
+
+function testRetryMessage() {
+  const chunks = retryMessage(tx, "u1", "a1") as any[];
+  assert.deepEqual(chunks[0], {
+    entity: "messages",
+    rowId: "u1",
+    fields: { status: "pending", attempts: 0, errorMessage: "" },
+  });
+  assert.deepEqual(chunks[1], { entity: "messages", rowId: "a1", fields: { status: "replaced" } });
+  assert.equal((retryMessage(tx, "u1") as any[]).length, 1);
+  console.log("✅ retrying puts the question back in the queue");
+}
+
+async function testCancel() {
+  const turns = new InFlightTurns();
+  const { state, writer } = fakeMessage();
+  const turn = turns.track({ messageId: "u1", assistantMessageId: "a1", conversationId: "c", writer });
+  assert.equal(turns.forAssistantMessage("a1"), turn);
+  assert.equal(turns.forAssistantMessage("u1"), undefined);
+
+  // An agent run that would take a minute to notice the abort
+  const slowRun = new Promise((resolve) => setTimeout(resolve, 60_000).unref());
+  const waiting = abortable(turn.abort.signal, slowRun);
+
+  await writer.push("Partial");
+  const started = Date.now();
+  await turns.interrupt(turn, "Cancelled from the app", "cancelled");
+  await assert.rejects(waiting, /Cancelled from the app/);
+  assert.ok(Date.now() - started < 1_000, "the turn returned right away");
+  assert.equal(state.status, "cancelled");
+  assert.equal(state.content, "Partial");
+  assert.ok(state.metadata.cancelledAt);
+  assert.equal(turns.size, 0);
+
+  assert.equal(await abortable(new AbortController().signal, Promise.resolve(42)), 42);
+  const chunk = requestCancel(tx, "a1") as any;
+  assert.equal(chunk.rowId, "a1");
+  assert.ok(chunk.fields.cancelRequestedAt);
+  console.log("✅ cancelling stops the turn at once and keeps the partial text");
+}
+
+await testDrain();
+await testInterrupt();
+testRetryMessage();
+await testCancel();
+console.log("\n🎉 in-flight turn tests passed");
@@ -0,0 +1,151 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test: Message Branching
+ * How to Run: npx tsx tests/unit/test-message-branches.ts
+ * Purpose: Verify that regenerated replies and edited questions are kept as
+ *          sibling branches, that the conversation shows (and the handler
+ *          answers from) only the selected branch, and that conversations
+ *          from before branching still read as one thread.
+ * Tests: Parent inference for messages without parentId, the active thread
+ *        defaulting to the newest alternative, following a selection back to
+ *        an older branch, ancestorsOf for the context builder, and the
+ *        regenerateReply / editAndResend / selectBranch transaction builders.
+ * Test Data: Small in-memory message lists; a fake tx proxy.
+ * Challenges: Legacy messages have no parentId; replies only link back via
+ *             metadata.replyTo, and questions just follow the last message.
+ * User Request: "Regenerate and edit-and-resend with message branching: the
+ *               old reply is marked replaced, the replacement kept as a
+ *               sibling branch, arrows in the UI to flip between them, and
+ *               the handler's history builder follows only the active branch."
+ */
+
+import assert from "node:assert/strict";
+import {
+  activeThread,
+  ancestorsOf,
+  branchKey,
+  editAndResend,
+  regenerateReply,
+  resolveParents,
+  selectBranch,
+} from "../../lib/data-model";
+
+type Msg = {
+  id: string;
+  role: "user" | "assistant";
+  timestamp: number;
+  parentId?: string;
+  metadata?: any;
+};
+
+const msg = (id: string, role: Msg["role"], timestamp: number, extra: Partial<Msg> = {}): Msg => ({
+  id,
+  role,
+  timestamp,
+  ...extra,
+});
+
+// Records the calls a tx builder would turn into a transaction
+const tx = new Proxy({} as any, {
+  get: (_, entity) =>
+    new Proxy({}, {
+      get: (_, rowId) => ({
+        update(fields: any): any {
+          const chunk = { entity, rowId, op: "update", fields };
+          return { ...chunk, link: () => chunk };
+        },
+        merge: (fields: any) => ({ entity, rowId, op: "merge", fields }),
+      }),
+    }),
+});
+
+function testLegacyThread() {
+  // Written before branching: no parentIds, replies point back via replyTo
+  const messages = [
+    msg("u1", "user", 1),
+    msg("a1", "assistant", 2, { metadata: { replyTo: "u1" } }),
+    msg("u2", "user", 3),
+    msg("a2", "assistant", 4),
+  ];
+  const parents = resolveParents(messages);
+  assert.equal(parents.get("u1"), null);
+  assert.equal(parents.get("a1"), "u1");
+  assert.equal(parents.get("u2"), "a1");
+  assert.equal(parents.get("a2"), "u2");
+  assert.deepEqual(activeThread(messages).map((e) => e.message.id), ["u1", "a1", "u2", "a2"]);
+  assert.deepEqual(ancestorsOf(messages, "u2").map((m) => m.id), ["u1", "a1"]);
+  console.log("✅ conversations from before branching read as one thread");
+}
+
+function testBranches() {
+  const messages = [
+    msg("u1", "user", 1, { parentId: "c1" }),
+    msg("a1", "assistant", 2, { parentId: "u1" }),
+    msg("u2", "user", 3, { parentId: "a1" }),
+    msg("a2", "assistant", 4, { parentId: "u2" }),
+    // a1 regenerated, and a follow-up on the new reply
+    msg("a1b", "assistant", 5, { parentId: "u1" }),
+    msg("u3", "user", 6, { parentId: "a1b" }),
+    // The first question edited
+    msg("u1b", "user", 7, { parentId: "c1" }),
+  ];
+
+  // Newest alternatives win by default
+  let thread = activeThread(messages);
+  assert.deepEqual(thread.map((e) => e.message.id), ["u1b"]);
+  assert.deepEqual(thread[0]!.siblings.map((m) => m.id), ["u1", "u1b"]);
+  assert.equal(thread[0]!.index, 1);
+  assert.equal(thread[0]!.key, branchKey(null, "user"));
+
+  // Back to the original question: its newest reply and what followed it
+  thread = activeThread(messages, { "root:user": "u1" });
+  assert.deepEqual(thread.map((e) => e.message.id), ["u1", "a1b", "u3"]);
+  assert.equal(thread[1]!.key, "u1:assistant");
+  assert.equal(thread[1]!.siblings.length, 2);
+
+  // ...and the first reply, which still has its own follow-up
+  thread = activeThread(messages, { "root:user": "u1", "u1:assistant": "a1" });
+  assert.deepEqual(thread.map((e) => e.message.id), ["u1", "a1", "u2", "a2"]);
+
+  // A selection that no longer exists falls back to the newest
+  thread = activeThread(messages, { "root:user": "gone" });
+  assert.deepEqual(thread.map((e) => e.message.id), ["u1b"]);
+
+  // The handler answers u3 with its own branch only
+  assert.deepEqual(ancestorsOf(messages, "u3").map((m) => m.id), ["u1", "a1b"]);
+  assert.deepEqual(ancestorsOf(messages, "u1b"), []);
+  console.log("✅ only the selected branch is shown and sent as context");
+}
+
+function testBuilders() {
+  const regenerate = regenerateReply(tx, "c1", "u1", "a1") as any[];
+  assert.deepEqual(regenerate.map((c) => [c.rowId, c.op, c.fields]), [
+    ["u1", "update", { status: "pending", attempts: 0, errorMessage: "" }],
+    ["a1", "update", { status: "replaced" }],
+    ["c1", "merge", { branchSelections: { "u1:assistant": null } }],
+  ]);
+
+  const edit = editAndResend(tx, { id: "u2", conversationId: "c1" }, "a1", "u2b", "Try again") as any[];
+  assert.deepEqual(edit[0].fields, { status: "replaced" });
+  assert.equal(edit[1].rowId, "u2b");
+  assert.equal(edit[2].fields.branchSelections["a1:user"], "u2b");
+
+  // Editing the first question: the new one starts the conversation too
+  const first = editAndResend(tx, { id: "u1", conversationId: "c1" }, null, "u1b", "Hi") as any[];
+  assert.equal(first[1].fields.parentId, "c1");
+  assert.deepEqual(first[2].fields, { branchSelections: { "root:user": "u1b" } });
+
+  assert.deepEqual(selectBranch(tx, "c1", "u1:assistant", "a1"), {
+    entity: "conversations",
+    rowId: "c1",
+    op: "merge",
+    fields: { branchSelections: { "u1:assistant": "a1" } },
+  });
+  console.log("✅ regenerate, edit and select build the right transactions");
+}
+
+testLegacyThread();
+testBranches();
+testBuilders();
+console.log("\n🎉 message branching tests passed");
@@ -0,0 +1,211 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test: Durable Message Queue
+ * How to Run: npx tsx tests/unit/test-message-queue.ts
+ * Purpose: Verify that a message is answered by the worker holding its
+ *          lease, and that a worker which lost the lease can no longer
+ *          renew or release it.
+ * Tests: Claiming a pending message (and not one claimed elsewhere), lease
+ *        renewal, losing a lapsed lease to another worker (renewals stop,
+ *        the worker is told, the late release is dropped), recovery of
+ *        expired and orphaned claims, recovery not clobbering a claim made in
+ *        the meantime, and two handlers on one host leaving each other's live
+ *        claims alone.
+ * Test Data: In-memory fake of the InstantDB client with `messages` rows;
+ *            3s leases (renewed every second) and short settle delays. Live
+ *            workers use this process's pid, dead ones the pid of a child
+ *            that already exited.
+ * Challenges: InstantDB has no compare-and-swap: claims are confirmed by
+ *             reading the token back, and every later write has to check
+ *             that token again before touching the row.
+ * User Request: "We need a persistent queue that lives in InstantDB and uses
+ *               lease/claim semantics... each claim should record which host
+ *               holds it and until when."
+ */
+
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import os from "os";
+import { DurableMessageQueue } from "../../server/services/message-queue";
+
+type Row = Record<string, any>;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+const host = os.hostname();
+const deadPid = spawnSync(process.execPath, ["-e", ""]).pid;
+
+// Just enough of the InstantDB client for the queue
+function fakeDb() {
+  const messages = new Map<string, Row>();
+  const txFor = () =>
+    new Proxy({}, { get: (_, rowId: string) => ({ update: (fields: Row) => ({ rowId, fields }) }) });
+  return {
+    messages,
+    tx: { messages: txFor() },
+    async transact(chunks: { rowId: string; fields: Row }[]) {
+      for (const { rowId, fields } of chunks) {
+        messages.set(rowId, { ...(messages.get(rowId) || { id: rowId }), ...fields });
+      }
+    },
+    async queryOnce(q: any) {
+      const where = q.messages.$?.where || {};
+      const rows = [...messages.values()].filter((row) =>
+        Object.entries(where).every(([key, value]: [string, any]) =>
+          value?.$in ? value.$in.includes(row[key]) : row[key] === value
+        )
+      );
+      return { data: { messages: rows } };
+    },
+  };
+}
+
+function worker(
+  db: ReturnType<typeof fakeDb>,
+  workerId: string,
+  leaseMs = 3_000,
+  onLeaseLost?: (messageId: string) => void
+) {
+  const queue = new DurableMessageQueue(db as any, { leaseMs, settleMs: 5, onLeaseLost });
+  (queue as any).workerId = workerId;
+  return queue;
+}
+
+function pending(db: ReturnType<typeof fakeDb>, id: string, timestamp = 1) {
+  db.messages.set(id, { id, role: "user", status: "pending", timestamp });
+}
+
+async function testClaim() {
+  const db = fakeDb();
+  const a = worker(db, "host-a:1");
+  const b = worker(db, "host-b:1");
+  pending(db, "m1");
+  try {
+    const claimed = await a.claim("m1");
+    assert.ok(claimed);
+    const row = db.messages.get("m1")!;
+    assert.equal(row.status, "processing");
+    assert.equal(row.claimedBy, "host-a:1");
+    assert.equal(row.attempts, 1);
+    assert.equal(claimed.claimToken, row.claimToken);
+    assert.equal(await b.claim("m1"), null, "a live lease is not claimable");
+
+    await a.complete("m1");
+    assert.equal(db.messages.get("m1")!.status, "completed");
+    assert.equal(db.messages.get("m1")!.claimedBy, null);
+    console.log("✅ a pending message is claimed by one worker and released by it");
+  } finally {
+    a.shutdown();
+    b.shutdown();
+  }
+}
+
+async function testRenew() {
+  const db = fakeDb();
+  const a = worker(db, "host-a:1");
+  pending(db, "m1");
+  try {
+    await a.claim("m1");
+    const first = db.messages.get("m1")!.claimedUntil;
+    await sleep(1_100);
+    assert.ok(db.messages.get("m1")!.claimedUntil > first, "the lease is extended");
+    console.log("✅ the lease is renewed while the message is worked on");
+  } finally {
+    a.shutdown();
+  }
+}
+
+async function testLostLease() {
+  const db = fakeDb();
+  const lost: string[] = [];
+  const a = worker(db, "host-a:1", 3_000, (messageId) => lost.push(messageId));
+  const b = worker(db, "host-b:1");
+  pending(db, "m1");
+  try {
+    await a.claim("m1");
+    // a stalls past its lease and b takes the message over
+    db.messages.get("m1")!.claimedUntil = Date.now() - 1;
+    assert.ok(await b.claim("m1"));
+    const taken = { ...db.messages.get("m1")! };
+
+    // a's next renewal notices and stops instead of extending b's lease
+    await sleep(1_100);
+    assert.equal((a as any).renewTimers.has("m1"), false);
+    assert.deepEqual(lost, ["m1"], "the worker is told to stop answering");
+    assert.equal(db.messages.get("m1")!.claimToken, taken.claimToken);
+
+    // a finishes late; its release is dropped
+    await a.complete("m1");
+    assert.equal(db.messages.get("m1")!.status, "processing");
+    assert.equal(db.messages.get("m1")!.claimedBy, "host-b:1");
+    await b.complete("m1");
+    assert.equal(db.messages.get("m1")!.status, "completed");
+    console.log("✅ a worker that lost its lease can't renew or release it");
+  } finally {
+    a.shutdown();
+    b.shutdown();
+  }
+}
+
+async function testRecover() {
+  const db = fakeDb();
+  const queue = worker(db, `${host}:${process.pid}`);
+  const expired = Date.now() - 1;
+  const live = Date.now() + 60_000;
+  pending(db, "waiting", 5);
+  db.messages.set("expired", { id: "expired", role: "user", status: "processing", timestamp: 1, claimedBy: "host-b:1", claimedHost: "host-b", claimedUntil: expired, claimToken: "t1", attempts: 1 });
+  db.messages.set("orphan", { id: "orphan", role: "user", status: "processing", timestamp: 2, claimedBy: `${host}:${deadPid}`, claimedHost: host, claimedUntil: live, claimToken: "t2", attempts: 1 });
+  db.messages.set("busy", { id: "busy", role: "user", status: "processing", timestamp: 3, claimedBy: "host-b:1", claimedHost: "host-b", claimedUntil: live, claimToken: "t3", attempts: 1 });
+  db.messages.set("worn", { id: "worn", role: "user", status: "processing", timestamp: 4, claimedBy: "host-b:1", claimedHost: "host-b", claimedUntil: expired, claimToken: "t4", attempts: 3 });
+  try {
+    const { requeued, failed, pending: todo } = await queue.recover();
+    assert.deepEqual(requeued.map((m) => m.id), ["expired", "orphan"]);
+    assert.deepEqual(failed.map((m) => m.id), ["worn"]);
+    assert.deepEqual(todo.map((m) => m.id), ["expired", "orphan", "waiting"]);
+    assert.equal(db.messages.get("expired")!.status, "pending");
+    assert.equal(db.messages.get("busy")!.status, "processing");
+    assert.equal(db.messages.get("worn")!.status, "error");
+
+    // Another worker claimed the message after recovery read it
+    db.messages.set("raced", { id: "raced", role: "user", status: "processing", claimedBy: "host-b:1", claimToken: "new" });
+    await queue.requeue("raced", "old");
+    assert.equal(db.messages.get("raced")!.status, "processing");
+    console.log("✅ recovery requeues abandoned claims and leaves new ones alone");
+  } finally {
+    queue.shutdown();
+  }
+}
+
+// Two handlers on one host without leader election (`npm run listen` next to
+// the supervisor's, or a restart overlapping the old process)
+async function testSameHost() {
+  const db = fakeDb();
+  const a = worker(db, `${host}:${process.pid}`);
+  const b = worker(db, `${host}:${deadPid + 1_000_000}`);
+  pending(db, "m1");
+  try {
+    await a.claim("m1");
+    const { requeued, pending: todo } = await b.recover();
+    assert.deepEqual(requeued, [], "a live claim on this host is not orphaned");
+    assert.deepEqual(todo, []);
+    assert.equal(await b.claim("m1"), null);
+    assert.equal(db.messages.get("m1")!.claimedBy, `${host}:${process.pid}`);
+
+    // Once a's process is gone its claim is orphaned, lease or not
+    db.messages.get("m1")!.claimedBy = `${host}:${deadPid}`;
+    const recovered = await b.recover();
+    assert.deepEqual(recovered.requeued.map((m) => m.id), ["m1"]);
+    assert.ok(await b.claim("m1"));
+    console.log("✅ handlers on one host only take over claims of dead processes");
+  } finally {
+    a.shutdown();
+    b.shutdown();
+  }
+}
+
+await testClaim();
+await testRenew();
+await testLostLease();
+await testRecover();
+await testSameHost();
+console.log("\n🎉 message queue tests passed");
@@ -0,0 +1,132 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test: Schema Migration Runner
+ * How to Run: npx tsx tests/unit/test-migrations.ts
+ * Purpose: Verify that migrations run in order, only once, and that the
+ *          applied version is recorded in schemaMeta.
+ * Tests: Pending-only application, --to limit, dry-run writes nothing,
+ *        out-of-order registry rejected, handler version check.
+ * Test Data: In-memory fake of db.queryOnce / db.tx / db.transact.
+ * Challenges: The schema had drifted (backup handler and sanity-check each
+ *             defined their own) with no record of what the database holds.
+ * User Request: "A CLI that records the applied schema version in a metadata
+ *               entity ... refuse to start the handler when its expected
+ *               version doesn't match the database."
+ */
+
+import assert from "node:assert/strict";
+import {
+  checkSchemaVersion,
+  readSchemaState,
+  runMigrations,
+  validateMigrations,
+  type Migration,
+} from "../../server/lib/migrations";
+
+function fakeDb() {
+  const tables: Record<string, Record<string, any>> = { schemaMeta: {} };
+  const tx = new Proxy(
+    {},
+    {
+      get: (_, entity: string) =>
+        new Proxy(
+          {},
+          {
+            get: (_, rowId: string) => ({
+              update: (fields: any) => ({ entity, rowId, fields }),
+            }),
+          }
+        ),
+    }
+  );
+  const db = {
+    tx,
+    async transact(chunks: any[]) {
+      for (const c of chunks) {
+        tables[c.entity] ??= {};
+        tables[c.entity]![c.rowId] = {
+          ...tables[c.entity]![c.rowId],
+          ...c.fields,
+          id: c.rowId,
+        };
+      }
+    },
+    async queryOnce() {
+      return { data: { schemaMeta: Object.values(tables.schemaMeta!) } };
+    },
+  };
+  return { db: db as any, tables };
+}
+
+function migration(version: number, calls: number[]): Migration {
+  return {
+    version,
+    name: `m${version}`,
+    description: `migration ${version}`,
+    async up() {
+      calls.push(version);
+    },
+  };
+}
+
+const quiet = { log: () => {} };
+
+async function testAppliesPendingOnce() {
+  const { db } = fakeDb();
+  const calls: number[] = [];
+  const all = [1, 2, 3].map((v) => migration(v, calls));
+
+  const first = await runMigrations(db, all, { ...quiet, to: 2 });
+  assert.deepEqual(calls, [1, 2]);
+  assert.equal(first.to, 2);
+
+  const second = await runMigrations(db, all, quiet);
+  assert.deepEqual(calls, [1, 2, 3]);
+  assert.equal(second.from, 2);
+
+  const state = await readSchemaState(db);
+  assert.equal(state?.version, 3);
+  assert.equal(state?.history.length, 3);
+
+  const third = await runMigrations(db, all, quiet);
+  assert.equal(third.applied.length, 0);
+  console.log("✅ migrations apply in order, once each");
+}
+
+async function testDryRun() {
+  const { db, tables } = fakeDb();
+  const calls: number[] = [];
+  const result = await runMigrations(db, [migration(1, calls)], {
+    ...quiet,
+    dryRun: true,
+  });
+  assert.deepEqual(calls, [1]);
+  assert.equal(result.dryRun, true);
+  assert.equal(Object.keys(tables.schemaMeta!).length, 0);
+  console.log("✅ dry run records nothing");
+}
+
+async function testVersionCheck() {
+  const { db } = fakeDb();
+  const before = await checkSchemaVersion(db, 1);
+  assert.equal(before.ok, false);
+  assert.match(before.message, /npm run migrate/);
+
+  await runMigrations(db, [migration(1, [])], quiet);
+  assert.equal((await checkSchemaVersion(db, 1)).ok, true);
+  assert.equal((await checkSchemaVersion(db, 0)).ok, false);
+  console.log("✅ version mismatch is reported both ways");
+}
+
+function testRejectsOutOfOrder() {
+  assert.throws(() => validateMigrations([migration(2, []), migration(1, [])]));
+  assert.throws(() => validateMigrations([migration(1, []), migration(1, [])]));
+  console.log("✅ out-of-order registry is rejected");
+}
+
+await testAppliesPendingOnce();
+await testDryRun();
+await testVersionCheck();
+testRejectsOutOfOrder();
+console.log("\n🎉 migration runner tests passed");
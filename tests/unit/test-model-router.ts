@@ -0,0 +1,57 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test: Model Router
+ * How to Run: npx tsx tests/unit/test-model-router.ts
+ * Purpose: Verify model spec parsing and the fallback chain built from
+ *          config/models.json-style settings.
+ * Tests: Bare IDs use the default provider, requested model goes first,
+ *        duplicates are removed, unusable providers are skipped, job roles
+ *        resolve to their configured model.
+ * Test Data: Inline router config; no network calls are made.
+ * Challenges: The model used to be hard-coded as litellm("claude-3-7-sonnet")
+ *             in processMessage and testAISDK.
+ * User Request: "Each conversation or message should be able to pick a model,
+ *               and the config should define a fallback chain."
+ */
+
+import assert from "node:assert/strict";
+import { ModelRouter } from "../../server/lib/model-router";
+
+const router = new ModelRouter({
+  defaultModel: "litellm:claude-3-7-sonnet",
+  fallbacks: ["litellm:claude-sonnet-4", "local:llama3", "missing:gpt-4o"],
+  providers: {
+    litellm: { type: "litellm", baseURL: "http://localhost:4000" },
+    local: { type: "openai-compatible", baseURL: "http://localhost:11434/v1" },
+  },
+  roles: { summary: "local:llama3" },
+});
+
+assert.equal(router.normalize("gpt-4o"), "litellm:gpt-4o");
+assert.equal(router.normalize("local:llama3"), "local:llama3");
+console.log("✅ bare model IDs use the default provider");
+
+const specs = router.candidates("local:llama3").map((c) => c.spec);
+assert.deepEqual(specs, [
+  "local:llama3",
+  "litellm:claude-3-7-sonnet",
+  "litellm:claude-sonnet-4",
+]);
+console.log("✅ requested model first, duplicates and unknown providers dropped");
+
+const defaults = router.candidates().map((c) => c.spec);
+assert.equal(defaults[0], "litellm:claude-3-7-sonnet");
+console.log("✅ default model leads when nothing is requested");
+
+const resolved = router.resolve("local:llama3");
+assert.equal(resolved.provider, "local");
+assert.equal(resolved.modelId, "llama3");
+console.log("✅ resolve splits provider and model ID");
+
+assert.equal(router.forRole("summary"), "local:llama3");
+assert.equal(router.forRole("unknown"), undefined);
+assert.equal(router.candidates(router.forRole("summary"))[0]!.spec, "local:llama3");
+console.log("✅ job roles pick their model ahead of the default chain");
+
+console.log("\n🎉 model router tests passed");
@@ -0,0 +1,110 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test: Network Diagnosis
+ * How to Run: npx tsx tests/unit/test-network-diagnosis.ts
+ * Purpose: Verify that network errors in process output are diagnosed by
+ *          the configured detectors and fixed by their remediations.
+ * Tests: Trigger matching, command/http detectors, remediation success
+ *        patterns, the clear/remediated/unresolved outcomes, the attempt
+ *        limit, restarting the process after a verified fix, cool-down.
+ * Test Data: Shell commands around a marker file in a temp directory, and a
+ *            closed local port.
+ * Challenges: Any fetch failure was treated as Zscaler and "fixed" with a
+ *             script that only exists on one machine.
+ * User Request: "We want a network-diagnosis subsystem with pluggable
+ *               detectors and remediations configured per machine."
+ */
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  matchTrigger,
+  runDetector,
+  runRemediation,
+  DEFAULT_NETWORK_CONFIG,
+  type NetworkConfig,
+} from "../../server/lib/network-diagnosis";
+import { NetworkDiagnostics } from "../../server/services/network-diagnostics";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "network-test-"));
+const flag = path.join(dir, "proxy-off");
+
+async function testDetectors() {
+  assert.equal(matchTrigger(DEFAULT_NETWORK_CONFIG, "TypeError: fetch failed at ..."), "TypeError: fetch failed");
+  assert.equal(matchTrigger(DEFAULT_NETWORK_CONFIG, "Bundled 123 modules"), null);
+
+  const matched = await runDetector({
+    name: "proxy",
+    type: "command",
+    command: "echo '165.225.1.1 UGSc'",
+    pattern: "165\\.225\\.",
+  });
+  assert.equal(matched.ok, false);
+  assert.match(matched.detail, /165\.225/);
+
+  const exitCode = await runDetector({ name: "exit", type: "command", command: "exit 3" });
+  assert.equal(exitCode.ok, false);
+  assert.equal((await runDetector({ name: "exit", type: "command", command: "true" })).ok, true);
+
+  const refused = await runDetector({ name: "local", type: "http", url: "http://127.0.0.1:9/", timeoutMs: 2_000 });
+  assert.equal(refused.ok, false);
+
+  const fixed = await runRemediation("proxy", { command: "echo 'Zscaler already OFF'; exit 1", successPattern: "already OFF" });
+  assert.equal(fixed.ok, true);
+  const failed = await runRemediation("proxy", { command: "exit 2" });
+  assert.equal(failed.ok, false);
+  console.log("✅ detectors and remediations report what they found");
+}
+
+async function testDiagnosis() {
+  const config: NetworkConfig = {
+    triggers: ["fetch failed"],
+    coolDownMs: 0,
+    detectors: [
+      {
+        name: "proxy",
+        type: "command",
+        command: `test -f "${flag}"`,
+        description: "Proxy is intercepting traffic",
+        remediation: { command: `touch "${flag}"`, settleMs: 0, maxAttempts: 1 },
+      },
+      { name: "always-ok", type: "command", command: "true" },
+    ],
+  };
+  const restarted: string[] = [];
+  const doctor = new NetworkDiagnostics(null, config, {
+    onRemediated: (name) => restarted.push(name),
+  });
+
+  const first = await doctor.diagnose("bundler", "fetch failed");
+  assert.equal(first.outcome, "remediated");
+  assert.equal(first.remediations[0]?.verified, true);
+  assert.match(first.summary, /Fixed: Proxy is intercepting traffic/);
+  assert.deepEqual(restarted, ["bundler"]);
+
+  const second = await doctor.diagnose("bundler", "fetch failed");
+  assert.equal(second.outcome, "clear");
+
+  // A remediation that doesn't help is given up on after maxAttempts
+  fs.rmSync(flag);
+  config.detectors[0]!.remediation = { command: "true", settleMs: 0, maxAttempts: 1 };
+  const third = await doctor.diagnose("bundler", "fetch failed");
+  assert.equal(third.outcome, "unresolved");
+  assert.equal(third.remediations.length, 1);
+  const fourth = await doctor.diagnose("bundler", "fetch failed");
+  assert.equal(fourth.outcome, "unresolved");
+  assert.equal(fourth.remediations.length, 0);
+  assert.deepEqual(restarted, ["bundler"]);
+  console.log("✅ diagnoses record outcomes and stop retrying failed fixes");
+}
+
+try {
+  await testDetectors();
+  await testDiagnosis();
+} finally {
+  fs.rmSync(dir, { recursive: true, force: true });
+}
+console.log("\n🎉 network diagnosis tests passed");
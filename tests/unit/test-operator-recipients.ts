@@ -0,0 +1,54 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test: Operator Recipients of Host Alerts
+ * How to Run: npx tsx tests/unit/test-operator-recipients.ts
+ * Purpose: Verify that the supervisor finds the operators to push "Host
+ *          degraded/recovered" alerts to when INSTANTDB_OPERATOR_EMAILS is
+ *          only set in .env.
+ * Tests: The operator list being read when it is needed rather than on
+ *        import, emails being trimmed and lower-cased, operators who never
+ *        signed in being left out, and no query without an operator list.
+ * Test Data: An in-memory fake of the InstantDB client with a few `$users`
+ *            rows; the environment is set after the modules are imported,
+ *            the way dotenv.config() runs after the supervisor's imports.
+ * Challenges: ESM evaluates imports before the importing module's body, so
+ *             anything read from process.env on import misses .env.
+ * User Request: "This builds on the existing `messages`/`conversations` flow
+ *               and the push path in `sendExpoPushNotifications`."
+ */
+
+import assert from "node:assert/strict";
+import { operatorUserIds } from "../../server/lib/host-auth";
+import { operatorEmails } from "../../lib/identity";
+
+function fakeDb(users: { id: string; email: string }[]) {
+  const queries: any[] = [];
+  return {
+    queries,
+    async queryOnce(q: any) {
+      queries.push(q);
+      const emails: string[] = q.$users.$.where.email.$in;
+      return { data: { $users: users.filter((u) => emails.includes(u.email)) } };
+    },
+  };
+}
+
+async function testReadAfterImport() {
+  delete process.env.INSTANTDB_OPERATOR_EMAILS;
+  const db = fakeDb([
+    { id: "u1", email: "ops@example.com" },
+    { id: "u2", email: "someone@example.com" },
+  ]);
+  assert.deepEqual(await operatorUserIds(db as any), []);
+  assert.equal(db.queries.length, 0, "no operators, no query");
+
+  // What dotenv.config() does once the imports have run
+  process.env.INSTANTDB_OPERATOR_EMAILS = " Ops@Example.com, absent@example.com ";
+  assert.deepEqual(operatorEmails(), ["ops@example.com", "absent@example.com"]);
+  assert.deepEqual(await operatorUserIds(db as any), ["u1"]);
+  console.log("✅ operators set in .env after import are found");
+}
+
+await testReadAfterImport();
+console.log("\n🎉 operator recipient tests passed");
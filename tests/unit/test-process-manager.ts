@@ -0,0 +1,222 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test: Declarative Process Manifest
+ * How to Run: npx tsx tests/unit/test-process-manager.ts
+ * Purpose: Verify that the supervisor's processes come from the manifest
+ *          and are started, restarted and health-checked as it says.
+ * Tests: Variable expansion, validation (duplicates, unknown dependencies,
+ *        cycles), dependency start order with ready patterns, restart
+ *        policies with backoff, log-pattern health checks, the crash-loop
+ *        circuit breaker and its stderr crash report, stopping with a
+ *        signal and a kill timeout, the shipped config/processes.json.
+ * Test Data: Tiny `node -e` processes that print, wait or exit.
+ * Challenges: Adding a process meant editing supervisor code, and each
+ *             child had its own restart logic.
+ * User Request: "We want a config file that lists any number of managed
+ *               processes with command, cwd, env, health check ..., restart
+ *               policy, backoff and dependencies."
+ */
+
+import assert from "node:assert/strict";
+import path from "node:path";
+import {
+  expandVars,
+  loadProcessManifest,
+  startOrder,
+  validateManifest,
+  type ProcessConfig,
+} from "../../server/lib/process-manifest";
+import {
+  ProcessManager,
+  type CrashReport,
+} from "../../server/services/process-manager";
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+const node = (script: string, extra: Partial<ProcessConfig> & { name: string }) => ({
+  command: process.execPath,
+  args: ["-e", script],
+  ...extra,
+});
+
+async function waitFor(check: () => boolean, what: string, ms = 5_000) {
+  const until = Date.now() + ms;
+  while (!check()) {
+    if (Date.now() > until) throw new Error(`Timed out waiting for ${what}`);
+    await sleep(50);
+  }
+}
+
+function testManifest() {
+  assert.equal(expandVars("${A:-x}-${B}", { A: "1" }), "1-");
+  assert.equal(expandVars("${A:-8081}", {}), "8081");
+  assert.equal(expandVars("plain", {}), "plain");
+
+  const ok = { processes: [{ name: "a", command: "x" }, { name: "b", command: "x", dependsOn: ["a"] }] };
+  assert.deepEqual(startOrder(validateManifest(ok).processes).map((p) => p.name), ["a", "b"]);
+
+  assert.throws(
+    () => validateManifest({ processes: [{ name: "a", command: "x" }, { name: "a", command: "y" }] }),
+    /listed twice/
+  );
+  assert.throws(
+    () => validateManifest({ processes: [{ name: "a", command: "x", dependsOn: ["zz"] }] }),
+    /unknown "zz"/
+  );
+  assert.throws(
+    () =>
+      validateManifest({
+        processes: [
+          { name: "a", command: "x", dependsOn: ["b"] },
+          { name: "b", command: "x", dependsOn: ["a"] },
+        ],
+      }),
+    /cycle/
+  );
+
+  const shipped = loadProcessManifest(path.join(import.meta.dirname, "../../config/processes.json"));
+  assert.ok(shipped.processes.some((p) => p.name === "handler"));
+  assert.ok(shipped.processes.some((p) => p.name === "bundler" && p.bundleErrors));
+  console.log("✅ manifest is expanded, validated and ordered");
+}
+
+async function testLifecycle() {
+  const exits: string[] = [];
+  const manager = new ProcessManager(
+    {
+      processes: [
+        // Starts only after "db" printed its ready line
+        node("setInterval(() => {}, 1000)", { name: "api", dependsOn: ["db"] }),
+        node("setTimeout(() => console.log('db listening'), 300); setInterval(() => {}, 1000)", {
+          name: "db",
+          ready: { pattern: "listening" },
+        }),
+        // Crashes right away; restarted with a growing backoff
+        node("process.exit(3)", {
+          name: "flaky",
+          backoff: { initialMs: 100, maxMs: 200 },
+        }),
+        // Exits cleanly; on-failure leaves it alone
+        node("process.exit(0)", { name: "oneshot", restart: "on-failure" }),
+        // Unhealthy as soon as it prints the pattern
+        node("console.log('FATAL: out of memory'); setInterval(() => {}, 1000)", {
+          name: "leaky",
+          health: { type: "log", pattern: "FATAL" },
+          backoff: { initialMs: 5_000 },
+        }),
+        node("", { name: "off", enabled: false }),
+      ],
+    },
+    { onExit: (name, info) => exits.push(`${name}:${info.code}:${info.expected}`) }
+  );
+
+  const statusOf = (name: string) => manager.status().find((s) => s.name === name)!;
+  try {
+    manager.startAll();
+    assert.equal(statusOf("api").running, false, "api waits for db");
+    await waitFor(() => statusOf("api").running, "api to start after db is ready");
+    assert.equal(statusOf("db").ready, true);
+
+    await waitFor(() => statusOf("flaky").restarts >= 2, "flaky to be restarted twice");
+    assert.ok(exits.filter((e) => e === "flaky:3:false").length >= 2);
+
+    await waitFor(() => exits.includes("oneshot:0:false"), "oneshot to exit");
+    await sleep(300);
+    assert.equal(statusOf("oneshot").restarts, 0);
+    assert.equal(statusOf("oneshot").lastExit?.code, 0);
+
+    await waitFor(() => exits.some((e) => e.startsWith("leaky:") && e.endsWith(":true")), "leaky to be stopped");
+    assert.equal(statusOf("leaky").running, false);
+    assert.equal(statusOf("off").running, false);
+
+    const before = statusOf("api").pid;
+    await manager.restart("api");
+    assert.notEqual(statusOf("api").pid, before);
+    assert.equal(statusOf("api").restarts, 1);
+    console.log("✅ dependencies, restart policies, backoff and log health work");
+  } finally {
+    await manager.stopAll();
+  }
+}
+
+async function testCircuitBreaker() {
+  const opened: CrashReport[] = [];
+  const manager = new ProcessManager(
+    {
+      processes: [
+        node("console.error('proxy unreachable: ECONNREFUSED'); process.exit(1)", {
+          name: "crashy",
+          backoff: { initialMs: 20, maxMs: 20 },
+          circuitBreaker: { restarts: 3, windowMs: 10_000, coolDownMs: 300 },
+          crashReportLines: 5,
+        }),
+      ],
+    },
+    { onCircuitOpen: (_name, report) => opened.push(report) }
+  );
+  const crashy = () => manager.status()[0]!;
+  try {
+    manager.startAll();
+    await waitFor(() => opened.length === 1, "the circuit to open");
+    assert.equal(opened[0]!.failures, 3);
+    assert.match(opened[0]!.stderr, /proxy unreachable/);
+    assert.equal(opened[0]!.lastExit?.code, 1);
+    assert.equal(opened[0]!.coolDownMs, 300);
+    assert.equal(crashy().circuit, "open");
+    const restartsWhileOpen = crashy().restarts;
+    await sleep(150);
+    assert.equal(crashy().restarts, restartsWhileOpen, "no restarts while open");
+
+    // The trial run after the cool-down crashes too: open again, longer
+    await waitFor(() => opened.length === 2, "the circuit to reopen");
+    assert.equal(opened[1]!.coolDownMs, 600);
+    assert.equal(opened[1]!.failures, 1);
+
+    // A manual restart overrides the breaker
+    await manager.restart("crashy");
+    assert.equal(crashy().circuit, "closed");
+    console.log("✅ crash loops open the circuit with a growing cool-down");
+  } finally {
+    await manager.stopAll();
+  }
+}
+
+// stop() waits for the exit; a process ignoring the signal gets SIGKILL
+async function testStop() {
+  const manager = new ProcessManager({
+    processes: [
+      node("process.on('SIGTERM', () => setTimeout(() => process.exit(0), 200)); console.log('up'); setInterval(() => {}, 1000)", {
+        name: "graceful",
+        ready: { pattern: "up" },
+      }),
+      node("process.on('SIGTERM', () => {}); console.log('up'); setInterval(() => {}, 1000)", {
+        name: "stubborn",
+        ready: { pattern: "up" },
+        stopTimeoutMs: 300,
+      }),
+    ],
+  });
+  try {
+    manager.startAll();
+    // Ready once they print, i.e. after installing their signal handlers
+    await waitFor(() => manager.status().every((s) => s.ready), "both to start");
+
+    let started = Date.now();
+    await manager.stop("graceful");
+    assert.ok(Date.now() - started >= 150, "waited for the drain");
+    assert.equal(manager.isRunning("graceful"), false);
+
+    started = Date.now();
+    await manager.stop("stubborn");
+    assert.ok(Date.now() - started >= 250, "waited out stopTimeoutMs");
+    console.log("✅ stop waits for a graceful exit and kills after the timeout");
+  } finally {
+    await manager.stopAll();
+  }
+}
+
+testManifest();
+await testLifecycle();
+await testCircuitBreaker();
+await testStop();
+console.log("\n🎉 process manager tests passed");
@@ -0,0 +1,100 @@
+#!/usr/bin/env tsx
+
+/**
+ * Test: Batched Stream Writer
+ * How to Run: npx tsx tests/unit/test-stream-writer.ts
+ * Purpose: Verify that streamed model output is coalesced into few writes
+ *          that carry only appended text, and that the final state is exact.
+ * Tests: Size-window and time-window flushing, delta ordering via
+ *        joinStreamDeltas, final flush content, and write/byte metrics.
+ * Test Data: Synthetic chunks written to an in-memory fake; no InstantDB.
+ * Challenges: processMessage used to rewrite the whole growing content and
+ *             streamChunks array on every token (O(n²) bytes).
+ * User Request: "We want a stream writer that coalesces chunks on a time or
+ *               size window and sends only appended deltas."
+ */
+
+import assert from "node:assert/strict";
+import { StreamWriter, joinStreamDeltas } from "../../server/lib/stream-writer";
+
+function fakeStore() {
+  const state: Record<string, any> = { streamDeltas: {} };
+  const writes: { kind: string; payload: Record<string, any> }[] = [];
+  const write = async (payload: Record<string, any>, kind: string) => {
+    writes.push({ kind, payload });
+    if (kind === "delta") {
+      Object.assign(state.streamDeltas, payload.streamDeltas);
+      state.streamSeq = payload.streamSeq;
+    } else {
+      Object.assign(state, payload);
+    }
+  };
+  return { state, writes, write };
+}
+
+async function testSizeWindowAndFinal() {
+  const store = fakeStore();
+  const writer = new StreamWriter(store.write, {
+    intervalMs: 10_000,
+    maxBytes: 10,
+  });
+
+  const chunks = ["Hel", "lo, ", "wor", "ld! ", "How ", "are ", "you?"];
+  for (const c of chunks) await writer.push(c);
+
+  const metrics = await writer.finish((content) => ({
+    content,
+    finalContent: content,
+    status: "completed",
+  }));
+
+  const expected = chunks.join("");
+  assert.equal(store.state.finalContent, expected);
+  assert.equal(joinStreamDeltas(store.state.streamDeltas), expected);
+  assert.equal(metrics.chunks, chunks.length);
+  assert.ok(metrics.writes < chunks.length + 1, "expected coalesced writes");
+  assert.equal(metrics.writes, store.writes.length);
+
+  // Deltas never repeat text that was already sent
+  const deltaBytes = store.writes
+    .filter((w) => w.kind === "delta")
+    .map((w) => Object.values(w.payload.streamDeltas).join(""))
+    .join("");
+  assert.equal(deltaBytes, expected);
+  console.log(
+    `✅ size window: ${metrics.writes} writes, ${metrics.bytesSent} bytes`
+  );
+}
+
+async function testTimeWindow() {
+  const store = fakeStore();
+  const writer = new StreamWriter(store.write, {
+    intervalMs: 20,
+    maxBytes: 1_000_000,
+  });
+  await writer.push("a");
+  await writer.push("b");
+  assert.equal(store.writes.length, 0, "nothing written before the window");
+  await new Promise((resolve) => setTimeout(resolve, 60));
+  assert.equal(store.writes.length, 1);
+  assert.equal(joinStreamDeltas(store.state.streamDeltas), "ab");
+
+  await writer.finish((content) => ({ content }));
+  assert.equal(store.state.content, "ab");
+  console.log("✅ time window flushes buffered chunks once");
+}
+
+async function testOrderingBeyondTenDeltas() {
+  const store = fakeStore();
+  const writer = new StreamWriter(store.write, { maxBytes: 1 });
+  const parts = Array.from({ length: 25 }, (_, i) => `${i},`);
+  for (const p of parts) await writer.push(p);
+  await writer.finish((content) => ({ content }));
+  assert.equal(joinStreamDeltas(store.state.streamDeltas), parts.join(""));
+  console.log("✅ zero-padded keys keep deltas in order");
+}
+
+await testSizeWindowAndFinal();
+await testTimeWindow();
+await testOrderingBeyondTenDeltas();
+console.log("\n🎉 stream writer tests passed");